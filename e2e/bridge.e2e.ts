@@ -0,0 +1,185 @@
+import 'fake-indexeddb/auto';
+import { ContractFunctionExecutionError, parseUnits, type Hex } from 'viem';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ARC_CHAIN_ID, SEPOLIA_CHAIN_ID } from '../src/config/chains';
+import type { BridgeState, TransferExecutor, TransferParams, TransferWallet } from '../src/lib/bridgeTransfer';
+import { type Attestation, messageTransmitterAbi } from '../src/lib/cctpProtocol';
+import type { TransferRecord } from '../src/lib/transferHistory';
+import { createMemoryStorage } from '../src/test/memoryStorage';
+import { type BridgeHarness, mockUsdcAbi, startBridgeHarness, USER_GAS, userAccount } from './harness';
+
+let harness: BridgeHarness;
+// App modules, loaded once the harness has pointed them at the local chains and stub
+let app: {
+  transfer: typeof import('../src/lib/bridgeTransfer');
+  history: typeof import('../src/lib/transferHistory');
+  balances: typeof import('../src/lib/balances');
+  rpc: typeof import('../src/lib/rpc');
+};
+
+beforeAll(async () => {
+  harness = await startBridgeHarness(SEPOLIA_CHAIN_ID, ARC_CHAIN_ID);
+
+  vi.stubGlobal('localStorage', createMemoryStorage());
+  // Bridge Kit always calls Circle's hosted attestation service
+  vi.stubGlobal('fetch', harness.fetch);
+  // The same custom RPC settings a user saves, so every app read goes to the local chains
+  const { saveChainRpcSettings } = await import('../src/lib/rpcSettings');
+  for (const chain of [harness.source, harness.destination]) {
+    saveChainRpcSettings(chain.chainId, { urls: [chain.rpcUrl], replaceDefaults: true });
+  }
+
+  app = {
+    transfer: await import('../src/lib/bridgeTransfer'),
+    history: await import('../src/lib/transferHistory'),
+    balances: await import('../src/lib/balances'),
+    rpc: await import('../src/lib/rpc'),
+  };
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await harness?.close();
+});
+
+// The user's wallet as the app sees it. The local adapter signs on whichever
+// chain a step runs on, so the app never has to switch networks.
+const wallet = (): TransferWallet => ({
+  address: userAccount.address,
+  createAdapter: async () => harness.adapter,
+  getChainId: () => undefined,
+  switchChain: async () => {
+    throw new Error('The local wallet does not switch networks');
+  },
+});
+
+async function fundSource(amount: bigint) {
+  const { source } = harness;
+  const hash = await source.walletClient.writeContract({
+    chain: null,
+    account: userAccount,
+    address: source.usdc,
+    abi: mockUsdcAbi,
+    functionName: 'mint',
+    args: [userAccount.address, amount],
+  });
+  await source.publicClient.waitForTransactionReceipt({ hash });
+}
+
+async function usdcBalance(chainId: number): Promise<bigint> {
+  return (await app.balances.readTokenBalance(chainId, 'USDC', userAccount.address)).raw;
+}
+
+// Run a transfer through the app, which sends every transaction. Circle's part
+// is played here: each burn the app reports is attested on the stub.
+async function runTransfer(
+  params: TransferParams,
+  execute: TransferExecutor,
+  { existing, feeExecuted }: { existing?: TransferRecord; feeExecuted?: bigint } = {}
+) {
+  let state: BridgeState = { step: 'idle', error: null, result: null, isLoading: false };
+  const steps: BridgeState['step'][] = [];
+  const attested = new Map<string, Promise<Attestation>>();
+
+  const final = await app.transfer.runTransfer(params, execute, wallet(), (update) => {
+    state = update(state);
+    if (steps[steps.length - 1] !== state.step) steps.push(state.step);
+
+    const burn = state.progress?.find((step) => step.name === 'burn' && step.state === 'success');
+    if (burn?.txHash && !attested.has(burn.txHash)) {
+      attested.set(burn.txHash, harness.attest(burn.txHash as Hex, { feeExecuted }));
+    }
+  }, existing);
+  await Promise.all(attested.values());
+
+  return { final, steps };
+}
+
+// The app saves in the background; wait for the save a check depends on
+async function savedTransfer(id: string | undefined, status: TransferRecord['status']): Promise<TransferRecord> {
+  expect(id).toBeDefined();
+  return vi.waitFor(async () => {
+    const record = await app.history.getTransfer(id!);
+    expect(record?.status).toBe(status);
+    return record!;
+  });
+}
+
+const stepNames = (record: TransferRecord) => record.steps.map((step) => `${step.name}:${step.state}`);
+
+describe('Sepolia to Arc through Bridge Kit over local chains', () => {
+  let completed: TransferRecord;
+
+  it('approves, burns, waits for the attestation and mints a Fast Transfer', async () => {
+    const amount = parseUnits('10', 6);
+    const fee = parseUnits('0.001', 6);
+    await fundSource(amount);
+    const arcBefore = await usdcBalance(ARC_CHAIN_ID);
+
+    const params: TransferParams = { token: 'USDC', amount: '10', sourceChainId: SEPOLIA_CHAIN_ID, destinationChainId: ARC_CHAIN_ID, speed: 'FAST' };
+    const { final, steps } = await runTransfer(params, app.transfer.bridgeExecutor({ ...params, token: 'USDC' }), { feeExecuted: fee });
+
+    expect(final).toMatchObject({ step: 'success', error: null, isLoading: false });
+    expect(steps).toEqual(['idle', 'approving', 'signing-bridge', 'waiting-attestation', 'waiting-receive-message', 'success']);
+
+    completed = await savedTransfer(final.transferId, 'completed');
+    expect(completed).toMatchObject({
+      address: userAccount.address,
+      amount: '10',
+      speed: 'FAST',
+      sourceTxHash: final.sourceTxHash,
+      receiveTxHash: final.receiveTxHash,
+    });
+    expect(stepNames(completed)).toEqual(['approve:success', 'burn:success', 'fetchAttestation:success', 'mint:success']);
+
+    expect(await usdcBalance(SEPOLIA_CHAIN_ID)).toBe(0n);
+    expect(await usdcBalance(ARC_CHAIN_ID)).toBe(arcBefore + amount - fee);
+  });
+
+  it('saves a transfer whose mint failed and resumes it from the mint', async () => {
+    const { destination } = harness;
+    const amount = parseUnits('5', 6);
+    await fundSource(amount);
+    const arcBefore = await usdcBalance(ARC_CHAIN_ID);
+
+    // No gas on Arc: the burn goes through, the mint cannot be sent
+    await destination.testClient.setBalance({ address: userAccount.address, value: 0n });
+    const params: TransferParams = { token: 'USDC', amount: '5', sourceChainId: SEPOLIA_CHAIN_ID, destinationChainId: ARC_CHAIN_ID, speed: 'FAST' };
+    const failed = await runTransfer(params, app.transfer.bridgeExecutor({ ...params, token: 'USDC' }));
+
+    expect(failed.final.step).toBe('error');
+    const stuck = await savedTransfer(failed.final.transferId, 'failed');
+    expect(app.history.isResumable(stuck)).toBe(true);
+    // Bridge Kit only reports the steps that finished
+    expect(stepNames(stuck)).toEqual(['approve:success', 'burn:success', 'fetchAttestation:success']);
+    expect(await usdcBalance(SEPOLIA_CHAIN_ID)).toBe(0n);
+    expect(await usdcBalance(ARC_CHAIN_ID)).toBe(arcBefore);
+
+    await destination.testClient.setBalance({ address: userAccount.address, value: USER_GAS });
+    const resumed = await runTransfer({ ...stuck, speed: stuck.speed ?? 'FAST' }, app.transfer.retryExecutor(stuck), { existing: stuck });
+
+    expect(resumed.final).toMatchObject({ step: 'success', transferId: stuck.id });
+    expect(resumed.steps).toEqual(['idle', 'waiting-receive-message', 'success']);
+    const record = await savedTransfer(stuck.id, 'completed');
+    expect(record.sourceTxHash).toBe(stuck.sourceTxHash);
+    expect(stepNames(record)).toEqual(['approve:success', 'burn:success', 'fetchAttestation:success', 'mint:success']);
+    expect(await usdcBalance(ARC_CHAIN_ID)).toBe(arcBefore + amount);
+  });
+
+  it('rejects a replayed receive with the contract revert, not an RPC failure', async () => {
+    const { destination } = harness;
+    const { message, attestation } = completed.steps.find((step) => step.name === 'fetchAttestation')!.data as Attestation;
+
+    const replay = app.rpc.withRpcFailover(ARC_CHAIN_ID, (client) =>
+      client.simulateContract({
+        account: userAccount.address,
+        address: destination.messageTransmitter,
+        abi: messageTransmitterAbi,
+        functionName: 'receiveMessage',
+        args: [message, attestation],
+      })
+    );
+    await expect(replay).rejects.toBeInstanceOf(ContractFunctionExecutionError);
+    await expect(replay).rejects.toThrow('Nonce already used');
+  });
+});
@@ -0,0 +1,262 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Minimal stand-ins for USDC, the CCTP v2 TokenMessenger and MessageTransmitter,
+// and the bridge contract Bridge Kit burns through.
+// They are installed at the registry's addresses with evm_setAccountCode, so
+// nothing is set in a constructor; `initialize` wires them up instead. Message
+// and event layouts follow CCTP v2 so the app decodes them unchanged.
+
+contract MockUSDC {
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+    uint256 public totalSupply;
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+
+    function decimals() external pure returns (uint8) {
+        return 6;
+    }
+
+    // Open to anyone: the harness funds wallets and the TokenMessenger mints with it
+    function mint(address to, uint256 amount) external {
+        totalSupply += amount;
+        balanceOf[to] += amount;
+        emit Transfer(address(0), to, amount);
+    }
+
+    function burn(uint256 amount) external {
+        require(balanceOf[msg.sender] >= amount, "Burn exceeds balance");
+        balanceOf[msg.sender] -= amount;
+        totalSupply -= amount;
+        emit Transfer(msg.sender, address(0), amount);
+    }
+
+    function approve(address spender, uint256 amount) external returns (bool) {
+        allowance[msg.sender][spender] = amount;
+        emit Approval(msg.sender, spender, amount);
+        return true;
+    }
+
+    function increaseAllowance(address spender, uint256 amount) external returns (bool) {
+        allowance[msg.sender][spender] += amount;
+        emit Approval(msg.sender, spender, allowance[msg.sender][spender]);
+        return true;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        _transfer(msg.sender, to, amount);
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 amount) external returns (bool) {
+        require(allowance[from][msg.sender] >= amount, "Transfer exceeds allowance");
+        allowance[from][msg.sender] -= amount;
+        _transfer(from, to, amount);
+        return true;
+    }
+
+    function _transfer(address from, address to, uint256 amount) private {
+        require(balanceOf[from] >= amount, "Transfer exceeds balance");
+        balanceOf[from] -= amount;
+        balanceOf[to] += amount;
+        emit Transfer(from, to, amount);
+    }
+}
+
+contract MockMessageTransmitter {
+    uint32 public localDomain;
+    address public tokenMessenger;
+    // Key the attestation stub signs messages with
+    address public attester;
+    mapping(bytes32 => uint256) public usedNonces;
+
+    event MessageSent(bytes message);
+    event MessageReceived(
+        address indexed caller,
+        uint32 sourceDomain,
+        bytes32 indexed nonce,
+        bytes32 sender,
+        uint32 indexed finalityThresholdExecuted,
+        bytes messageBody
+    );
+
+    function initialize(uint32 domain, address messenger, address attester_) external {
+        localDomain = domain;
+        tokenMessenger = messenger;
+        attester = attester_;
+    }
+
+    // Header: version, source domain, destination domain, nonce (zero until
+    // attested), sender, recipient, destination caller, min finality, executed finality
+    function sendMessage(
+        uint32 destinationDomain,
+        bytes32 recipient,
+        bytes32 destinationCaller,
+        uint32 minFinalityThreshold,
+        bytes calldata messageBody
+    ) external {
+        require(msg.sender == tokenMessenger, "Only the TokenMessenger sends");
+        emit MessageSent(
+            abi.encodePacked(
+                uint32(1),
+                localDomain,
+                destinationDomain,
+                bytes32(0),
+                bytes32(uint256(uint160(msg.sender))),
+                recipient,
+                destinationCaller,
+                minFinalityThreshold,
+                uint32(0),
+                messageBody
+            )
+        );
+    }
+
+    // Like CCTP v2, the TokenMessenger handles the message before MessageReceived is emitted
+    function receiveMessage(bytes calldata message, bytes calldata attestation) external returns (bool) {
+        require(_recover(keccak256(message), attestation) == attester, "Invalid attestation");
+        require(uint32(bytes4(message[8:12])) == localDomain, "Wrong destination domain");
+
+        bytes32 nonce = bytes32(message[12:44]);
+        require(usedNonces[nonce] == 0, "Nonce already used");
+        usedNonces[nonce] = 1;
+
+        uint32 sourceDomain = uint32(bytes4(message[4:8]));
+        bytes32 sender = bytes32(message[44:76]);
+        uint32 finalityThresholdExecuted = uint32(bytes4(message[144:148]));
+        MockTokenMessenger(tokenMessenger).handleReceiveMessage(message[148:]);
+
+        emit MessageReceived(msg.sender, sourceDomain, nonce, sender, finalityThresholdExecuted, message[148:]);
+        return true;
+    }
+
+    function _recover(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        require(signature.length == 65, "Bad attestation length");
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        return ecrecover(digest, v, r, s);
+    }
+}
+
+contract MockTokenMessenger {
+    address public messageTransmitter;
+    // USDC on this chain, minted on receive
+    address public localToken;
+
+    event DepositForBurn(
+        address indexed burnToken,
+        uint256 amount,
+        address indexed depositor,
+        bytes32 mintRecipient,
+        uint32 destinationDomain,
+        bytes32 destinationTokenMessenger,
+        bytes32 destinationCaller,
+        uint256 maxFee,
+        uint32 indexed minFinalityThreshold,
+        bytes hookData
+    );
+    event MintAndWithdraw(address indexed mintRecipient, uint256 amount, address indexed mintToken, uint256 feeCollected);
+
+    function initialize(address transmitter, address token) external {
+        messageTransmitter = transmitter;
+        localToken = token;
+    }
+
+    // Burn body: version, burn token, mint recipient, amount, message sender,
+    // max fee, fee executed (set at attestation), expiration block
+    function depositForBurn(
+        uint256 amount,
+        uint32 destinationDomain,
+        bytes32 mintRecipient,
+        address burnToken,
+        bytes32 destinationCaller,
+        uint256 maxFee,
+        uint32 minFinalityThreshold
+    ) external {
+        require(maxFee < amount, "Max fee must be less than amount");
+        MockUSDC(burnToken).transferFrom(msg.sender, address(this), amount);
+        MockUSDC(burnToken).burn(amount);
+
+        bytes32 self = bytes32(uint256(uint160(address(this))));
+        bytes memory body = abi.encodePacked(
+            uint32(1),
+            bytes32(uint256(uint160(burnToken))),
+            mintRecipient,
+            amount,
+            bytes32(uint256(uint160(msg.sender))),
+            maxFee,
+            uint256(0),
+            uint256(0)
+        );
+        MockMessageTransmitter(messageTransmitter).sendMessage(
+            destinationDomain,
+            self,
+            destinationCaller,
+            minFinalityThreshold,
+            body
+        );
+        emit DepositForBurn(
+            burnToken,
+            amount,
+            msg.sender,
+            mintRecipient,
+            destinationDomain,
+            self,
+            destinationCaller,
+            maxFee,
+            minFinalityThreshold,
+            ""
+        );
+    }
+
+    function handleReceiveMessage(bytes calldata body) external {
+        require(msg.sender == messageTransmitter, "Only the MessageTransmitter receives");
+        address recipient = address(uint160(uint256(bytes32(body[36:68]))));
+        uint256 amount = uint256(bytes32(body[68:100]));
+        uint256 fee = uint256(bytes32(body[164:196]));
+        MockUSDC(localToken).mint(recipient, amount - fee);
+        emit MintAndWithdraw(recipient, amount - fee, localToken, fee);
+    }
+}
+
+// Bridge Kit's bridge contract: it takes the approved USDC and any kit fee from
+// the user, then burns through the TokenMessenger as the message sender
+contract MockBridge {
+    struct BridgeParams {
+        uint256 amount;
+        uint256 maxFee;
+        uint256 fee;
+        bytes32 mintRecipient;
+        bytes32 destinationCaller;
+        address burnToken;
+        address feeRecipient;
+        uint32 destinationDomain;
+        uint32 minFinalityThreshold;
+    }
+
+    address public tokenMessenger;
+
+    function initialize(address messenger) external {
+        tokenMessenger = messenger;
+    }
+
+    function bridgeWithPreapproval(BridgeParams calldata params) external {
+        MockUSDC token = MockUSDC(params.burnToken);
+        token.transferFrom(msg.sender, address(this), params.amount + params.fee);
+        if (params.fee > 0) token.transfer(params.feeRecipient, params.fee);
+
+        token.approve(tokenMessenger, params.amount);
+        MockTokenMessenger(tokenMessenger).depositForBurn(
+            params.amount,
+            params.destinationDomain,
+            params.mintRecipient,
+            params.burnToken,
+            params.destinationCaller,
+            params.maxFee,
+            params.minFinalityThreshold
+        );
+    }
+}
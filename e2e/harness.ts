@@ -0,0 +1,272 @@
+import { readFileSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import { ViemAdapter } from '@circle-fin/adapter-viem-v2';
+import ganache from 'ganache';
+import solc from 'solc';
+import {
+  concatHex,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  decodeEventLog,
+  encodePacked,
+  hexToBigInt,
+  hexToNumber,
+  http,
+  isAddressEqual,
+  keccak256,
+  parseAbi,
+  sliceHex,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type TestClient,
+  type WalletClient,
+} from 'viem';
+import { privateKeyToAccount, sign } from 'viem/accounts';
+import { getChainConfig, getChainToken } from '../src/config/chains';
+import { getBridgeKitChains, resolveBridgeKitChain } from '../src/lib/bridgeKitChains';
+import { type KitAdapter } from '../src/lib/bridgeTransfer';
+import { type Attestation, bytes32ToAddress, getCctpContracts, messageTransmitterAbi } from '../src/lib/cctpProtocol';
+import { type AttestationStub, startAttestationStub } from '../src/test/attestationStub';
+
+// Well-known development keys (anvil's first two accounts); never fund them anywhere real
+const USER_KEY: Hex = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const ATTESTER_KEY: Hex = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8d6bc1c4fc0aa8a0b4';
+
+export const userAccount = privateKeyToAccount(USER_KEY);
+// Native balance the user starts with on every local chain
+export const USER_GAS = 10n ** 21n;
+const attesterAccount = privateKeyToAccount(ATTESTER_KEY);
+
+// Circle's hosted attestation service, which Bridge Kit calls for testnet chains
+const IRIS_SANDBOX_URL = 'https://iris-api-sandbox.circle.com';
+
+export const mockUsdcAbi = parseAbi(['function mint(address to, uint256 amount)']);
+
+const mockTokenMessengerAbi = parseAbi(['function initialize(address transmitter, address token)']);
+const mockMessageTransmitterAbi = parseAbi(['function initialize(uint32 domain, address messenger, address attester)']);
+const mockBridgeAbi = parseAbi(['function initialize(address messenger)']);
+
+// A ganache instance impersonating one registry chain, with the mocks installed
+// at the addresses the app reads from the registry and Bridge Kit
+export interface LocalChain {
+  chainId: number;
+  domain: number;
+  rpcUrl: string;
+  usdc: Address;
+  tokenMessenger: Address;
+  messageTransmitter: Address;
+  // Bridge Kit's bridge contract, on chains where the kit burns through one
+  bridge?: Address;
+  publicClient: PublicClient;
+  // Signs as the user, who holds gas on every local chain
+  walletClient: WalletClient;
+  testClient: TestClient;
+  close: () => Promise<void>;
+}
+
+export interface BridgeHarness {
+  source: LocalChain;
+  destination: LocalChain;
+  attestationStub: AttestationStub;
+  // Bridge Kit adapter that signs as the user on whichever local chain a step runs on
+  adapter: KitAdapter;
+  // `fetch` with Bridge Kit's Iris requests sent to the attestation stub
+  fetch: typeof fetch;
+  // Attest the burn the way Iris does: fill in the nonce, executed finality and
+  // fee, sign the message and publish it on the stub
+  attest: (burnTxHash: Hex, options?: { feeExecuted?: bigint }) => Promise<Attestation>;
+  close: () => Promise<void>;
+}
+
+type Bytecodes = Record<'MockUSDC' | 'MockTokenMessenger' | 'MockMessageTransmitter' | 'MockBridge', Hex>;
+
+// Ganache 7 runs up to Shanghai, so the mocks are compiled for it
+function compileMocks(): Bytecodes {
+  const source = readFileSync(new URL('./contracts/CctpMocks.sol', import.meta.url), 'utf8');
+  const output = JSON.parse(
+    solc.compile(
+      JSON.stringify({
+        language: 'Solidity',
+        sources: { 'CctpMocks.sol': { content: source } },
+        settings: { evmVersion: 'shanghai', outputSelection: { '*': { '*': ['evm.deployedBytecode.object'] } } },
+      })
+    )
+  );
+  const errors = (output.errors ?? []).filter((entry: { severity: string }) => entry.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(errors.map((entry: { formattedMessage: string }) => entry.formattedMessage).join('\n'));
+  }
+
+  const contracts = output.contracts['CctpMocks.sol'];
+  const bytecode = (name: keyof Bytecodes): Hex => `0x${contracts[name].evm.deployedBytecode.object}`;
+  return {
+    MockUSDC: bytecode('MockUSDC'),
+    MockTokenMessenger: bytecode('MockTokenMessenger'),
+    MockMessageTransmitter: bytecode('MockMessageTransmitter'),
+    MockBridge: bytecode('MockBridge'),
+  };
+}
+
+// Iris's `decodedMessage` for a CCTP v2 burn message: addresses are 20 bytes and lowercase, numbers are decimal strings
+function decodeIrisMessage(message: Hex) {
+  const address = (start: number) => bytes32ToAddress(sliceHex(message, start, start + 32)).toLowerCase();
+  const uint = (start: number, end: number) => hexToBigInt(sliceHex(message, start, end)).toString();
+  return {
+    sourceDomain: hexToNumber(sliceHex(message, 4, 8)).toString(),
+    destinationDomain: hexToNumber(sliceHex(message, 8, 12)).toString(),
+    nonce: sliceHex(message, 12, 44),
+    sender: address(44),
+    recipient: address(76),
+    destinationCaller: sliceHex(message, 108, 140),
+    minFinalityThreshold: uint(140, 144),
+    finalityThresholdExecuted: uint(144, 148),
+    messageBody: sliceHex(message, 148),
+    decodedMessageBody: {
+      burnToken: address(152),
+      mintRecipient: address(184),
+      amount: uint(216, 248),
+      messageSender: address(248),
+      maxFee: uint(280, 312),
+      feeExecuted: uint(312, 344),
+      expirationBlock: uint(344, 376),
+      hookData: null,
+    },
+  };
+}
+
+async function startLocalChain(chainId: number, bytecodes: Bytecodes): Promise<LocalChain> {
+  const config = getChainConfig(chainId);
+  const usdc = getChainToken(chainId, 'USDC')?.contractAddress as Address | undefined;
+  if (!config || !usdc) throw new Error(`Chain ${chainId} is not a registry chain with USDC`);
+
+  const server = ganache.server({
+    chain: { chainId, hardfork: 'shanghai' },
+    wallet: { accounts: [{ secretKey: USER_KEY, balance: USER_GAS }] },
+    logging: { quiet: true },
+  });
+  await server.listen(0, '127.0.0.1');
+  const rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const transport = http(rpcUrl);
+  const publicClient = createPublicClient({ chain: config.viemChain, transport }) as PublicClient;
+  const walletClient = createWalletClient({ account: userAccount, chain: config.viemChain, transport });
+  const testClient = createTestClient({ chain: config.viemChain, mode: 'ganache', transport }) as TestClient;
+
+  const { tokenMessenger, messageTransmitter } = getCctpContracts(chainId);
+  const bridge = resolveBridgeKitChain(chainId, getBridgeKitChains()).kitContracts?.bridge as Address | undefined;
+  await testClient.setCode({ address: usdc, bytecode: bytecodes.MockUSDC });
+  await testClient.setCode({ address: tokenMessenger, bytecode: bytecodes.MockTokenMessenger });
+  await testClient.setCode({ address: messageTransmitter, bytecode: bytecodes.MockMessageTransmitter });
+  if (bridge) {
+    await testClient.setCode({ address: bridge, bytecode: bytecodes.MockBridge });
+    const hash = await walletClient.writeContract({ address: bridge, abi: mockBridgeAbi, functionName: 'initialize', args: [tokenMessenger] });
+    await publicClient.waitForTransactionReceipt({ hash });
+  }
+
+  for (const hash of [
+    await walletClient.writeContract({
+      address: tokenMessenger,
+      abi: mockTokenMessengerAbi,
+      functionName: 'initialize',
+      args: [messageTransmitter, usdc],
+    }),
+    await walletClient.writeContract({
+      address: messageTransmitter,
+      abi: mockMessageTransmitterAbi,
+      functionName: 'initialize',
+      args: [config.cctpDomain, tokenMessenger, attesterAccount.address],
+    }),
+  ]) {
+    await publicClient.waitForTransactionReceipt({ hash });
+  }
+
+  return {
+    chainId,
+    domain: config.cctpDomain,
+    rpcUrl,
+    usdc,
+    tokenMessenger,
+    messageTransmitter,
+    bridge,
+    publicClient,
+    walletClient,
+    testClient,
+    close: () => server.close(),
+  };
+}
+
+// Two local chains and a local attestation service: everything a CCTP transfer
+// touches, with no network
+export async function startBridgeHarness(sourceChainId: number, destinationChainId: number): Promise<BridgeHarness> {
+  const bytecodes = compileMocks();
+  const source = await startLocalChain(sourceChainId, bytecodes);
+  const destination = await startLocalChain(destinationChainId, bytecodes);
+  const attestationStub = await startAttestationStub();
+  let attestedCount = 0;
+
+  const chains = [source, destination];
+  const localChain = (chainId: number) => {
+    const chain = chains.find((entry) => entry.chainId === chainId);
+    if (!chain) throw new Error(`Chain ${chainId} is not running locally`);
+    return chain;
+  };
+  const adapter = new ViemAdapter(
+    {
+      getPublicClient: ({ chain }) => localChain(chain.id).publicClient,
+      getWalletClient: ({ chain }) => localChain(chain.id).walletClient,
+    },
+    {
+      addressContext: 'user-controlled',
+      supportedChains: chains.map((chain) => resolveBridgeKitChain(chain.chainId, getBridgeKitChains())),
+    }
+  ) as unknown as KitAdapter;
+
+  // Kept so the routed fetch still works once it replaces the global one
+  const baseFetch = globalThis.fetch;
+  const localFetch: typeof fetch = (input, init) => {
+    const url = input instanceof Request ? input.url : input.toString();
+    return baseFetch(url.startsWith(IRIS_SANDBOX_URL) ? attestationStub.url + url.slice(IRIS_SANDBOX_URL.length) : input, init);
+  };
+
+  const attest: BridgeHarness['attest'] = async (burnTxHash, { feeExecuted = 0n } = {}) => {
+    const receipt = await source.publicClient.getTransactionReceipt({ hash: burnTxHash });
+    const log = receipt.logs.find((entry) => isAddressEqual(entry.address, source.messageTransmitter));
+    if (!log) throw new Error(`No MessageSent in ${burnTxHash}`);
+    const { args } = decodeEventLog({ abi: messageTransmitterAbi, eventName: 'MessageSent', data: log.data, topics: log.topics });
+
+    attestedCount += 1;
+    const eventNonce = keccak256(encodePacked(['uint32', 'bytes32', 'uint256'], [source.domain, burnTxHash, BigInt(attestedCount)]));
+    const minFinality = sliceHex(args.message, 140, 144);
+    // Header up to the nonce, the nonce, the rest of the header with the executed
+    // finality set to the minimum, then the burn body with the executed fee
+    const message = concatHex([
+      sliceHex(args.message, 0, 12),
+      eventNonce,
+      sliceHex(args.message, 44, 140),
+      minFinality,
+      minFinality,
+      sliceHex(args.message, 148, 312),
+      encodePacked(['uint256'], [feeExecuted]),
+      sliceHex(args.message, 344),
+    ]);
+    const attestation = await sign({ hash: keccak256(message), privateKey: ATTESTER_KEY, to: 'hex' });
+
+    const attested = { message, attestation, eventNonce };
+    attestationStub.attest(source.domain, burnTxHash, attested, decodeIrisMessage(message));
+    return attested;
+  };
+
+  return {
+    source,
+    destination,
+    attestationStub,
+    adapter,
+    fetch: localFetch,
+    attest,
+    close: async () => {
+      await Promise.all([source.close(), destination.close(), attestationStub.close()]);
+    },
+  };
+}
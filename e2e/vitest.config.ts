@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// The end-to-end run starts local chains and compiles the mock contracts, so it
+// is kept out of `npm test` and run with `npm run test:e2e`
+export default defineConfig({
+  test: {
+    include: ['e2e/**/*.e2e.ts'],
+    testTimeout: 60_000,
+    hookTimeout: 120_000,
+  },
+});
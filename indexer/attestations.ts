@@ -0,0 +1,63 @@
+import { isAddressEqual } from 'viem';
+import { decodeBurnMessage, decodeMessageHeader, fetchAttestedMessages } from '../src/lib/cctpProtocol';
+import { type TransferStore, type UnattestedBurn } from './store';
+
+const BATCH_SIZE = 100;
+
+// Burns only learn their nonce from Circle's attestation, and the nonce is what
+// pairs them with MessageReceived on the destination. Ask the attestation
+// service about each unattested burn transaction and record the nonces.
+export async function resolveNonces(store: TransferStore, attestationApiUrl: string) {
+  const burns = await store.listUnattestedBurns(BATCH_SIZE);
+
+  const byTransaction = new Map<string, UnattestedBurn[]>();
+  for (const burn of burns) {
+    const key = `${burn.sourceDomain}:${burn.txHash}`;
+    byTransaction.set(key, [...(byTransaction.get(key) ?? []), burn]);
+  }
+
+  for (const txBurns of byTransaction.values()) {
+    const { sourceDomain, txHash } = txBurns[0];
+    const messages = await fetchAttestedMessages(attestationApiUrl, sourceDomain, txHash);
+    if (!messages?.length) continue;
+
+    // One transaction can carry several burns; match each message to its burn by its contents
+    const unmatched = [...txBurns];
+    for (const { message, eventNonce } of messages) {
+      const header = decodeMessageHeader(message);
+      const details = decodeBurnMessage(message);
+      const index = unmatched.findIndex((burn) =>
+        burn.destinationDomain === header.destinationDomain &&
+        burn.amount === details.amount &&
+        isAddressEqual(burn.mintRecipient, details.mintRecipient)
+      );
+      if (index === -1) continue;
+
+      const [burn] = unmatched.splice(index, 1);
+      await store.attachNonce(burn.id, sourceDomain, eventNonce);
+    }
+  }
+}
+
+// Resolve nonces on a fixed interval, one pass at a time
+export function startNonceResolver(store: TransferStore, attestationApiUrl: string, intervalMs: number) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let isStopped = false;
+
+  const tick = async () => {
+    try {
+      await resolveNonces(store, attestationApiUrl);
+    } catch (err) {
+      console.error('[attestations] Nonce lookup failed:', err);
+    }
+    if (!isStopped) timer = setTimeout(tick, intervalMs);
+  };
+  void tick();
+
+  return {
+    stop: () => {
+      isStopped = true;
+      clearTimeout(timer);
+    },
+  };
+}
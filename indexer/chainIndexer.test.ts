@@ -0,0 +1,143 @@
+import { pad, type Hex } from 'viem';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ARC_CHAIN_ID, getChainConfig, SEPOLIA_CHAIN_ID } from '../src/config/chains';
+import { startChainIndexer } from './chainIndexer';
+import { createFakeChain, depositForBurn, type FakeChain, messageReceived, mintAndWithdraw } from './fakeChain';
+import { createMemoryStore, type MemoryTransferStore } from './memoryStore';
+
+const sepolia = getChainConfig(SEPOLIA_CHAIN_ID)!;
+const ARC_DOMAIN = 26;
+const tx = (n: number): Hex => pad(`0x${n.toString(16).padStart(2, '0')}`, { size: 32 });
+const NONCE: Hex = pad('0x0e', { size: 32 });
+
+let fake: FakeChain;
+let store: MemoryTransferStore;
+let stops: (() => void)[];
+
+function start() {
+  const { stop } = startChainIndexer({
+    chain: sepolia,
+    client: fake.client,
+    store,
+    startBlock: 1n,
+    backfillBlocks: 100n,
+    blockRange: 2n,
+    reorgDepth: 2n,
+  });
+  stops.push(stop);
+}
+
+// Wait until the indexer has caught up with the fake chain's head
+const synced = () =>
+  vi.waitFor(() =>
+    expect(store.cursors.get(SEPOLIA_CHAIN_ID)).toEqual({ blockNumber: fake.head(), blockHash: fake.blockHash(fake.head()) })
+  );
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  fake = createFakeChain();
+  store = createMemoryStore();
+  stops = [];
+});
+
+afterEach(() => {
+  stops.forEach((stop) => stop());
+  vi.restoreAllMocks();
+});
+
+describe('startChainIndexer', () => {
+  it('writes burns and mints in batches and moves the cursor', async () => {
+    fake.mine([depositForBurn(tx(1), ARC_DOMAIN, 1_000_000n)]);
+    fake.mine();
+    fake.mine([mintAndWithdraw(tx(2), 499_500n, 500n), messageReceived(tx(2), ARC_DOMAIN, NONCE)]);
+
+    start();
+    await synced();
+
+    expect(store.transfers).toEqual([
+      expect.objectContaining({
+        status: 'burned',
+        sourceDomain: 0,
+        destinationDomain: ARC_DOMAIN,
+        burn: expect.objectContaining({ txHash: tx(1), amount: 1_000_000n }),
+      }),
+      expect.objectContaining({
+        status: 'minted',
+        sourceDomain: ARC_DOMAIN,
+        nonce: NONCE,
+        mint: expect.objectContaining({ amount: 499_500n, feeCollected: 500n }),
+      }),
+    ]);
+  });
+
+  it('updates rows in place when blocks are indexed again', async () => {
+    fake.mine([depositForBurn(tx(1), ARC_DOMAIN, 1_000_000n)]);
+    fake.mine([mintAndWithdraw(tx(2), 2_000_000n), messageReceived(tx(2), ARC_DOMAIN, NONCE)]);
+    start();
+    await synced();
+    const [burn] = store.transfers;
+    await store.attachNonce(burn.id, 0, pad('0x01', { size: 32 }));
+
+    // A restart from an older cursor reads the same logs again
+    stops.pop()!();
+    await store.saveCursor(SEPOLIA_CHAIN_ID, { blockNumber: 0n, blockHash: fake.blockHash(0n) });
+    start();
+    await synced();
+
+    expect(store.transfers).toHaveLength(2);
+    // The burn keeps the nonce learned from the attestation
+    expect(store.transfers[0]).toMatchObject({ id: burn.id, status: 'attested', nonce: pad('0x01', { size: 32 }) });
+    expect(store.transfers[1]).toMatchObject({ status: 'minted', nonce: NONCE, mint: { amount: 2_000_000n } });
+  });
+
+  it('rolls back and re-indexes the replaced blocks after a reorg', async () => {
+    fake.mine([depositForBurn(tx(1), ARC_DOMAIN, 1_000_000n)]);
+    fake.mine();
+    fake.mine([depositForBurn(tx(3), ARC_DOMAIN, 3_000_000n)]);
+    fake.mine([mintAndWithdraw(tx(4), 4_000_000n), messageReceived(tx(4), ARC_DOMAIN, NONCE)]);
+    start();
+    await synced();
+    expect(store.transfers).toHaveLength(3);
+
+    // Blocks 3 and 4 are replaced by a branch with a different burn
+    fake.reorg(3n, [[depositForBurn(tx(5), ARC_DOMAIN, 5_000_000n)], []]);
+    await synced();
+
+    expect(store.transfers.map((row) => row.burn?.txHash ?? row.mint?.txHash)).toEqual([tx(1), tx(5)]);
+    expect(store.transfers[1].burn).toMatchObject({ blockNumber: 3n, blockHash: fake.blockHash(3n) });
+  });
+
+  it('keeps a mint whose burn was rolled back until the burn is attested again', async () => {
+    fake.mine([depositForBurn(tx(1), ARC_DOMAIN, 1_000_000n)]);
+    start();
+    await synced();
+    const [burn] = store.transfers;
+    await store.attachNonce(burn.id, 0, NONCE);
+    await store.recordMint({
+      sourceDomain: 0,
+      nonce: NONCE,
+      destinationChainId: ARC_CHAIN_ID,
+      destinationDomain: ARC_DOMAIN,
+      txHash: tx(9),
+      logIndex: 0,
+      blockNumber: 10n,
+      blockHash: tx(10),
+      timestamp: new Date(),
+      amount: 1_000_000n,
+    });
+
+    fake.reorg(1n, [[], [depositForBurn(tx(1), ARC_DOMAIN, 1_000_000n)]]);
+    await synced();
+
+    // The burn moved to block 2 and waits for its nonce next to the row that kept the mint
+    expect(store.transfers).toHaveLength(2);
+    expect(store.transfers[0]).toMatchObject({ id: burn.id, nonce: NONCE, burn: undefined, mint: { txHash: tx(9) } });
+    const reindexed = store.transfers[1];
+    expect(reindexed).toMatchObject({ status: 'burned', burn: { txHash: tx(1), blockNumber: 2n } });
+
+    await store.attachNonce(reindexed.id, 0, NONCE);
+    expect(store.transfers).toEqual([
+      expect.objectContaining({ id: reindexed.id, status: 'minted', burn: reindexed.burn, mint: expect.objectContaining({ txHash: tx(9) }) }),
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { type PublicClient } from 'viem';
+import { type ChainIndexerConfig } from './config';
+import { readTransferEvents } from './events';
+import { type Cursor, type TransferStore } from './store';
+
+interface ChainIndexerOptions extends ChainIndexerConfig {
+  client: PublicClient;
+  store: TransferStore;
+  backfillBlocks: bigint;
+  blockRange: bigint;
+  reorgDepth: bigint;
+}
+
+// Index one chain: backfill from the stored cursor (or the configured start
+// block), then follow new blocks. Each batch of logs is written before the
+// cursor moves, so a crash re-indexes at most one batch.
+export function startChainIndexer({ chain, client, store, startBlock, backfillBlocks, blockRange, reorgDepth }: ChainIndexerOptions) {
+  const log = (message: string) => console.log(`[${chain.name}] ${message}`);
+  let isSyncing = false;
+  let hasPendingSync = false;
+
+  async function initialCursor(): Promise<Cursor> {
+    const stored = await store.getCursor(chain.id);
+    if (stored) return stored;
+
+    const head = await client.getBlockNumber();
+    const from = startBlock ?? (head > backfillBlocks ? head - backfillBlocks : 0n);
+    log(`No cursor stored, backfilling from block ${from}`);
+    return { blockNumber: from - 1n };
+  }
+
+  // Roll back when the last indexed block was replaced. Only the cursor's hash is
+  // kept, so the indexer steps back a fixed depth rather than finding the exact fork.
+  async function handleReorg(cursor: Cursor): Promise<Cursor> {
+    if (!cursor.blockHash) return cursor;
+
+    const block = await client.getBlock({ blockNumber: cursor.blockNumber });
+    if (block.hash === cursor.blockHash) return cursor;
+
+    const forkBlock = cursor.blockNumber > reorgDepth ? cursor.blockNumber - reorgDepth : 0n;
+    log(`Reorg detected at block ${cursor.blockNumber}, re-indexing from block ${forkBlock + 1n}`);
+    await store.rollback(chain.id, forkBlock);
+
+    const { hash } = await client.getBlock({ blockNumber: forkBlock });
+    const next = { blockNumber: forkBlock, blockHash: hash };
+    await store.saveCursor(chain.id, next);
+    return next;
+  }
+
+  async function sync() {
+    let cursor = await handleReorg(await initialCursor());
+    const head = await client.getBlockNumber();
+
+    while (cursor.blockNumber < head) {
+      const fromBlock = cursor.blockNumber + 1n;
+      const toBlock = fromBlock + blockRange - 1n < head ? fromBlock + blockRange - 1n : head;
+
+      const { burns, mints } = await readTransferEvents(client, chain, fromBlock, toBlock);
+      await store.upsertBurns(burns);
+      for (const mint of mints) {
+        await store.recordMint(mint);
+      }
+      if (burns.length > 0 || mints.length > 0) {
+        log(`Blocks ${fromBlock}-${toBlock}: ${burns.length} burns, ${mints.length} mints`);
+      }
+
+      const { hash } = await client.getBlock({ blockNumber: toBlock });
+      cursor = { blockNumber: toBlock, blockHash: hash };
+      await store.saveCursor(chain.id, { blockNumber: toBlock, blockHash: hash });
+    }
+  }
+
+  // New blocks can arrive mid-sync; run once more afterwards instead of overlapping
+  function requestSync() {
+    if (isSyncing) {
+      hasPendingSync = true;
+      return;
+    }
+    isSyncing = true;
+    sync()
+      .catch((err) => console.error(`[${chain.name}] Sync failed:`, err))
+      .finally(() => {
+        isSyncing = false;
+        if (hasPendingSync) {
+          hasPendingSync = false;
+          requestSync();
+        }
+      });
+  }
+
+  const unwatch = client.watchBlockNumber({
+    emitOnBegin: true,
+    onBlockNumber: requestSync,
+    onError: (err) => console.error(`[${chain.name}] Block subscription failed:`, err),
+  });
+
+  return { stop: unwatch };
+}
@@ -0,0 +1,60 @@
+import { config as loadEnv } from 'dotenv';
+import { ARC_CHAIN_ID, type ChainConfig, SUPPORTED_CHAINS } from '../src/config/chains';
+
+// indexer/.env first, then the project .env shared with the app
+loadEnv({ path: ['indexer/.env', '.env'], quiet: true });
+
+export interface ChainIndexerConfig {
+  chain: ChainConfig;
+  // WebSocket endpoint for new-block subscriptions; the registry's HTTP endpoints are polled otherwise
+  wssUrl?: string;
+  // First block to index when no cursor is stored; defaults to `backfillBlocks` behind the head
+  startBlock?: bigint;
+}
+
+export interface IndexerConfig {
+  supabaseUrl: string;
+  supabaseKey: string;
+  attestationApiUrl: string;
+  chains: ChainIndexerConfig[];
+  backfillBlocks: bigint;
+  // Largest eth_getLogs range; public testnet RPCs reject wide ranges
+  blockRange: bigint;
+  // Blocks to re-index when the last indexed block is no longer canonical
+  reorgDepth: bigint;
+  attestationIntervalMs: number;
+}
+
+function required(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set. See .env.example.`);
+  }
+  return value;
+}
+
+function optionalBigInt(name: string): bigint | undefined {
+  const value = process.env[name];
+  return value ? BigInt(value) : undefined;
+}
+
+export function loadIndexerConfig(): IndexerConfig {
+  const chainIds = process.env.INDEXER_CHAINS?.split(',').map((id) => Number(id.trim()));
+  const chains = chainIds ? SUPPORTED_CHAINS.filter((chain) => chainIds.includes(chain.id)) : SUPPORTED_CHAINS;
+
+  return {
+    supabaseUrl: required('SUPABASE_URL'),
+    // Writes need the service role key once row level security is on
+    supabaseKey: process.env.SUPABASE_SERVICE_ROLE_KEY || required('SUPABASE_ANON_KEY'),
+    attestationApiUrl: process.env.CCTP_ATTESTATION_API_URL || 'https://iris-api-sandbox.circle.com',
+    chains: chains.map((chain) => ({
+      chain,
+      wssUrl: process.env[`WSS_URL_${chain.id}`] || (chain.id === ARC_CHAIN_ID ? process.env.WSS_URL : undefined),
+      startBlock: optionalBigInt(`INDEXER_START_BLOCK_${chain.id}`) ?? optionalBigInt('INDEXER_START_BLOCK'),
+    })),
+    backfillBlocks: optionalBigInt('INDEXER_BACKFILL_BLOCKS') ?? 10000n,
+    blockRange: optionalBigInt('INDEXER_BLOCK_RANGE') ?? 1000n,
+    reorgDepth: optionalBigInt('INDEXER_REORG_DEPTH') ?? 64n,
+    attestationIntervalMs: 30000,
+  };
+}
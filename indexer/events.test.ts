@@ -0,0 +1,85 @@
+import { pad, type Hex } from 'viem';
+import { describe, expect, it } from 'vitest';
+import { ARC_CHAIN_ID, getChainConfig, SEPOLIA_CHAIN_ID } from '../src/config/chains';
+import { readTransferEvents } from './events';
+import { createFakeChain, depositForBurn, type FakeEvent, messageReceived, mintAndWithdraw } from './fakeChain';
+
+const arc = getChainConfig(ARC_CHAIN_ID)!;
+const TX_A: Hex = pad('0xa1', { size: 32 });
+const TX_B: Hex = pad('0xb2', { size: 32 });
+const nonce = (n: number): Hex => pad(`0x${n.toString(16).padStart(2, '0')}`, { size: 32 });
+
+// Mine one block per entry and read them all back
+async function readAll(blocks: FakeEvent[][]) {
+  const fake = createFakeChain();
+  blocks.forEach((events) => fake.mine(events));
+  return readTransferEvents(fake.client, arc, 1n, fake.head());
+}
+
+describe('readTransferEvents', () => {
+  it('decodes burns with their route and recipient', async () => {
+    const { burns, mints } = await readAll([[depositForBurn(TX_A, 0, 5_000_000n)]]);
+
+    expect(mints).toEqual([]);
+    expect(burns).toEqual([
+      expect.objectContaining({
+        sourceChainId: ARC_CHAIN_ID,
+        sourceDomain: 26,
+        destinationDomain: 0,
+        destinationChainId: SEPOLIA_CHAIN_ID,
+        txHash: TX_A,
+        logIndex: 0,
+        blockNumber: 1n,
+        amount: 5_000_000n,
+        mintRecipient: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      }),
+    ]);
+  });
+
+  it('pairs MintAndWithdraw with the MessageReceived emitted after it', async () => {
+    const { mints } = await readAll([[mintAndWithdraw(TX_A, 999_000n, 1_000n), messageReceived(TX_A, 0, nonce(1))]]);
+
+    expect(mints).toEqual([
+      expect.objectContaining({
+        sourceDomain: 0,
+        nonce: nonce(1),
+        destinationChainId: ARC_CHAIN_ID,
+        logIndex: 1,
+        amount: 999_000n,
+        feeCollected: 1_000n,
+      }),
+    ]);
+  });
+
+  it('pairs each message of a transaction with its own mint', async () => {
+    const { mints } = await readAll([
+      [
+        mintAndWithdraw(TX_A, 1_000_000n),
+        messageReceived(TX_A, 0, nonce(1)),
+        mintAndWithdraw(TX_A, 2_000_000n, 500n),
+        messageReceived(TX_A, 6, nonce(2)),
+      ],
+    ]);
+
+    expect(mints.map((mint) => ({ nonce: mint.nonce, amount: mint.amount, feeCollected: mint.feeCollected }))).toEqual([
+      { nonce: nonce(1), amount: 1_000_000n, feeCollected: 0n },
+      { nonce: nonce(2), amount: 2_000_000n, feeCollected: 500n },
+    ]);
+  });
+
+  it('leaves the amount unset for a message without a mint', async () => {
+    const { mints } = await readAll([
+      [messageReceived(TX_A, 0, nonce(1)), mintAndWithdraw(TX_A, 1_000_000n)],
+      [messageReceived(TX_B, 0, nonce(2))],
+    ]);
+
+    expect(mints).toHaveLength(2);
+    expect(mints[0]).toMatchObject({ nonce: nonce(1), amount: undefined });
+    // A mint is never carried into another transaction
+    expect(mints[1]).toMatchObject({ nonce: nonce(2), amount: undefined });
+  });
+
+  it('reads nothing from an empty range', async () => {
+    await expect(readAll([[], []])).resolves.toEqual({ burns: [], mints: [] });
+  });
+});
@@ -0,0 +1,120 @@
+import { type Hex, type Log, type PublicClient } from 'viem';
+import { type ChainConfig, getChainByCctpDomain } from '../src/config/chains';
+import { bytes32ToAddress, getCctpContracts, messageTransmitterAbi, tokenMessengerAbi } from '../src/lib/cctpProtocol';
+
+// A DepositForBurn on the source chain. Its nonce is only known once Circle
+// attests the message, so burns are keyed by transaction and log index.
+export interface BurnEvent {
+  sourceChainId: number;
+  sourceDomain: number;
+  destinationDomain: number;
+  destinationChainId: number | null;
+  txHash: Hex;
+  logIndex: number;
+  blockNumber: bigint;
+  blockHash: Hex;
+  timestamp: Date;
+  burnToken: Hex;
+  amount: bigint;
+  depositor: Hex;
+  mintRecipient: Hex;
+  maxFee: bigint;
+  minFinalityThreshold: number;
+}
+
+// A MessageReceived on the destination chain, with the MintAndWithdraw that
+// precedes it in the same transaction. Keyed by source domain and nonce.
+export interface MintEvent {
+  sourceDomain: number;
+  nonce: Hex;
+  destinationChainId: number;
+  destinationDomain: number;
+  txHash: Hex;
+  logIndex: number;
+  blockNumber: bigint;
+  blockHash: Hex;
+  timestamp: Date;
+  // Minted amount, after the fast transfer fee
+  amount?: bigint;
+  feeCollected?: bigint;
+}
+
+const TRANSFER_EVENTS = [...tokenMessengerAbi, ...messageTransmitterAbi].filter((item) => item.type === 'event');
+
+type TransferLog = Log<bigint, number, false, undefined, true, typeof TRANSFER_EVENTS>;
+
+async function getBlockTimestamps(client: PublicClient, logs: TransferLog[]): Promise<Map<bigint, Date>> {
+  const blockNumbers = [...new Set(logs.map((log) => log.blockNumber))];
+  const blocks = await Promise.all(blockNumbers.map((blockNumber) => client.getBlock({ blockNumber })));
+  return new Map(blocks.map((block) => [block.number, new Date(Number(block.timestamp) * 1000)]));
+}
+
+// Burns and mints emitted on a chain between two blocks, inclusive
+export async function readTransferEvents(
+  client: PublicClient,
+  chain: ChainConfig,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<{ burns: BurnEvent[]; mints: MintEvent[] }> {
+  const { tokenMessenger, messageTransmitter } = getCctpContracts(chain.id);
+  const logs = (await client.getLogs({
+    address: [tokenMessenger, messageTransmitter],
+    events: TRANSFER_EVENTS,
+    fromBlock,
+    toBlock,
+    strict: true,
+  })) as TransferLog[];
+  if (logs.length === 0) return { burns: [], mints: [] };
+
+  logs.sort((a, b) => (a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1));
+  const timestamps = await getBlockTimestamps(client, logs);
+
+  const burns: BurnEvent[] = [];
+  const mints: MintEvent[] = [];
+  // MessageTransmitterV2 runs the TokenMessenger handler before emitting
+  // MessageReceived, so each mint's MintAndWithdraw comes just before it
+  let pendingMint: Extract<TransferLog, { eventName: 'MintAndWithdraw' }> | undefined;
+  for (const log of logs) {
+    const common = {
+      txHash: log.transactionHash,
+      logIndex: log.logIndex,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      timestamp: timestamps.get(log.blockNumber)!,
+    };
+
+    if (log.eventName === 'DepositForBurn') {
+      const { args } = log;
+      burns.push({
+        ...common,
+        sourceChainId: chain.id,
+        sourceDomain: chain.cctpDomain,
+        destinationDomain: args.destinationDomain,
+        destinationChainId: getChainByCctpDomain(args.destinationDomain)?.id ?? null,
+        burnToken: args.burnToken,
+        amount: args.amount,
+        depositor: args.depositor,
+        mintRecipient: bytes32ToAddress(args.mintRecipient),
+        maxFee: args.maxFee,
+        minFinalityThreshold: args.minFinalityThreshold,
+      });
+    } else if (log.eventName === 'MessageReceived') {
+      const withdraw = pendingMint?.transactionHash === log.transactionHash ? pendingMint : undefined;
+      pendingMint = undefined;
+      mints.push({
+        ...common,
+        sourceDomain: log.args.sourceDomain,
+        nonce: log.args.nonce,
+        destinationChainId: chain.id,
+        destinationDomain: chain.cctpDomain,
+        amount: withdraw?.args.amount,
+        feeCollected: withdraw?.args.feeCollected,
+      });
+    } else if (log.eventName === 'MintAndWithdraw') {
+      // Held until the message it belongs to is received later in the same transaction
+      pendingMint = log;
+    }
+  }
+
+  return { burns, mints };
+}
@@ -0,0 +1,122 @@
+import { pad, toHex, type Hex, type PublicClient } from 'viem';
+
+// An event as a test wants it emitted; block and log positions are filled in when mined
+export interface FakeEvent {
+  txHash: Hex;
+  eventName: 'DepositForBurn' | 'MessageReceived' | 'MintAndWithdraw';
+  args: Record<string, unknown>;
+}
+
+interface FakeBlock {
+  hash: Hex;
+  events: FakeEvent[];
+}
+
+export interface FakeChain {
+  client: PublicClient;
+  head: () => bigint;
+  blockHash: (blockNumber: bigint) => Hex;
+  // Mine one block holding the events, in order, and announce it to block watchers
+  mine: (events?: FakeEvent[]) => bigint;
+  // Replace every block from `fromBlock` on with a new branch of blocks
+  reorg: (fromBlock: bigint, branch: FakeEvent[][]) => void;
+}
+
+const GENESIS_TIME = 1_750_000_000n;
+
+const USDC: Hex = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238';
+const USER: Hex = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+export const depositForBurn = (txHash: Hex, destinationDomain: number, amount: bigint): FakeEvent => ({
+  txHash,
+  eventName: 'DepositForBurn',
+  args: {
+    burnToken: USDC,
+    amount,
+    depositor: USER,
+    mintRecipient: pad(USER),
+    destinationDomain,
+    maxFee: 0n,
+    minFinalityThreshold: 2000,
+  },
+});
+
+export const messageReceived = (txHash: Hex, sourceDomain: number, nonce: Hex): FakeEvent => ({
+  txHash,
+  eventName: 'MessageReceived',
+  args: { sourceDomain, nonce },
+});
+
+export const mintAndWithdraw = (txHash: Hex, amount: bigint, feeCollected = 0n): FakeEvent => ({
+  txHash,
+  eventName: 'MintAndWithdraw',
+  args: { mintRecipient: USER, amount, mintToken: USDC, feeCollected },
+});
+
+// Just enough of a viem public client for the indexer: block numbers, blocks,
+// decoded transfer logs and a block subscription
+export function createFakeChain(): FakeChain {
+  let branchCount = 0;
+  const blocks: FakeBlock[] = [];
+  const watchers: ((blockNumber: bigint) => void)[] = [];
+
+  const head = () => BigInt(blocks.length - 1);
+  const block = (blockNumber: bigint) => {
+    const found = blocks[Number(blockNumber)];
+    if (!found) throw new Error(`Block ${blockNumber} not mined`);
+    return found;
+  };
+  const push = (events: FakeEvent[]) => {
+    blocks.push({ hash: pad(toHex(branchCount * 1_000_000 + blocks.length + 1)), events });
+  };
+  push([]);
+
+  const client = {
+    getBlockNumber: async () => head(),
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({
+      number: blockNumber,
+      hash: block(blockNumber).hash,
+      timestamp: GENESIS_TIME + blockNumber * 12n,
+    }),
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+      const logs = [];
+      for (let blockNumber = fromBlock; blockNumber <= toBlock && blockNumber <= head(); blockNumber++) {
+        const { hash, events } = block(blockNumber);
+        logs.push(
+          ...events.map(({ txHash, eventName, args }, logIndex) => ({
+            eventName,
+            args,
+            blockNumber,
+            blockHash: hash,
+            logIndex,
+            transactionHash: txHash,
+          }))
+        );
+      }
+      // Newest first, so the indexer's own ordering is what pairs events
+      return logs.reverse();
+    },
+    watchBlockNumber: ({ onBlockNumber }: { onBlockNumber: (blockNumber: bigint) => void }) => {
+      watchers.push(onBlockNumber);
+      onBlockNumber(head());
+      return () => watchers.splice(watchers.indexOf(onBlockNumber), 1);
+    },
+  } as unknown as PublicClient;
+
+  return {
+    client,
+    head,
+    blockHash: (blockNumber) => block(blockNumber).hash,
+    mine: (events = []) => {
+      push(events);
+      watchers.forEach((watcher) => watcher(head()));
+      return head();
+    },
+    reorg: (fromBlock, branch) => {
+      branchCount += 1;
+      blocks.length = Number(fromBlock);
+      branch.forEach(push);
+      watchers.forEach((watcher) => watcher(head()));
+    },
+  };
+}
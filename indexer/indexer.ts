@@ -0,0 +1,45 @@
+import { createClient } from '@supabase/supabase-js';
+import { createPublicClient, fallback, http, webSocket, type PublicClient } from 'viem';
+import { startNonceResolver } from './attestations';
+import { startChainIndexer } from './chainIndexer';
+import { loadIndexerConfig } from './config';
+import { createSupabaseStore } from './store';
+
+// Bridge indexer: follows CCTP burns and mints on every registry chain and
+// keeps the Supabase `transfers` table up to date. See indexer/schema.sql.
+// Run with `npm run indexer`.
+
+const config = loadIndexerConfig();
+const store = createSupabaseStore(createClient(config.supabaseUrl, config.supabaseKey, { auth: { persistSession: false } }));
+
+const indexers = config.chains.map(({ chain, wssUrl, startBlock }) => {
+  const client = createPublicClient({
+    chain: chain.viemChain,
+    transport: wssUrl ? webSocket(wssUrl) : fallback(chain.rpcUrls.map((url) => http(url))),
+    pollingInterval: 4000,
+  }) as PublicClient;
+
+  console.log(`[${chain.name}] Indexing over ${wssUrl ? 'WebSocket' : 'HTTP polling'}`);
+  return startChainIndexer({
+    chain,
+    client,
+    store,
+    startBlock,
+    wssUrl,
+    backfillBlocks: config.backfillBlocks,
+    blockRange: config.blockRange,
+    reorgDepth: config.reorgDepth,
+  });
+});
+
+const resolver = startNonceResolver(store, config.attestationApiUrl, config.attestationIntervalMs);
+
+function shutdown() {
+  console.log('Stopping indexer');
+  indexers.forEach((indexer) => indexer.stop());
+  resolver.stop();
+  process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,127 @@
+import { type Hex } from 'viem';
+import { getChainByCctpDomain } from '../src/config/chains';
+import { type BurnEvent, type MintEvent } from './events';
+import { type Cursor, type TransferStore } from './store';
+
+// A row of the `transfers` table, with the burn and mint columns kept as the events they came from
+export interface TransferRecord {
+  id: number;
+  status: 'burned' | 'attested' | 'minted';
+  sourceDomain: number;
+  sourceChainId: number | null;
+  destinationDomain: number;
+  destinationChainId: number | null;
+  nonce?: Hex;
+  burn?: BurnEvent;
+  mint?: MintEvent;
+}
+
+export interface MemoryTransferStore extends TransferStore {
+  transfers: TransferRecord[];
+  cursors: Map<number, Required<Cursor>>;
+}
+
+// Stand-in for the Supabase store with the same upsert and rollback rules as
+// indexer/schema.sql, for running the indexer without a database
+export function createMemoryStore(): MemoryTransferStore {
+  let nextId = 1;
+  const store: MemoryTransferStore = {
+    transfers: [],
+    cursors: new Map(),
+
+    async getCursor(chainId) {
+      return store.cursors.get(chainId) ?? null;
+    },
+
+    async saveCursor(chainId, cursor) {
+      store.cursors.set(chainId, { ...cursor });
+    },
+
+    async upsertBurns(burns) {
+      for (const burn of burns) {
+        const existing = store.transfers.find(
+          (row) => row.sourceDomain === burn.sourceDomain && row.burn?.txHash === burn.txHash && row.burn.logIndex === burn.logIndex
+        );
+        // Only burn columns change, so a re-indexed burn keeps its nonce and mint
+        const route = {
+          sourceChainId: burn.sourceChainId,
+          destinationDomain: burn.destinationDomain,
+          destinationChainId: burn.destinationChainId,
+        };
+        if (existing) {
+          Object.assign(existing, route, { burn });
+        } else {
+          store.transfers.push({ id: nextId++, status: 'burned', sourceDomain: burn.sourceDomain, ...route, burn });
+        }
+      }
+    },
+
+    async recordMint(mint) {
+      const paired = store.transfers.find((row) => row.sourceDomain === mint.sourceDomain && row.nonce === mint.nonce);
+      if (paired) {
+        Object.assign(paired, { mint, status: 'minted' });
+        return;
+      }
+
+      store.transfers.push({
+        id: nextId++,
+        status: 'minted',
+        sourceDomain: mint.sourceDomain,
+        sourceChainId: getChainByCctpDomain(mint.sourceDomain)?.id ?? null,
+        destinationDomain: mint.destinationDomain,
+        destinationChainId: mint.destinationChainId,
+        nonce: mint.nonce,
+        mint,
+      });
+    },
+
+    async listUnattestedBurns(limit) {
+      return store.transfers
+        .filter((row): row is TransferRecord & { burn: BurnEvent } => row.status === 'burned' && row.burn !== undefined)
+        .sort((a, b) => a.burn.timestamp.getTime() - b.burn.timestamp.getTime())
+        .slice(0, limit)
+        .map((row) => ({
+          id: row.id,
+          sourceDomain: row.sourceDomain,
+          txHash: row.burn.txHash,
+          destinationDomain: row.destinationDomain,
+          amount: row.burn.amount,
+          mintRecipient: row.burn.mintRecipient,
+        }));
+    },
+
+    async attachNonce(burnId, sourceDomain, nonce) {
+      // A mint seen before its burn was attested waits in a row without a burn
+      const orphan = store.transfers.find((row) => row.sourceDomain === sourceDomain && row.nonce === nonce && !row.burn);
+      if (orphan) {
+        store.transfers = store.transfers.filter((row) => row !== orphan);
+      }
+
+      const row = store.transfers.find((transfer) => transfer.id === burnId);
+      if (row) {
+        Object.assign(row, { nonce, status: orphan ? 'minted' : 'attested' }, orphan ? { mint: orphan.mint } : {});
+      }
+    },
+
+    async rollback(chainId, afterBlock) {
+      // Mints on this chain: drop unpaired ones, reopen paired ones
+      const mintedAfter = (row: TransferRecord) =>
+        row.destinationChainId === chainId && row.mint !== undefined && row.mint.blockNumber > afterBlock;
+      store.transfers = store.transfers.filter((row) => !(mintedAfter(row) && !row.burn));
+      for (const row of store.transfers.filter(mintedAfter)) {
+        row.mint = undefined;
+        row.status = 'attested';
+      }
+
+      // Burns on this chain: drop them, but keep a mint that already landed until the burn is indexed again
+      const burnedAfter = (row: TransferRecord) =>
+        row.sourceChainId === chainId && row.burn !== undefined && row.burn.blockNumber > afterBlock;
+      store.transfers = store.transfers.filter((row) => !(burnedAfter(row) && !row.mint));
+      for (const row of store.transfers.filter(burnedAfter)) {
+        row.burn = undefined;
+      }
+    },
+  };
+
+  return store;
+}
@@ -0,0 +1,68 @@
+-- Tables written by the bridge indexer (indexer/indexer.ts).
+-- Apply once in the Supabase SQL editor or with `psql -f indexer/schema.sql`.
+
+-- One row per CCTP transfer.
+--
+-- A burn is written as soon as DepositForBurn is seen on the source chain
+-- (status 'burned'). CCTP v2 assigns the nonce at attestation, so the indexer
+-- asks Circle's attestation service for it (status 'attested'). The
+-- MessageReceived/MintAndWithdraw on the destination chain is then paired by
+-- (source_domain, nonce) and completes the row (status 'minted').
+--
+-- A mint seen before its burn is attested, or whose source chain is not
+-- indexed, is kept as a row without burn columns and merged into the burn
+-- row once the nonce is known.
+create table if not exists transfers (
+  id bigint generated always as identity primary key,
+  status text not null default 'burned' check (status in ('burned', 'attested', 'minted')),
+
+  -- Route. Chain IDs are null for CCTP domains this bridge does not list.
+  source_domain integer not null,
+  source_chain_id bigint,
+  destination_domain integer,
+  destination_chain_id bigint,
+  -- bytes32 hex, set once attested
+  nonce text,
+
+  -- DepositForBurn on the source chain
+  burn_tx_hash text,
+  burn_log_index integer,
+  burn_block_number bigint,
+  burn_block_hash text,
+  burned_at timestamptz,
+  burn_token text,
+  -- Raw token units (6 decimals for USDC and EURC)
+  amount numeric(78, 0),
+  depositor text,
+  mint_recipient text,
+  max_fee numeric(78, 0),
+  min_finality_threshold integer,
+
+  -- MessageReceived and MintAndWithdraw on the destination chain
+  mint_tx_hash text,
+  mint_log_index integer,
+  mint_block_number bigint,
+  mint_block_hash text,
+  minted_at timestamptz,
+  -- Amount received after the Fast Transfer fee
+  minted_amount numeric(78, 0),
+  fee_collected numeric(78, 0),
+
+  updated_at timestamptz not null default now(),
+
+  unique (source_domain, burn_tx_hash, burn_log_index),
+  unique (source_domain, nonce)
+);
+
+create index if not exists transfers_depositor_idx on transfers (lower(depositor));
+create index if not exists transfers_mint_recipient_idx on transfers (lower(mint_recipient));
+create index if not exists transfers_status_idx on transfers (status, burned_at);
+
+-- Last indexed block per chain. The hash is compared on restart and on every
+-- new block to notice reorgs.
+create table if not exists indexer_cursors (
+  chain_id bigint primary key,
+  block_number bigint not null,
+  block_hash text not null,
+  updated_at timestamptz not null default now()
+);
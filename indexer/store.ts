@@ -0,0 +1,230 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { type Hex } from 'viem';
+import { getChainByCctpDomain } from '../src/config/chains';
+import { type BurnEvent, type MintEvent } from './events';
+
+export interface Cursor {
+  blockNumber: bigint;
+  // Hash of the last indexed block, used to notice reorgs. Unset before the first batch.
+  blockHash?: Hex;
+}
+
+// Burn waiting for Circle's attestation to learn its nonce
+export interface UnattestedBurn {
+  id: number;
+  sourceDomain: number;
+  txHash: Hex;
+  destinationDomain: number;
+  amount: bigint;
+  mintRecipient: Hex;
+}
+
+// Everything the indexer writes, so it can run against Supabase or a stand-in
+export interface TransferStore {
+  getCursor(chainId: number): Promise<Cursor | null>;
+  saveCursor(chainId: number, cursor: Required<Cursor>): Promise<void>;
+  upsertBurns(burns: BurnEvent[]): Promise<void>;
+  // Completes the burn with the same source domain and nonce, or keeps the mint until that burn is attested
+  recordMint(mint: MintEvent): Promise<void>;
+  listUnattestedBurns(limit: number): Promise<UnattestedBurn[]>;
+  attachNonce(burnId: number, sourceDomain: number, nonce: Hex): Promise<void>;
+  // Undo everything a chain contributed after a block
+  rollback(chainId: number, afterBlock: bigint): Promise<void>;
+}
+
+const MINT_COLUMNS = [
+  'mint_tx_hash',
+  'mint_log_index',
+  'mint_block_number',
+  'mint_block_hash',
+  'minted_at',
+  'minted_amount',
+  'fee_collected',
+] as const;
+
+const BURN_COLUMNS = [
+  'burn_tx_hash',
+  'burn_log_index',
+  'burn_block_number',
+  'burn_block_hash',
+  'burned_at',
+  'burn_token',
+  'amount',
+  'depositor',
+  'mint_recipient',
+  'max_fee',
+  'min_finality_threshold',
+] as const;
+
+const nullColumns = (columns: readonly string[]) => Object.fromEntries(columns.map((column) => [column, null]));
+
+const toBurnRow = (burn: BurnEvent) => ({
+  source_domain: burn.sourceDomain,
+  source_chain_id: burn.sourceChainId,
+  destination_domain: burn.destinationDomain,
+  destination_chain_id: burn.destinationChainId,
+  burn_tx_hash: burn.txHash,
+  burn_log_index: burn.logIndex,
+  burn_block_number: burn.blockNumber.toString(),
+  burn_block_hash: burn.blockHash,
+  burned_at: burn.timestamp.toISOString(),
+  burn_token: burn.burnToken,
+  amount: burn.amount.toString(),
+  depositor: burn.depositor,
+  mint_recipient: burn.mintRecipient,
+  max_fee: burn.maxFee.toString(),
+  min_finality_threshold: burn.minFinalityThreshold,
+  updated_at: new Date().toISOString(),
+});
+
+const toMintColumns = (mint: MintEvent) => ({
+  mint_tx_hash: mint.txHash,
+  mint_log_index: mint.logIndex,
+  mint_block_number: mint.blockNumber.toString(),
+  mint_block_hash: mint.blockHash,
+  minted_at: mint.timestamp.toISOString(),
+  minted_amount: mint.amount?.toString() ?? null,
+  fee_collected: mint.feeCollected?.toString() ?? null,
+  status: 'minted',
+  updated_at: new Date().toISOString(),
+});
+
+// Supabase errors are plain objects; rethrow them as errors with the failing step
+function check<T>(result: { data: T; error: { message: string } | null }, action: string): T {
+  if (result.error) {
+    throw new Error(`Supabase ${action} failed: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+export function createSupabaseStore(supabase: SupabaseClient): TransferStore {
+  const transfers = () => supabase.from('transfers');
+
+  return {
+    async getCursor(chainId) {
+      const data = check(
+        await supabase.from('indexer_cursors').select('block_number, block_hash').eq('chain_id', chainId).maybeSingle(),
+        'cursor read'
+      );
+      return data ? { blockNumber: BigInt(data.block_number), blockHash: data.block_hash } : null;
+    },
+
+    async saveCursor(chainId, cursor) {
+      check(
+        await supabase.from('indexer_cursors').upsert({
+          chain_id: chainId,
+          block_number: cursor.blockNumber.toString(),
+          block_hash: cursor.blockHash,
+          updated_at: new Date().toISOString(),
+        }),
+        'cursor write'
+      );
+    },
+
+    async upsertBurns(burns) {
+      if (burns.length === 0) return;
+      // Only burn columns are sent, so a re-indexed burn keeps its nonce and mint
+      check(
+        await transfers().upsert(burns.map(toBurnRow), { onConflict: 'source_domain,burn_tx_hash,burn_log_index', defaultToNull: false }),
+        'burn upsert'
+      );
+    },
+
+    async recordMint(mint) {
+      const paired = check(
+        await transfers().update(toMintColumns(mint)).eq('source_domain', mint.sourceDomain).eq('nonce', mint.nonce).select('id'),
+        'mint update'
+      );
+      if (paired && paired.length > 0) return;
+
+      check(
+        await transfers().upsert(
+          {
+            source_domain: mint.sourceDomain,
+            source_chain_id: getChainByCctpDomain(mint.sourceDomain)?.id ?? null,
+            nonce: mint.nonce,
+            destination_domain: mint.destinationDomain,
+            destination_chain_id: mint.destinationChainId,
+            ...toMintColumns(mint),
+          },
+          { onConflict: 'source_domain,nonce' }
+        ),
+        'mint insert'
+      );
+    },
+
+    async listUnattestedBurns(limit) {
+      const data = check(
+        await transfers()
+          .select('id, source_domain, burn_tx_hash, destination_domain, amount, mint_recipient')
+          .eq('status', 'burned')
+          .not('burn_tx_hash', 'is', null)
+          .order('burned_at', { ascending: true })
+          .limit(limit),
+        'burn list'
+      );
+      return (data ?? []).map((row) => ({
+        id: row.id,
+        sourceDomain: row.source_domain,
+        txHash: row.burn_tx_hash,
+        destinationDomain: row.destination_domain,
+        amount: BigInt(row.amount),
+        mintRecipient: row.mint_recipient,
+      }));
+    },
+
+    async attachNonce(burnId, sourceDomain, nonce) {
+      // A mint seen before its burn was attested waits in a row without burn columns
+      const orphan = check(
+        await transfers()
+          .select(MINT_COLUMNS.join(', '))
+          .eq('source_domain', sourceDomain)
+          .eq('nonce', nonce)
+          .is('burn_tx_hash', null)
+          .maybeSingle(),
+        'mint lookup'
+      ) as Record<string, unknown> | null;
+      if (orphan) {
+        check(await transfers().delete().eq('source_domain', sourceDomain).eq('nonce', nonce).is('burn_tx_hash', null), 'mint merge');
+      }
+
+      check(
+        await transfers()
+          .update({ ...(orphan ?? {}), nonce, status: orphan ? 'minted' : 'attested', updated_at: new Date().toISOString() })
+          .eq('id', burnId),
+        'nonce update'
+      );
+    },
+
+    async rollback(chainId, afterBlock) {
+      const block = afterBlock.toString();
+      const now = new Date().toISOString();
+
+      // Mints on this chain: drop unpaired ones, reopen paired ones
+      check(
+        await transfers().delete().eq('destination_chain_id', chainId).gt('mint_block_number', block).is('burn_tx_hash', null),
+        'mint rollback'
+      );
+      check(
+        await transfers()
+          .update({ ...nullColumns(MINT_COLUMNS), status: 'attested', updated_at: now })
+          .eq('destination_chain_id', chainId)
+          .gt('mint_block_number', block),
+        'mint rollback'
+      );
+
+      // Burns on this chain: drop them, but keep a mint that already landed until the burn is indexed again
+      check(
+        await transfers().delete().eq('source_chain_id', chainId).gt('burn_block_number', block).is('mint_tx_hash', null),
+        'burn rollback'
+      );
+      check(
+        await transfers()
+          .update({ ...nullColumns(BURN_COLUMNS), updated_at: now })
+          .eq('source_chain_id', chainId)
+          .gt('burn_block_number', block),
+        'burn rollback'
+      );
+    },
+  };
+}
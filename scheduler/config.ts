@@ -0,0 +1,31 @@
+import { config as loadEnv } from 'dotenv';
+
+// scheduler/.env first, then the project .env shared with the app
+loadEnv({ path: ['scheduler/.env', '.env'], quiet: true });
+
+export interface SchedulerConfig {
+  // Signs every scheduled transfer; keep it to a wallet funded for this purpose only
+  privateKey: string;
+  // Schedules exported from the app
+  schedulesPath: string;
+  // Handled due times and the run log, kept between restarts
+  statePath: string;
+  checkIntervalMs: number;
+}
+
+function required(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set. See .env.example.`);
+  }
+  return value;
+}
+
+export function loadSchedulerConfig(): SchedulerConfig {
+  return {
+    privateKey: required('SCHEDULER_PRIVATE_KEY'),
+    schedulesPath: process.env.SCHEDULER_SCHEDULES_FILE || 'scheduler/schedules.json',
+    statePath: process.env.SCHEDULER_STATE_FILE || 'scheduler/state.json',
+    checkIntervalMs: Number(process.env.SCHEDULER_INTERVAL_MS) || 60000,
+  };
+}
@@ -0,0 +1,75 @@
+import { readFileSync } from 'node:fs';
+import { getChainName } from '../src/config/chains';
+import { type Schedule, findDueRuns, parseSchedules } from '../src/lib/scheduling';
+import { loadSchedulerConfig } from './config';
+import { type SchedulerState, loadState, logRun, saveState } from './state';
+import { createTransferExecutor } from './transfer';
+
+// Headless scheduler: runs the schedules exported from the app ("Export for
+// the headless runner") with a private-key signer, without asking anyone.
+// Run with `npm run scheduler`, or `npm run scheduler -- --once` from cron.
+
+const config = loadSchedulerConfig();
+const execute = createTransferExecutor(config.privateKey);
+const state = loadState(config.statePath);
+const runOnce = process.argv.includes('--once');
+
+const describe = (schedule: Schedule) =>
+  `"${schedule.label}" (${schedule.amount} ${schedule.token}, ${getChainName(schedule.sourceChainId)} → ${getChainName(schedule.destinationChainId)})`;
+
+async function runSchedule(schedule: Schedule, schedulerState: SchedulerState, now: number) {
+  // A schedule new to this runner picks up where the app left off when it was exported
+  const lastHandledAt = schedulerState.lastHandledAt[schedule.id] ?? schedule.lastHandledAt;
+
+  const { missed, due } = findDueRuns({ rule: schedule.rule, lastHandledAt }, now);
+  if (missed.length > 0) {
+    console.warn(`Missed ${missed.length} run(s) of ${describe(schedule)}`);
+    logRun(schedulerState, { scheduleId: schedule.id, status: 'missed', dueAt: missed[missed.length - 1], missedCount: missed.length });
+  }
+  if (due === null) return;
+
+  console.log(`Running ${describe(schedule)}, due ${new Date(due).toISOString()}`);
+  // Recorded before sending, so a crash mid-transfer never sends it twice
+  schedulerState.lastHandledAt[schedule.id] = due;
+  saveState(config.statePath, schedulerState);
+  const outcome = await execute(schedule);
+  if (outcome.error) {
+    console.error(`Failed ${describe(schedule)}: ${outcome.error}`);
+  } else {
+    console.log(`Executed ${describe(schedule)}: burn ${outcome.sourceTxHash}, mint ${outcome.receiveTxHash}`);
+  }
+  logRun(schedulerState, {
+    scheduleId: schedule.id,
+    status: outcome.error ? 'failed' : 'executed',
+    dueAt: due,
+    ...outcome,
+  });
+}
+
+async function tick() {
+  // Read the file every time, so a new export applies without a restart
+  const { schedules, errors } = parseSchedules(readFileSync(config.schedulesPath, 'utf8'));
+  errors.forEach((error) => console.warn(`Ignoring schedule. ${error}`));
+
+  for (const schedule of schedules.filter((s) => s.enabled)) {
+    await runSchedule(schedule, state, Date.now());
+    saveState(config.statePath, state);
+  }
+}
+
+async function loop() {
+  try {
+    await tick();
+  } catch (err) {
+    console.error('Scheduler check failed:', err);
+    if (runOnce) process.exit(1);
+  }
+  if (runOnce) return;
+  // Wait for the previous check, which can take minutes, before the next one
+  setTimeout(loop, config.checkIntervalMs);
+}
+
+process.on('SIGINT', () => process.exit(0));
+process.on('SIGTERM', () => process.exit(0));
+
+loop();
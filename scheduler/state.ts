@@ -0,0 +1,28 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import type { ScheduleRun } from '../src/lib/scheduling';
+
+// Oldest log entries are dropped past this
+const MAX_RUNS = 500;
+
+export interface SchedulerState {
+  // Latest due time handled per schedule, like Schedule.lastHandledAt in the app
+  lastHandledAt: Record<string, number>;
+  // Newest first
+  runs: ScheduleRun[];
+}
+
+export function loadState(path: string): SchedulerState {
+  if (!existsSync(path)) return { lastHandledAt: {}, runs: [] };
+  return JSON.parse(readFileSync(path, 'utf8')) as SchedulerState;
+}
+
+export function saveState(path: string, state: SchedulerState) {
+  writeFileSync(path, JSON.stringify(state, null, 2));
+}
+
+// Log a run and mark its due time handled, so it is not run again
+export function logRun(state: SchedulerState, run: Omit<ScheduleRun, 'id' | 'loggedAt' | 'runner'>) {
+  const entry: ScheduleRun = { ...run, id: crypto.randomUUID(), loggedAt: Date.now(), runner: 'headless' };
+  state.runs = [entry, ...state.runs].slice(0, MAX_RUNS);
+  state.lastHandledAt[run.scheduleId] = Math.max(state.lastHandledAt[run.scheduleId] ?? 0, run.dueAt);
+}
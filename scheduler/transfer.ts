@@ -0,0 +1,69 @@
+import { createAdapterFromPrivateKey } from '@circle-fin/adapter-viem-v2';
+import { BridgeKit, type AdapterContext } from '@circle-fin/bridge-kit';
+import { createPublicClient, fallback, http, type PublicClient } from 'viem';
+import { getChainConfig } from '../src/config/chains';
+import { isBridgeKitToken, resolveBridgeKitChain } from '../src/lib/bridgeKitChains';
+import type { Schedule } from '../src/lib/scheduling';
+
+// adapter-viem-v2 and bridge-kit each bundle their own Adapter typings (see src/hooks/useBridge.ts)
+type KitAdapter = AdapterContext['adapter'];
+
+export interface TransferOutcome {
+  sourceTxHash?: string;
+  receiveTxHash?: string;
+  error?: string;
+}
+
+export type TransferExecutor = (schedule: Schedule) => Promise<TransferOutcome>;
+
+// Send scheduled transfers from the wallet behind a private key. Bridge Kit
+// signs the burn and the mint with it, so that wallet needs gas on both chains.
+export function createTransferExecutor(privateKey: string): TransferExecutor {
+  const adapter = createAdapterFromPrivateKey({
+    privateKey,
+    // The registry's endpoints first, then viem's default for the chain
+    getPublicClient: ({ chain }) => createPublicClient({
+      chain,
+      transport: fallback([...(getChainConfig(chain.id)?.rpcUrls ?? []).map((url) => http(url)), http()]),
+    }) as PublicClient,
+  }) as unknown as KitAdapter;
+  const kit = new BridgeKit();
+  const supportedChains = kit.getSupportedChains();
+
+  return async (schedule) => {
+    if (!isBridgeKitToken(schedule.token)) {
+      return { error: `Bridge Kit cannot route ${schedule.token} yet.` };
+    }
+
+    try {
+      const sourceChain = resolveBridgeKitChain(schedule.sourceChainId, supportedChains);
+      const destinationChain = resolveBridgeKitChain(schedule.destinationChainId, supportedChains);
+      const result = await kit.bridge({
+        from: { adapter, chain: sourceChain.chain },
+        to: {
+          adapter,
+          chain: destinationChain.chain,
+          ...(schedule.recipient && { recipientAddress: schedule.recipient }),
+        },
+        amount: schedule.amount,
+        token: schedule.token,
+        config: { transferSpeed: schedule.speed },
+      });
+
+      // Bridge Kit resolves with the failed step instead of throwing
+      const sourceTxHash = result.steps.find((step) => step.name === 'burn')?.txHash;
+      const receiveTxHash = result.steps.find((step) => step.name === 'mint')?.txHash;
+      const failedStep = result.steps.find((step) => step.state === 'error');
+      if (failedStep) {
+        return { sourceTxHash, error: failedStep.errorMessage ?? `${failedStep.name} step failed` };
+      }
+      return receiveTxHash
+        ? { sourceTxHash, receiveTxHash }
+        : { sourceTxHash, error: 'Bridge Kit finished without a receive transaction.' };
+    } catch (err) {
+      // viem's full message repeats the request; its short message is enough for the log
+      const shortMessage = (err as { shortMessage?: string }).shortMessage;
+      return { error: shortMessage ?? (err instanceof Error ? err.message : String(err)) };
+    }
+  };
+}
@@ -1,12 +1,21 @@
-import React from 'react';
-import { RainbowKitProvider, ConnectButton } from '@rainbow-me/rainbowkit';
+import React, { useState } from 'react';
+import { RainbowKitAuthenticationProvider, RainbowKitProvider, ConnectButton } from '@rainbow-me/rainbowkit';
 import { WagmiProvider, useAccount } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { config } from './config/wagmi';
 import BridgeModal from './components/BridgeModal';
 import MaintenancePage from './components/MaintenancePage';
 import BridgeGuide from './components/BridgeGuide';
-import { ArrowLeftRight, Moon, Sun } from 'lucide-react';
+import PortfolioPanel from './components/PortfolioPanel';
+import RpcSettingsPanel from './components/RpcSettingsPanel';
+import AddressBookPanel from './components/AddressBookPanel';
+import TransferStatusPage from './components/TransferStatusPage';
+import AnalyticsPage from './components/AnalyticsPage';
+import { ANALYTICS_PATH, isAnalyticsPath, parseTxRoute } from './lib/routes';
+import { authenticationAdapter, isSessionEnabled } from './lib/session';
+import { supabase } from './lib/supabase';
+import { useSession } from './hooks/useSession';
+import { ArrowLeftRight, BarChart3, Moon, Sun } from 'lucide-react';
 import { ThemeProvider, useTheme } from './context/ThemeContext';
 import '@rainbow-me/rainbowkit/styles.css';
 
@@ -16,15 +25,20 @@ const queryClient = new QueryClient();
 // Set to "true" in .env to enable maintenance page, "false" or omit to go live
 const MAINTENANCE_MODE = import.meta.env.VITE_MAINTENANCE_MODE === 'true';
 
+// Routes besides the bridge; links to them are plain page loads
+const txRoute = parseTxRoute(window.location.pathname);
+const isAnalytics = isAnalyticsPath(window.location.pathname);
+
 function AppContent() {
+  const { address, isConnected } = useAccount();
+  const { theme, toggleTheme } = useTheme();
+  const [sourceChainRequest, setSourceChainRequest] = useState<{ chainId: number }>();
+
   // Show maintenance page if maintenance mode is enabled
   if (MAINTENANCE_MODE) {
     return <MaintenancePage />;
   }
 
-  const { address, isConnected } = useAccount();
-  const { theme, toggleTheme } = useTheme();
-
   return (
     <div className="min-h-screen bg-orange-50 dark:bg-gray-900 flex items-start justify-center p-3 sm:p-4 md:p-10 transition-colors duration-200 font-sans">
       <div className="w-full max-w-6xl mt-4 sm:mt-6 md:mt-10 space-y-6">
@@ -43,6 +57,16 @@ function AppContent() {
               </p>
             </div>
             <div className="flex items-center gap-3">
+              {/* Analytics needs the indexer's Supabase tables */}
+              {supabase && !isAnalytics && (
+                <a
+                  href={ANALYTICS_PATH}
+                  className="p-3 rounded-xl bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-600 transition-all duration-200 shadow-sm"
+                  title="Bridge analytics"
+                >
+                  <BarChart3 className="w-5 h-5 text-orange-500" />
+                </a>
+              )}
               {/* Theme Toggle Button */}
               <button
                 onClick={toggleTheme}
@@ -68,24 +92,50 @@ function AppContent() {
             </div>
           </div>
 
-          <div className="mt-8 grid gap-6 lg:grid-cols-[3fr_2fr]">
-            <BridgeModal asPage />
-            <BridgeGuide address={address} isConnected={isConnected} />
-          </div>
+          {txRoute ? (
+            <TransferStatusPage route={txRoute.route} error={txRoute.error} />
+          ) : isAnalytics ? (
+            <AnalyticsPage />
+          ) : (
+            <div className="mt-8 grid gap-6 lg:grid-cols-[3fr_2fr]">
+              <BridgeModal asPage sourceChainRequest={sourceChainRequest} />
+              <div className="space-y-6">
+                <PortfolioPanel
+                  address={address}
+                  isConnected={isConnected}
+                  onBridgeFrom={(chainId) => setSourceChainRequest({ chainId })}
+                />
+                <BridgeGuide address={address} isConnected={isConnected} />
+                <AddressBookPanel />
+                <RpcSettingsPanel />
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
 }
 
+// RainbowKit asks a newly connected wallet to sign in before the app treats it as signed in
+function SessionRainbowKitProvider({ children }: { children: React.ReactNode }) {
+  const { status } = useSession();
+
+  return (
+    <RainbowKitAuthenticationProvider adapter={authenticationAdapter} status={status} enabled={isSessionEnabled}>
+      <RainbowKitProvider locale="en-US">{children}</RainbowKitProvider>
+    </RainbowKitAuthenticationProvider>
+  );
+}
+
 function App() {
   return (
     <ThemeProvider>
       <WagmiProvider config={config}>
         <QueryClientProvider client={queryClient}>
-          <RainbowKitProvider locale="en-US">
+          <SessionRainbowKitProvider>
             <AppContent />
-          </RainbowKitProvider>
+          </SessionRainbowKitProvider>
         </QueryClientProvider>
       </WagmiProvider>
     </ThemeProvider>
@@ -0,0 +1,238 @@
+import { useRef, useState } from 'react';
+import { BookUser, ChevronDown, Cloud, Download, Loader2, Pencil, Trash2, Upload } from 'lucide-react';
+import { isAddress } from 'viem';
+import { SUPPORTED_CHAINS, getChainName } from '../config/chains';
+import { useAddressBook } from '../hooks/useAddressBook';
+import { useAddressBookSync } from '../hooks/useAddressBookSync';
+import {
+  type AddressBookEntry,
+  exportAddressBook,
+  importAddressBook,
+  parseAddressBookImport,
+  removeAddressBookEntry,
+  saveAddressBookEntry,
+} from '../lib/addressBook';
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+export default function AddressBookPanel() {
+  const entries = useAddressBook();
+  const sync = useAddressBookSync();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [label, setLabel] = useState('');
+  const [address, setAddress] = useState('');
+  const [chainIds, setChainIds] = useState<number[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const trimmedAddress = address.trim();
+  // Mixed-case addresses must match their checksum, like the recipient field
+  const isValidAddress = isAddress(trimmedAddress, { strict: true });
+  const canSave = label.trim() !== '' && isValidAddress && chainIds.length > 0;
+
+  const resetForm = () => {
+    setLabel('');
+    setAddress('');
+    setChainIds([]);
+    setEditingId(null);
+  };
+
+  const edit = (entry: AddressBookEntry) => {
+    setLabel(entry.label);
+    setAddress(entry.address);
+    setChainIds(entry.chainIds);
+    setEditingId(entry.id);
+  };
+
+  const save = () => {
+    // Changing the address of an entry replaces it
+    if (editingId && entries.find((entry) => entry.id === editingId)?.address.toLowerCase() !== trimmedAddress.toLowerCase()) {
+      removeAddressBookEntry(editingId);
+    }
+    saveAddressBookEntry({ label, address: trimmedAddress as AddressBookEntry['address'], chainIds });
+    resetForm();
+  };
+
+  const toggleChain = (chainId: number) => {
+    setChainIds(chainIds.includes(chainId) ? chainIds.filter((id) => id !== chainId) : [...chainIds, chainId]);
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([exportAddressBook()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'address-book.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const upload = async (file: File) => {
+    const { entries: imported, errors } = parseAddressBookImport(await file.text());
+    importAddressBook(imported);
+    setImportMessage({
+      text: [`Imported ${imported.length} ${imported.length === 1 ? 'entry' : 'entries'}.`, ...errors].join(' '),
+      isError: errors.length > 0,
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-3xl border border-orange-100 dark:border-gray-700 p-5 md:p-6 transition-colors duration-200">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between gap-2"
+      >
+        <span className="inline-flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-orange-600 dark:text-orange-400">
+          <BookUser className="w-4 h-4" />
+          Address book
+          {entries.length > 0 && <span className="text-gray-400">({entries.length})</span>}
+        </span>
+        <ChevronDown className={`w-4 h-4 text-gray-600 dark:text-gray-300 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Save recipients you bridge to often, with the chains each one can receive on. Pick them from the recipient field.{' '}
+            {sync.isSignedIn ? (
+              <span className="inline-flex items-center gap-1">
+                {sync.isSyncing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Cloud className="w-3 h-3 text-green-600" />}
+                Synced with your signed-in wallet.
+              </span>
+            ) : sync.isAvailable ? (
+              'Sign in with your wallet to sync them across devices.'
+            ) : (
+              'They are saved in this browser.'
+            )}
+          </p>
+          {sync.error && <p className="text-xs text-red-600">{sync.error}</p>}
+
+          {entries.length > 0 && (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {entries.map((entry) => (
+                <li key={entry.id} className="flex items-center gap-2 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white truncate">{entry.label}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      <span className="font-mono" title={entry.address}>{shortAddress(entry.address)}</span>
+                      {' • '}
+                      {entry.chainIds.map(getChainName).join(', ')}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => edit(entry)}
+                    className="text-gray-400 hover:text-orange-500 transition"
+                    title="Edit entry"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      removeAddressBookEntry(entry.id);
+                      if (editingId === entry.id) resetForm();
+                    }}
+                    className="text-gray-400 hover:text-red-500 transition"
+                    title="Remove entry"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+            <input
+              type="text"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              placeholder="0x..."
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-mono bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+            {trimmedAddress !== '' && !isValidAddress && (
+              <p className="text-xs text-red-600">Enter a valid 0x address. Mixed-case addresses must match their checksum.</p>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {SUPPORTED_CHAINS.map((chain) => (
+                <label key={chain.id} className="inline-flex items-center gap-1 text-xs text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={chainIds.includes(chain.id)}
+                    onChange={() => toggleChain(chain.id)}
+                    className="accent-orange-500"
+                  />
+                  {chain.name}
+                </label>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={save}
+                disabled={!canSave}
+                className="flex-1 px-4 py-2 rounded-lg text-sm font-semibold bg-orange-500 text-white hover:bg-orange-600 transition disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+              >
+                {editingId ? 'Save changes' : 'Add entry'}
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-orange-600"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-4">
+            <button
+              type="button"
+              onClick={() => fileInput.current?.click()}
+              className="inline-flex items-center gap-1 text-xs font-medium text-gray-600 dark:text-gray-300 hover:text-orange-600"
+            >
+              <Upload className="w-3 h-3" />
+              Import JSON
+            </button>
+            <button
+              type="button"
+              onClick={download}
+              disabled={entries.length === 0}
+              className="inline-flex items-center gap-1 text-xs font-medium text-gray-600 dark:text-gray-300 hover:text-orange-600 disabled:opacity-50"
+            >
+              <Download className="w-3 h-3" />
+              Export JSON
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) upload(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {importMessage && (
+            <p className={`text-xs ${importMessage.isError ? 'text-amber-700 dark:text-amber-400' : 'text-green-700 dark:text-green-400'}`}>
+              {importMessage.text}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useMemo, useState } from 'react';
+import { ArrowLeft, BarChart3, Loader2 } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { type BridgeToken, getChainToken, getTokenChains } from '../config/chains';
+import { type BridgeStep } from '../hooks/useBridge';
+import { useAnalytics } from '../hooks/useAnalytics';
+import { useTheme } from '../context/ThemeContext';
+
+const ROUTE_COLORS = ['#f97316', '#3b82f6', '#10b981', '#a855f7', '#eab308', '#ef4444', '#9ca3af'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STEP_NAMES: Partial<Record<BridgeStep, string>> = {
+  'waiting-attestation': 'Attestation (no attestation after 2 h)',
+  'waiting-receive-message': 'Mint (not received after 24 h)',
+};
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+function ChartCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+      <p className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">{title}</p>
+      <div className="h-64">{children}</div>
+    </div>
+  );
+}
+
+// Network-wide bridge activity from the indexer's Supabase tables
+export default function AnalyticsPage() {
+  const { theme } = useTheme();
+  const [fromDate, setFromDate] = useState(() => toDateInput(new Date(Date.now() - 29 * DAY_MS)));
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const [token, setToken] = useState<BridgeToken>('USDC');
+  const [chainId, setChainId] = useState<number | undefined>();
+
+  // Date inputs are whole UTC days; the end day is included
+  const filters = useMemo(() => ({
+    from: new Date(`${fromDate}T00:00:00Z`),
+    to: new Date(Date.parse(`${toDate}T00:00:00Z`) + DAY_MS),
+    token,
+    chainId,
+  }), [fromDate, toDate, token, chainId]);
+  const isValidRange = filters.from < filters.to;
+  const { data, isLoading, error } = useAnalytics(filters, isValidRange);
+
+  const selectToken = (next: BridgeToken) => {
+    setToken(next);
+    if (!getChainToken(chainId, next)) setChainId(undefined);
+  };
+
+  const axisColor = theme === 'dark' ? '#9ca3af' : '#6b7280';
+  const gridColor = theme === 'dark' ? '#374151' : '#e5e7eb';
+  const tooltipStyle = theme === 'dark' ? { backgroundColor: '#1f2937', borderColor: '#374151', color: '#f9fafb' } : undefined;
+  const inputClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  return (
+    <div className="mt-8 space-y-6">
+      <a href="/" className="inline-flex items-center gap-1 text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-orange-600">
+        <ArrowLeft className="w-4 h-4" />
+        Back to bridge
+      </a>
+
+      <div>
+        <h2 className="inline-flex items-center gap-2 text-xl font-bold text-gray-900 dark:text-white">
+          <BarChart3 className="w-5 h-5 text-orange-500" />
+          Bridge analytics
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+          CCTP transfers between the chains this bridge supports, from any app, as recorded by the indexer.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs text-gray-600 dark:text-gray-400">
+          From
+          <input type="date" value={fromDate} max={toDate} onChange={(e) => setFromDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-600 dark:text-gray-400">
+          To
+          <input type="date" value={toDate} min={fromDate} onChange={(e) => setToDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-600 dark:text-gray-400">
+          Token
+          <select value={token} onChange={(e) => selectToken(e.target.value as BridgeToken)} className={inputClass}>
+            <option value="USDC">USDC</option>
+            <option value="EURC">EURC</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-600 dark:text-gray-400">
+          Chain
+          <select
+            value={chainId ?? ''}
+            onChange={(e) => setChainId(e.target.value ? Number(e.target.value) : undefined)}
+            className={inputClass}
+          >
+            <option value="">All chains</option>
+            {getTokenChains(token).map((chain) => (
+              <option key={chain.id} value={chain.id}>{chain.name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {!isValidRange ? (
+        <p className="text-sm text-red-600">The start date must be before the end date.</p>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-16 text-sm text-gray-600 dark:text-gray-300">
+          <Loader2 className="w-5 h-5 text-orange-500 animate-spin" />
+          Loading transfers...
+        </div>
+      ) : error || !data ? (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 text-sm text-red-800 dark:text-red-300">
+          {error ?? 'Could not load analytics.'}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="rounded-xl bg-orange-50 dark:bg-orange-900/20 p-4">
+              <p className="text-xs text-gray-600 dark:text-gray-400">Volume</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                {data.totalVolume.toLocaleString(undefined, { maximumFractionDigits: 2 })} {token}
+              </p>
+            </div>
+            <div className="rounded-xl bg-orange-50 dark:bg-orange-900/20 p-4">
+              <p className="text-xs text-gray-600 dark:text-gray-400">Transfers</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{data.totalTransfers.toLocaleString()}</p>
+            </div>
+          </div>
+
+          {data.isTruncated && (
+            <p className="text-xs text-amber-700 dark:text-amber-400">
+              Only the earliest transfers in this range were loaded. Narrow the range for complete figures.
+            </p>
+          )}
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <ChartCard title={`Daily volume per route (${token})`}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={data.dailyVolume}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+                  <XAxis dataKey="day" tick={{ fill: axisColor, fontSize: 11 }} />
+                  <YAxis tick={{ fill: axisColor, fontSize: 11 }} />
+                  <Tooltip contentStyle={tooltipStyle} />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  {data.routes.map((route, index) => (
+                    <Bar key={route} dataKey={route} stackId="volume" fill={ROUTE_COLORS[index % ROUTE_COLORS.length]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartCard>
+
+            <ChartCard title="Transfers per day">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data.dailyCounts}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+                  <XAxis dataKey="day" tick={{ fill: axisColor, fontSize: 11 }} />
+                  <YAxis allowDecimals={false} tick={{ fill: axisColor, fontSize: 11 }} />
+                  <Tooltip contentStyle={tooltipStyle} />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  <Line type="monotone" dataKey="transfers" name="Started" stroke="#f97316" dot={false} />
+                  <Line type="monotone" dataKey="completed" name="Minted" stroke="#10b981" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </ChartCard>
+
+            <ChartCard title="Median completion time by source chain (minutes)">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={data.completionTimes} layout="vertical" margin={{ left: 24 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+                  <XAxis type="number" tick={{ fill: axisColor, fontSize: 11 }} />
+                  <YAxis type="category" dataKey="chain" width={110} tick={{ fill: axisColor, fontSize: 11 }} />
+                  <Tooltip contentStyle={tooltipStyle} />
+                  <Bar dataKey="medianMinutes" name="Median minutes" fill="#f97316" />
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartCard>
+
+            <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-3">
+              <p className="text-sm font-semibold text-gray-700 dark:text-gray-300">Failure rate by step</p>
+              {data.failures.map((failure) => (
+                <div key={failure.step} className="space-y-1">
+                  <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+                    <span>{STEP_NAMES[failure.step] ?? failure.step}</span>
+                    <span>
+                      {(failure.rate * 100).toFixed(1)}% ({failure.stuck} of {failure.reached})
+                    </span>
+                  </div>
+                  <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                    <div className="h-full bg-red-500" style={{ width: `${Math.min(failure.rate * 100, 100)}%` }} />
+                  </div>
+                </div>
+              ))}
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Approvals and burns that fail never reach the chain, so only the attestation and mint steps can be measured here.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ExternalLink, Layers, Loader2, Plus, RotateCw, Trash2 } from 'lucide-react';
+import { type BridgeToken, type TransferSpeed, getChainName, getExplorerTxUrl, getTokenChains } from '../config/chains';
+import { type BatchRowStatus, useBatchBridge } from '../hooks/useBatchBridge';
+
+interface BatchBridgeProps {
+  token: BridgeToken;
+  sourceChainId: number;
+  speed: TransferSpeed;
+  disabled?: boolean;
+  // Lets the parent hold off its own network switching while the batch drives the wallet
+  onBusyChange?: (busy: boolean) => void;
+}
+
+const STATUS_STYLES: Record<BatchRowStatus, { label: string; className: string }> = {
+  pending: { label: 'Queued', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' },
+  running: { label: 'Running', className: 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400' },
+  success: { label: 'Done', className: 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400' },
+  failed: { label: 'Failed', className: 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400' },
+};
+
+export default function BatchBridge({ token, sourceChainId, speed, disabled, onBusyChange }: BatchBridgeProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const {
+    rows,
+    addRow,
+    updateRow,
+    removeRow,
+    run,
+    retryRow,
+    validation,
+    error,
+    isValidating,
+    isRunning,
+  } = useBatchBridge(token, sourceChainId, speed);
+
+  const isBusy = isRunning || isValidating;
+  const destinations = getTokenChains(token).filter((chain) => chain.id !== sourceChainId);
+  const pendingCount = rows.filter((row) => row.status !== 'success').length;
+
+  useEffect(() => {
+    onBusyChange?.(isBusy);
+  }, [isBusy, onBusyChange]);
+
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-gray-700">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between gap-2 p-3 sm:p-4 text-sm font-semibold text-gray-700 dark:text-gray-300"
+      >
+        <span className="inline-flex items-center gap-2">
+          <Layers className="w-4 h-4 text-orange-500" />
+          Batch transfers
+        </span>
+        <ChevronDown className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 sm:px-4 sm:pb-4 space-y-3">
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Send {token} from {getChainName(sourceChainId)} to several chains in one go. Transfers run one after another, and you confirm each in your wallet.
+          </p>
+
+          {rows.map((row) => {
+            const status = STATUS_STYLES[row.status];
+            const rowError = row.error ?? validation?.rowErrors[row.id];
+            const isLocked = isBusy || row.status === 'success';
+
+            return (
+              <div key={row.id} className="rounded-lg border border-gray-100 dark:border-gray-700 p-2 space-y-2">
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <select
+                    value={row.destinationChainId}
+                    onChange={(e) => updateRow(row.id, { destinationChainId: Number(e.target.value) })}
+                    disabled={isLocked}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    {destinations.map((chain) => (
+                      <option key={chain.id} value={chain.id}>{chain.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    value={row.amount}
+                    onChange={(e) => updateRow(row.id, { amount: e.target.value })}
+                    placeholder="0.00"
+                    step="0.01"
+                    min="0"
+                    disabled={isLocked}
+                    className="w-full sm:w-28 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                  <input
+                    type="text"
+                    value={row.recipient}
+                    onChange={(e) => updateRow(row.id, { recipient: e.target.value })}
+                    placeholder="Recipient (optional)"
+                    disabled={isLocked}
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-mono bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${status.className}`}>
+                    {row.status === 'running' && <Loader2 className="inline w-3 h-3 mr-1 animate-spin" />}
+                    {status.label}
+                  </span>
+                  {row.receiveTxHash && (
+                    <a
+                      href={getExplorerTxUrl(row.destinationChainId, row.receiveTxHash)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-400 hover:text-orange-500 transition"
+                      title="View on explorer"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                    </a>
+                  )}
+                  <div className="ml-auto flex items-center gap-2">
+                    {row.status === 'failed' && (
+                      <button
+                        type="button"
+                        onClick={() => retryRow(row.id)}
+                        disabled={disabled || isBusy}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold rounded-lg bg-orange-500 text-white hover:bg-orange-600 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <RotateCw className="w-3 h-3" />
+                        Retry
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => removeRow(row.id)}
+                      disabled={isBusy}
+                      className="text-gray-400 hover:text-red-500 transition disabled:opacity-50"
+                      title="Remove transfer"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                {rowError && row.status !== 'success' && (
+                  <p className="text-xs text-red-600 whitespace-pre-wrap break-words">{rowError}</p>
+                )}
+              </div>
+            );
+          })}
+
+          <button
+            type="button"
+            onClick={() => addRow(destinations[0]?.id ?? sourceChainId)}
+            disabled={isBusy || destinations.length === 0}
+            className="inline-flex items-center gap-1 text-sm font-medium text-orange-600 hover:text-orange-700 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add transfer
+          </button>
+
+          {(validation?.totalError || error) && (
+            <p className="text-xs text-red-600">{validation?.totalError ?? error}</p>
+          )}
+
+          <button
+            type="button"
+            onClick={run}
+            disabled={disabled || isBusy || pendingCount === 0}
+            className="w-full py-2 rounded-lg text-sm font-semibold bg-orange-500 text-white hover:bg-orange-600 transition disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+          >
+            {isValidating ? 'Checking...' : isRunning ? 'Running batch...' : `Run ${pendingCount} transfer${pendingCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
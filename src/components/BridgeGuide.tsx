@@ -1,4 +1,5 @@
 import { ExternalLink, Info, ShieldCheck, Zap } from 'lucide-react';
+import { CHAIN_REGISTRY, ARC_CHAIN_ID, USDC_FAUCET_URL } from '../config/chains';
 
 interface BridgeGuideProps {
   address?: string;
@@ -7,8 +8,8 @@ interface BridgeGuideProps {
 
 const steps = [
   {
-    title: '1. Pick direction',
-    detail: 'Choose Source Chain → Arc to mint USDC on Arc, or Arc → Destination Chain to return funds.',
+    title: '1. Pick a route',
+    detail: 'Choose any source and destination chain, for example Sepolia → Arc to mint USDC on Arc or Base Sepolia → Arbitrum Sepolia directly.',
   },
   {
     title: '2. Prepare gas & USDC',
@@ -43,11 +44,11 @@ const resources = [
   },
   {
     label: 'Circle USDC Faucet',
-    href: 'https://faucet.circle.com/',
+    href: USDC_FAUCET_URL,
   },
   {
     label: 'Arc Explorer',
-    href: 'https://testnet.arcscan.app',
+    href: CHAIN_REGISTRY[ARC_CHAIN_ID].explorerUrl,
   },
 ];
 
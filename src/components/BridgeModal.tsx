@@ -1,16 +1,33 @@
-import React, { useState, useEffect, useRef, useMemo } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { X, ArrowRight, Loader2, CheckCircle, AlertCircle, ExternalLink, ChevronDown, Clock, ArrowLeftRight } from 'lucide-react';
-import { useAccount, useReadContract, usePublicClient, useSwitchChain } from 'wagmi';
-import { createPublicClient, http, formatUnits, type Address } from 'viem';
-import { sepolia } from 'viem/chains';
+import { X, ArrowRight, Loader2, CheckCircle, AlertCircle, ExternalLink, ChevronDown, Clock, ArrowLeftRight, Link2 } from 'lucide-react';
+import { useAccount, usePublicClient, useSwitchChain } from 'wagmi';
+import { useQueries } from '@tanstack/react-query';
 import confetti from 'canvas-confetti';
-import { useBridge, type BridgeToken, type BridgeStep, CHAIN_TOKENS, SEPOLIA_CHAIN_ID, ARC_CHAIN_ID } from '../hooks/useBridge';
+import { useBridge, type BridgeToken, type BridgeStep, type TransferSpeed } from '../hooks/useBridge';
+import { useTokenBalance } from '../hooks/useTokenBalance';
+import { usePreflight } from '../hooks/usePreflight';
+import { useRecipient } from '../hooks/useRecipient';
+import { type BridgeErrorKind } from '../lib/bridgeErrors';
+import { type TransferRecord } from '../lib/transferHistory';
+import { getTxStatusPath } from '../lib/routes';
+import TransferHistory from './TransferHistory';
+import RecoverTransfer from './RecoverTransfer';
+import BatchBridge from './BatchBridge';
+import ScheduledTransfers from './ScheduledTransfers';
+import BridgeTimeline from './BridgeTimeline';
+import PreflightIssues from './PreflightIssues';
+import QuoteBreakdown from './QuoteBreakdown';
+import SpeedSelector from './SpeedSelector';
+import RecipientInput from './RecipientInput';
+import { ARC_CHAIN_ID, SEPOLIA_CHAIN_ID, USDC_FAUCET_URL, getChainConfig, getChainToken, getExplorerTxUrl, getTokenChains } from '../config/chains';
+import { isBridgeKitToken } from '../lib/bridgeKitChains';
 
 interface BridgeModalProps {
   isOpen?: boolean;
   onClose?: () => void;
   asPage?: boolean; // When true, renders as page content instead of modal
+  sourceChainRequest?: { chainId: number }; // Preselect a source chain, e.g. from the portfolio panel
 }
 
 // Step labels for better UX - Setting expectations upfront
@@ -18,54 +35,39 @@ const STEP_LABELS: Record<BridgeStep, { title: string; description: string }> =
   idle: { title: 'Ready', description: 'Enter amount to bridge' },
   'switching-network': {
     title: 'Switching Network',
-    description: 'You will be asked to switch to Sepolia network in your wallet'
+    description: 'You will be asked to switch to the source network in your wallet.'
   },
   approving: {
-    title: 'Bridge In Progress',
-    description: 'You will be asked to: (1) Approve USDC spend, (2) Confirm the transfer transaction, and (3) Confirm the receive message. Please approve each transaction in your wallet as they appear.'
+    title: 'Approving USDC',
+    description: 'Approve the USDC spend in your wallet. This is skipped if the bridge is already approved.'
   },
   'signing-bridge': {
-    title: 'Bridge In Progress',
-    description: 'You will be asked to: (1) Approve USDC spend, (2) Confirm the transfer transaction, and (3) Confirm the receive message. Please approve each transaction in your wallet as they appear.'
+    title: 'Sending Transfer',
+    description: 'Confirm the transfer transaction in your wallet. Your USDC is burned on the source chain.'
+  },
+  'waiting-attestation': {
+    title: 'Waiting for Attestation',
+    description: 'Circle is attesting the transfer. No action is needed while you wait.'
   },
   'waiting-receive-message': {
-    title: 'Bridge In Progress',
-    description: 'You will be asked to: (1) Approve USDC spend, (2) Confirm the transfer transaction, and (3) Confirm the receive message. Please approve each transaction in your wallet as they appear.'
+    title: 'Receiving Transfer',
+    description: 'Confirm the receive message in your wallet to mint your USDC on the destination chain.'
   },
-  success: { title: 'Bridge Successful', description: 'Your USDC has been successfully transferred to Arc Testnet!' },
+  success: { title: 'Bridge Successful', description: 'Your USDC has been successfully transferred!' },
   error: { title: 'Bridge Failed', description: 'Bridge transaction failed. Please try again.' },
 };
 
-export type BridgeDirection = 'sepolia-to-arc' | 'arc-to-sepolia';
-
-// Chain options for the selector (all supported chains)
-const CHAIN_OPTIONS = [
-  { id: 5042002, name: 'Arc Testnet', icon: '/Arc.png' },
-  { id: 11155111, name: 'Ethereum Sepolia', icon: '/sepolia.png' },
-  { id: 84532, name: 'Base Sepolia', icon: '/base.png' },
-  { id: 421614, name: 'Arbitrum Sepolia', icon: '/arbitrum.png' },
-  { id: 11155420, name: 'Optimism Sepolia', icon: '/optimism.png' },
-  { id: 80002, name: 'Polygon Amoy', icon: '/polygon.png' },
-  { id: 43113, name: 'Avalanche Fuji', icon: '/avalanche.png' },
-  { id: 1301, name: 'Unichain Sepolia', icon: '/unichain.png' },
-  { id: 4801, name: 'World Chain Sepolia', icon: '/worldchain.png' },
-  { id: 763373, name: 'Ink Sepolia', icon: '/ink.png' },
-  { id: 59141, name: 'Linea Sepolia', icon: '/linea.png' },
-] as const;
-
-// Chain explorer URLs
-const CHAIN_EXPLORERS: Record<number, string> = {
-  5042002: 'https://testnet.arcscan.app',
-  11155111: 'https://sepolia.etherscan.io',
-  84532: 'https://sepolia.basescan.org',
-  421614: 'https://sepolia.arbiscan.io',
-  11155420: 'https://sepolia-optimism.etherscan.io',
-  80002: 'https://amoy.polygonscan.com',
-  43113: 'https://testnet.snowtrace.io',
-  1301: 'https://sepolia.uniscan.xyz',
-  4801: 'https://worldchain-sepolia.explorer.alchemy.com',
-  763373: 'https://explorer-sepolia.inkonchain.com',
-  59141: 'https://sepolia.lineascan.build',
+// What the user can do about each kind of failure
+const REMEDIATION: Record<BridgeErrorKind, string> = {
+  'user-rejected': 'Start the bridge again when you are ready. If your tokens were already sent, resume the transfer from your recent transfers.',
+  'insufficient-balance': 'Get more tokens from the Circle faucet or lower the amount, then try again.',
+  'insufficient-gas': 'Top up the native gas token on the chain named above using the faucet links, then try again.',
+  'chain-switch-refused': 'Approve the network switch in your wallet, or switch networks manually, then try again.',
+  'rpc-failure': 'The network did not respond. Wait a moment and try again.',
+  'attestation-timeout': 'Circle can take longer than usual to attest. Resume the transfer from your recent transfers, or recover it with the burn transaction hash.',
+  'mint-failed': 'Your tokens are still in transit. Resume the transfer from your recent transfers, or recover it with the burn transaction hash.',
+  'unsupported-route': 'Pick a different pair of chains or a different token.',
+  unknown: 'Check the browser console for details.',
 };
 
 const TOKEN_OPTIONS: { symbol: BridgeToken; name: string; description: string; icon: string }[] = [
@@ -75,18 +77,100 @@ const TOKEN_OPTIONS: { symbol: BridgeToken; name: string; description: string; i
     description: 'Dollar-pegged stablecoin',
     icon: '/usdc.svg',
   },
+  {
+    symbol: 'EURC',
+    name: 'Euro Coin',
+    description: 'Euro-pegged stablecoin',
+    icon: '/eurc.svg',
+  },
 ];
 
-export default function BridgeModal({ isOpen = true, onClose, asPage = false }: BridgeModalProps) {
+interface ChainPickerProps {
+  value: number;
+  // Only chains where this token is deployed are offered
+  token: BridgeToken;
+  onChange: (chainId: number) => void;
+  disabled?: boolean;
+  align: 'left' | 'right';
+}
+
+function ChainPicker({ value, token, onChange, disabled, align }: ChainPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const selected = getChainConfig(value);
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center justify-center space-x-2 mb-1 px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 hover:border-orange-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed w-full sm:w-auto"
+      >
+        <img
+          src={selected?.icon || '/sepolia.png'}
+          alt={selected?.name || 'Chain'}
+          className="w-5 h-5 sm:w-6 sm:h-6 object-contain"
+          onError={(e) => {
+            (e.target as HTMLImageElement).style.display = 'none';
+          }}
+        />
+        <p className="font-bold text-gray-900 text-sm sm:text-base">
+          {selected?.name || 'Select Chain'}
+        </p>
+        <ChevronDown className={`w-4 h-4 text-gray-600 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {/* Dropdown */}
+      {isOpen && (
+        <div className={`absolute z-50 mt-2 w-full sm:w-64 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-lg overflow-hidden ${align === 'left' ? 'left-0' : 'right-0'}`}>
+          {getTokenChains(token).map((chain) => (
+            <button
+              key={chain.id}
+              type="button"
+              onClick={() => {
+                onChange(chain.id);
+                setIsOpen(false);
+              }}
+              className={`w-full flex items-center space-x-3 px-4 py-3 hover:bg-orange-50 dark:hover:bg-gray-700 transition-colors ${value === chain.id ? 'bg-orange-50 dark:bg-orange-900/20 border-l-4 border-orange-500' : ''
+                }`}
+            >
+              <img
+                src={chain.icon}
+                alt={chain.name}
+                className="w-6 h-6 object-contain"
+                onError={(e) => {
+                  (e.target as HTMLImageElement).style.display = 'none';
+                }}
+              />
+              <div className="text-left flex-1">
+                <p className="font-semibold text-gray-900 dark:text-white text-sm">{chain.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Chain ID: {chain.id}</p>
+              </div>
+              {value === chain.id && (
+                <CheckCircle className="w-5 h-5 text-orange-500" />
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function BridgeModal({ isOpen = true, onClose, asPage = false, sourceChainRequest }: BridgeModalProps) {
   const { address, isConnected, chainId } = useAccount();
 
   const [amount, setAmount] = useState('');
   const [selectedToken, setSelectedToken] = useState<BridgeToken>('USDC');
-  const [selectedChainId, setSelectedChainId] = useState<number>(11155111); // The other chain (not Arc)
-  const [direction, setDirection] = useState<BridgeDirection>('sepolia-to-arc');
+  const [selectedSpeed, setSelectedSpeed] = useState<TransferSpeed>('FAST');
+  const [recipientInput, setRecipientInput] = useState('');
+  const [selectedSourceChainId, setSelectedSourceChainId] = useState<number>(SEPOLIA_CHAIN_ID);
+  const [selectedDestinationChainId, setSelectedDestinationChainId] = useState<number>(ARC_CHAIN_ID);
   const [elapsedTime, setElapsedTime] = useState(0);
   const [bridgeStartTime, setBridgeStartTime] = useState<number | null>(null);
-  const [isChainSelectorOpen, setIsChainSelectorOpen] = useState(false);
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [isScheduleRunning, setIsScheduleRunning] = useState(false);
 
   const selectedTokenMeta = TOKEN_OPTIONS.find((token) => token.symbol === selectedToken);
   const selectedTokenIcon = selectedTokenMeta?.icon ?? '/usdc.svg';
@@ -94,6 +178,8 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
   const {
     state,
     bridge,
+    resumeTransfer,
+    quote,
     reset,
     isOnSepolia,
     isOnArc,
@@ -103,282 +189,129 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
   const { switchChain } = useSwitchChain();
   const publicClient = usePublicClient();
 
-  // Calculate source and destination chain IDs BEFORE useEffects that use them
-  // Use stored direction from bridge state if available (for success screen), otherwise use current direction
-  const activeDirection = state.direction || direction;
-
   // For success screen, use stored chain IDs from state if available
-  // Otherwise calculate from current selection
-  const sourceChainId = state.sourceChainId || (activeDirection === 'sepolia-to-arc' ? selectedChainId : ARC_CHAIN_ID);
-  const destinationChainId = state.destinationChainId || (activeDirection === 'sepolia-to-arc' ? ARC_CHAIN_ID : selectedChainId);
-  const sourceChainName = CHAIN_OPTIONS.find(c => c.id === sourceChainId)?.name || 'Unknown Chain';
-  const destinationChainName = CHAIN_OPTIONS.find(c => c.id === destinationChainId)?.name || 'Unknown Chain';
+  // Otherwise use the current selection
+  const sourceChainId = state.sourceChainId || selectedSourceChainId;
+  const destinationChainId = state.destinationChainId || selectedDestinationChainId;
+  const sourceChainName = getChainConfig(sourceChainId)?.name || 'Unknown Chain';
+  const destinationChainName = getChainConfig(destinationChainId)?.name || 'Unknown Chain';
+  const sourceChain = getChainConfig(sourceChainId);
+
+  // Pick a source chain, keeping the destination different from it
+  const selectSourceChain = (chainId: number) => {
+    setSelectedSourceChainId(chainId);
+    if (chainId === selectedDestinationChainId) {
+      setSelectedDestinationChainId(chainId === ARC_CHAIN_ID ? SEPOLIA_CHAIN_ID : ARC_CHAIN_ID);
+    }
+  };
 
-  // Update direction when selected chain changes
-  useEffect(() => {
-    // Direction is always relative to Arc Testnet
-    // If direction is 'sepolia-to-arc', Arc is destination
-    // If direction is 'arc-to-sepolia', Arc is source
-  }, [selectedChainId, direction]);
+  // Pick a destination chain; choosing the current source swaps the two sides
+  const selectDestinationChain = (chainId: number) => {
+    if (chainId === selectedSourceChainId) {
+      setSelectedSourceChainId(selectedDestinationChainId);
+    }
+    setSelectedDestinationChainId(chainId);
+  };
 
-  // Auto-detect selected chain based on current chain when component mounts
+  // Auto-detect source chain based on current chain when component mounts
   useEffect(() => {
-    if ((asPage || isOpen) && currentChainId && state.step !== 'success') {
-      if (currentChainId === ARC_CHAIN_ID) {
-        // If on Arc, default to Sepolia as the other chain, direction from Arc
-        setSelectedChainId(11155111);
-        setDirection('arc-to-sepolia');
-      } else if (CHAIN_OPTIONS.some(chain => chain.id === currentChainId)) {
-        // If on one of the supported chains, select it, direction to Arc
-        setSelectedChainId(currentChainId);
-        setDirection('sepolia-to-arc');
-      }
+    if ((asPage || isOpen) && currentChainId && state.step !== 'success' && getChainConfig(currentChainId)) {
+      setSelectedSourceChainId(currentChainId);
+      setSelectedDestinationChainId(prev => prev !== currentChainId
+        ? prev
+        : (currentChainId === ARC_CHAIN_ID ? SEPOLIA_CHAIN_ID : ARC_CHAIN_ID));
     }
   }, [isOpen, asPage, currentChainId, state.step]);
 
-  // Smart auto-switch: only when user manually changes selectedChainId and wallet is on wrong network
+  // Preselect the requested source chain; the auto-switch below then moves the wallet there
+  useEffect(() => {
+    if (!sourceChainRequest) return;
+    const chainId = sourceChainRequest.chainId;
+    setSelectedSourceChainId(chainId);
+    setSelectedDestinationChainId(prev => prev !== chainId
+      ? prev
+      : (chainId === ARC_CHAIN_ID ? SEPOLIA_CHAIN_ID : ARC_CHAIN_ID));
+  }, [sourceChainRequest]);
+
+  // Smart auto-switch: only when user manually changes the source chain and wallet is on wrong network
   // This ensures balance is visible but doesn't cause infinite loops
   useEffect(() => {
     // Only auto-switch if:
     // 1. User is connected
-    // 2. Not currently bridging
-    // 3. Direction is 'sepolia-to-arc' (meaning selectedChainId is the source)
-    // 4. Wallet is not already on the selected chain
-    if (isConnected && !state.isLoading && direction === 'sepolia-to-arc' && chainId !== selectedChainId) {
+    // 2. Not currently bridging, recovering a transfer or running a batch
+    // 3. Wallet is not already on the selected source chain
+    if (isConnected && !state.isLoading && !isRecovering && !isBatchRunning && !isScheduleRunning && chainId !== selectedSourceChainId) {
       // Small delay to avoid rapid switches
       const timer = setTimeout(() => {
-        switchChain?.({ chainId: selectedChainId });
+        switchChain?.({ chainId: selectedSourceChainId });
       }, 300);
       return () => clearTimeout(timer);
     }
-  }, [selectedChainId, direction, chainId, isConnected, switchChain, state.isLoading]);
+  }, [selectedSourceChainId, chainId, isConnected, switchChain, state.isLoading, isRecovering, isBatchRunning, isScheduleRunning]);
+
+  // Pick a token, moving either side off chains where it is not deployed
+  const selectToken = (token: BridgeToken) => {
+    setSelectedToken(token);
+    const tokenChains = getTokenChains(token).map((chain) => chain.id);
+    const source = tokenChains.includes(selectedSourceChainId) ? selectedSourceChainId : tokenChains[0];
+    const destination = tokenChains.includes(selectedDestinationChainId) && selectedDestinationChainId !== source
+      ? selectedDestinationChainId
+      : tokenChains.find((id) => id !== source)!;
+    setSelectedSourceChainId(source);
+    setSelectedDestinationChainId(destination);
+  };
 
-  // Swap direction function
+  // Swap source and destination
   const handleSwapDirection = () => {
-    setDirection(direction === 'sepolia-to-arc' ? 'arc-to-sepolia' : 'sepolia-to-arc');
+    setSelectedSourceChainId(selectedDestinationChainId);
+    setSelectedDestinationChainId(selectedSourceChainId);
   };
 
   // Get token info for source chain
-  const sourceTokenInfo = CHAIN_TOKENS[sourceChainId]?.[selectedToken];
-  const destinationTokenInfo = CHAIN_TOKENS[destinationChainId]?.[selectedToken];
-
-  // ERC20 ABI for balanceOf
-  const ERC20_ABI = [
-    {
-      constant: true,
-      inputs: [{ name: '_owner', type: 'address' }],
-      name: 'balanceOf',
-      outputs: [{ name: 'balance', type: 'uint256' }],
-      type: 'function',
-    },
-  ] as const;
-
-  // Fetch balance from source chain using useReadContract (RainbowKit approach)
-  // This automatically watches the chain and updates when connected to that chain
-  const { data: sourceBalanceRaw, isLoading: isLoadingSourceBalance } = useReadContract({
-    address: (sourceTokenInfo?.contractAddress && isConnected && address && currentChainId === sourceChainId) ? sourceTokenInfo.contractAddress as Address : undefined,
-    abi: ERC20_ABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
-    query: {
-      enabled: !!address && isConnected && !!sourceTokenInfo && currentChainId === sourceChainId,
-      // Refresh every 5 seconds
-      refetchInterval: 5000,
-    },
-  });
-
-  // For source chain when not connected to it, use separate publicClient
-  const sourcePublicClient = useMemo(() => {
-    if (currentChainId === sourceChainId || !sourceTokenInfo) return null; // Use wagmi when connected
-
-    if (sourceChainId === SEPOLIA_CHAIN_ID) {
-      return createPublicClient({
-        chain: sepolia,
-        transport: http('https://ethereum-sepolia-rpc.publicnode.com', {
-          retryCount: 2,
-          timeout: 8000,
-        }),
-      });
-    } else if (sourceChainId === ARC_CHAIN_ID) {
-      return createPublicClient({
-        chain: {
-          id: ARC_CHAIN_ID,
-          name: 'Arc Testnet',
-          network: 'arc-testnet',
-          nativeCurrency: {
-            decimals: 6,
-            name: 'USDC',
-            symbol: 'USDC',
-          },
-          rpcUrls: {
-            default: { http: ['https://rpc.testnet.arc.network'] },
-            public: { http: ['https://rpc.testnet.arc.network'] },
-          },
-          blockExplorers: {
-            default: { name: 'Arc Explorer', url: 'https://testnet.arcscan.app' },
-          },
-        },
-        transport: http('https://rpc.testnet.arc.network', {
-          retryCount: 2,
-          timeout: 8000,
-        }),
-      });
-    }
-    return null;
-  }, [sourceChainId, sourceTokenInfo, currentChainId]);
-
-  // Fetch source balance when not connected to source chain
-  const [sourceBalanceManual, setSourceBalanceManual] = useState<string>('0');
-  const [isLoadingSourceBalanceManual, setIsLoadingSourceBalanceManual] = useState(false);
-
-  useEffect(() => {
-    // Only fetch manually if we're not connected to the source chain
-    if (currentChainId === sourceChainId || !sourcePublicClient || !address || !sourceTokenInfo) {
-      setSourceBalanceManual('0');
-      return;
-    }
-
-    let isCancelled = false;
-    setIsLoadingSourceBalanceManual(true);
-
-    const fetchSourceBalance = async () => {
-      try {
-        const balance = await sourcePublicClient.readContract({
-          address: sourceTokenInfo.contractAddress as Address,
-          abi: ERC20_ABI,
-          functionName: 'balanceOf',
-          args: [address],
-        });
-
-        if (!isCancelled) {
-          const formatted = formatUnits(balance as bigint, sourceTokenInfo.decimals);
-          setSourceBalanceManual(formatted);
-        }
-      } catch (err) {
-        console.error('Error fetching source balance:', err);
-        if (!isCancelled) {
-          setSourceBalanceManual('0');
-        }
-      } finally {
-        if (!isCancelled) {
-          setIsLoadingSourceBalanceManual(false);
-        }
-      }
-    };
-
-    fetchSourceBalance();
-    // Refresh every 5 seconds
-    const interval = setInterval(fetchSourceBalance, 5000);
-
-    return () => {
-      isCancelled = true;
-      clearInterval(interval);
-    };
-  }, [sourcePublicClient, address, sourceTokenInfo, currentChainId, sourceChainId]);
-
-  // For destination chain, we need to use a separate publicClient since we might not be connected to it
-  // Create a public client for the destination chain
-  const destinationPublicClient = useMemo(() => {
-    if (!destinationTokenInfo) return null;
-
-    if (destinationChainId === SEPOLIA_CHAIN_ID) {
-      return createPublicClient({
-        chain: sepolia,
-        transport: http('https://ethereum-sepolia-rpc.publicnode.com', {
-          retryCount: 2,
-          timeout: 8000,
-        }),
-      });
-    } else if (destinationChainId === ARC_CHAIN_ID) {
-      return createPublicClient({
-        chain: {
-          id: ARC_CHAIN_ID,
-          name: 'Arc Testnet',
-          network: 'arc-testnet',
-          nativeCurrency: {
-            decimals: 6,
-            name: 'USDC',
-            symbol: 'USDC',
-          },
-          rpcUrls: {
-            default: { http: ['https://rpc.testnet.arc.network'] },
-            public: { http: ['https://rpc.testnet.arc.network'] },
-          },
-          blockExplorers: {
-            default: { name: 'Arc Explorer', url: 'https://testnet.arcscan.app' },
-          },
-        },
-        transport: http('https://rpc.testnet.arc.network', {
-          retryCount: 2,
-          timeout: 8000,
-        }),
-      });
-    }
-    return null;
-  }, [destinationChainId, destinationTokenInfo]);
+  const sourceTokenInfo = getChainToken(sourceChainId, selectedToken);
+  const destinationTokenInfo = getChainToken(destinationChainId, selectedToken);
 
-  // Fetch destination balance using the separate publicClient
-  const [destinationBalance, setDestinationBalance] = useState<string>('0');
-  const [isLoadingDestinationBalance, setIsLoadingDestinationBalance] = useState(false);
+  // Balances are read through the shared RPC failover service, whichever chain the wallet is on
+  const {
+    balance: tokenBalance,
+    isLoading: isLoadingBalance,
+    error: balanceError,
+  } = useTokenBalance(sourceChainId, selectedToken, isConnected ? address : undefined);
+  const {
+    balance: destinationBalance,
+    isLoading: isLoadingDestinationBalance,
+  } = useTokenBalance(destinationChainId, selectedToken, isConnected ? address : undefined);
+
+  const recipient = useRecipient(recipientInput, destinationChainId);
+  // A recipient that is typed but not (yet) resolved blocks the bridge
+  const isRecipientReady = recipient.isEmpty || (!!recipient.address && !recipient.isChecking);
+
+  const preflight = usePreflight({
+    token: selectedToken,
+    amount,
+    sourceChainId,
+    destinationChainId,
+    owner: isConnected ? address : undefined,
+  });
 
+  // Quote the transfer once the amount stops changing
+  const [quoteAmount, setQuoteAmount] = useState('');
   useEffect(() => {
-    if (!destinationPublicClient || !address || !destinationTokenInfo) {
-      setDestinationBalance('0');
-      return;
-    }
-
-    let isCancelled = false;
-    setIsLoadingDestinationBalance(true);
-
-    const fetchDestinationBalance = async () => {
-      try {
-        const balance = await destinationPublicClient.readContract({
-          address: destinationTokenInfo.contractAddress as Address,
-          abi: ERC20_ABI,
-          functionName: 'balanceOf',
-          args: [address],
-        });
-
-        if (!isCancelled) {
-          const formatted = formatUnits(balance as bigint, destinationTokenInfo.decimals);
-          setDestinationBalance(formatted);
-        }
-      } catch (err) {
-        console.error('Error fetching destination balance:', err);
-        if (!isCancelled) {
-          setDestinationBalance('0');
-        }
-      } finally {
-        if (!isCancelled) {
-          setIsLoadingDestinationBalance(false);
-        }
-      }
-    };
-
-    fetchDestinationBalance();
-    // Refresh every 5 seconds
-    const interval = setInterval(fetchDestinationBalance, 5000);
-
-    return () => {
-      isCancelled = true;
-      clearInterval(interval);
-    };
-  }, [destinationPublicClient, address, destinationTokenInfo]);
-
-  // Format source balance - use wagmi when connected to source chain, otherwise use manual fetch
-  const tokenBalance = useMemo(() => {
-    if (currentChainId === sourceChainId) {
-      // Use wagmi result when connected to source chain
-      if (!sourceBalanceRaw || !sourceTokenInfo) return '0';
-      return formatUnits(sourceBalanceRaw as bigint, sourceTokenInfo.decimals);
-    } else {
-      // Use manual fetch result when not connected to source chain
-      return sourceBalanceManual;
-    }
-  }, [currentChainId, sourceChainId, sourceBalanceRaw, sourceTokenInfo, sourceBalanceManual]);
-
-  const isLoadingBalance = currentChainId === sourceChainId ? isLoadingSourceBalance : isLoadingSourceBalanceManual;
-  const balanceError = '';
+    const timer = setTimeout(() => setQuoteAmount(amount), 500);
+    return () => clearTimeout(timer);
+  }, [amount]);
+
+  // Both speeds are quoted so the selector can compare them
+  const [fastQuote, standardQuote] = useQueries({
+    queries: (['FAST', 'SLOW'] as const).map((speed) => ({
+      queryKey: ['bridge-quote', selectedToken, sourceChainId, destinationChainId, quoteAmount, speed, address],
+      queryFn: () => quote(selectedToken, sourceChainId, destinationChainId, quoteAmount, speed),
+      enabled: isConnected && isBridgeKitToken(selectedToken) && parseFloat(quoteAmount) > 0 && state.step === 'idle',
+      staleTime: 30000,
+      retry: false,
+    })),
+  });
+  const quoteQuery = selectedSpeed === 'FAST' ? fastQuote : standardQuote;
 
   // Reset state when modal closes
   useEffect(() => {
@@ -469,7 +402,15 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
   }, [state.step, state.receiveTxHash, state.error, state.isLoading]);
 
   const handleBridge = async () => {
-    await bridge(selectedToken, amount, direction, sourceChainId, destinationChainId);
+    await bridge(selectedToken, amount, sourceChainId, destinationChainId, selectedSpeed, recipient.address ?? undefined);
+  };
+
+  // Finish a transfer left unfinished by an earlier session
+  const handleResume = async (record: TransferRecord) => {
+    setSelectedToken(record.token);
+    setSelectedSpeed(record.speed ?? 'FAST');
+    setAmount(record.amount);
+    await resumeTransfer(record);
   };
 
   // Format elapsed time as MM:SS
@@ -513,8 +454,8 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
             <h2 className="text-2xl sm:text-3xl md:text-4xl font-bold text-gray-900 dark:text-white">Bridge Tokens</h2>
             <p className="text-xs sm:text-sm md:text-base text-gray-600 dark:text-gray-300 mt-1">
               <span className="px-2 py-1 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded-lg text-xs font-medium mr-2">Cross-Chain</span>
-              <span className="hidden sm:inline">Transfer USDC between Sepolia and Arc Testnet</span>
-              <span className="sm:hidden">Sepolia ↔ Arc Testnet</span>
+              <span className="hidden sm:inline">Transfer USDC between any two supported testnets</span>
+              <span className="sm:hidden">Any chain ↔ Any chain</span>
             </p>
           </div>
           {!asPage && (
@@ -533,85 +474,21 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
         <div className="relative z-10">
           {state.step === 'idle' && (
             <div className="space-y-6">
-              {/* Chain Selection: Arc Fixed + Direction Swap */}
+              {/* Chain Selection: independent source and destination pickers */}
               <div className="bg-gray-50 dark:bg-gray-700/50 rounded-xl p-3 sm:p-4 border border-gray-200 dark:border-gray-600 transition-colors duration-200">
                 <div className="flex flex-col sm:flex-row items-center justify-between gap-3 sm:gap-0">
-                  {/* Source Chain (Arc or Selected) */}
+                  {/* Source Chain */}
                   <div className="text-center flex-1 w-full sm:w-auto">
                     <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">From</p>
-                    {direction === 'arc-to-sepolia' ? (
-                      // Arc is source
-                      <div className="flex items-center justify-center space-x-2 mb-1 px-3 py-2">
-                        <img
-                          src="/Arc.png"
-                          alt="Arc Testnet"
-                          className="w-5 h-5 sm:w-6 sm:h-6 object-contain"
-                          onError={(e) => {
-                            (e.target as HTMLImageElement).style.display = 'none';
-                          }}
-                        />
-                        <p className="font-bold text-gray-900 dark:text-white text-sm sm:text-base">Arc Testnet</p>
-                      </div>
-                    ) : (
-                      // Selected chain is source
-                      <div className="relative">
-                        <button
-                          type="button"
-                          onClick={() => setIsChainSelectorOpen(!isChainSelectorOpen)}
-                          disabled={state.isLoading}
-                          className="flex items-center justify-center space-x-2 mb-1 px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 hover:border-orange-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed w-full sm:w-auto"
-                        >
-                          <img
-                            src={CHAIN_OPTIONS.find(c => c.id === selectedChainId)?.icon || '/sepolia.png'}
-                            alt={CHAIN_OPTIONS.find(c => c.id === selectedChainId)?.name || 'Chain'}
-                            className="w-5 h-5 sm:w-6 sm:h-6 object-contain"
-                            onError={(e) => {
-                              (e.target as HTMLImageElement).style.display = 'none';
-                            }}
-                          />
-                          <p className="font-bold text-gray-900 text-sm sm:text-base">
-                            {CHAIN_OPTIONS.find(c => c.id === selectedChainId)?.name || 'Select Chain'}
-                          </p>
-                          <ChevronDown className={`w-4 h-4 text-gray-600 transition-transform ${isChainSelectorOpen ? 'rotate-180' : ''}`} />
-                        </button>
-
-                        {/* Dropdown */}
-                        {isChainSelectorOpen && (
-                          <div className="absolute z-50 mt-2 w-full sm:w-64 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-lg overflow-hidden left-0">
-                            {CHAIN_OPTIONS.filter(c => c.id !== ARC_CHAIN_ID).map((chain) => (
-                              <button
-                                key={chain.id}
-                                type="button"
-                                onClick={() => {
-                                  setSelectedChainId(chain.id);
-                                  setIsChainSelectorOpen(false);
-                                }}
-                                className={`w-full flex items-center space-x-3 px-4 py-3 hover:bg-orange-50 dark:hover:bg-gray-700 transition-colors ${selectedChainId === chain.id ? 'bg-orange-50 dark:bg-orange-900/20 border-l-4 border-orange-500' : ''
-                                  }`}
-                              >
-                                <img
-                                  src={chain.icon}
-                                  alt={chain.name}
-                                  className="w-6 h-6 object-contain"
-                                  onError={(e) => {
-                                    (e.target as HTMLImageElement).style.display = 'none';
-                                  }}
-                                />
-                                <div className="text-left flex-1">
-                                  <p className="font-semibold text-gray-900 dark:text-white text-sm">{chain.name}</p>
-                                  <p className="text-xs text-gray-500 dark:text-gray-400">Chain ID: {chain.id}</p>
-                                </div>
-                                {selectedChainId === chain.id && (
-                                  <CheckCircle className="w-5 h-5 text-orange-500" />
-                                )}
-                              </button>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                    )}
+                    <ChainPicker
+                      value={selectedSourceChainId}
+                      token={selectedToken}
+                      onChange={selectSourceChain}
+                      disabled={state.isLoading}
+                      align="left"
+                    />
                     <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 hidden sm:block">
-                      Chain ID: {direction === 'arc-to-sepolia' ? ARC_CHAIN_ID : selectedChainId}
+                      Chain ID: {selectedSourceChainId}
                     </p>
                   </div>
 
@@ -626,82 +503,18 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
                     <ArrowLeftRight className="w-5 h-5 text-gray-600 dark:text-gray-300" />
                   </button>
 
-                  {/* Destination Chain (Selected or Arc) */}
+                  {/* Destination Chain */}
                   <div className="text-center flex-1 w-full sm:w-auto">
                     <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">To</p>
-                    {direction === 'sepolia-to-arc' ? (
-                      // Arc is destination
-                      <div className="flex items-center justify-center space-x-2 mb-1 px-3 py-2">
-                        <img
-                          src="/Arc.png"
-                          alt="Arc Testnet"
-                          className="w-5 h-5 sm:w-6 sm:h-6 object-contain"
-                          onError={(e) => {
-                            (e.target as HTMLImageElement).style.display = 'none';
-                          }}
-                        />
-                        <p className="font-bold text-gray-900 dark:text-white text-sm sm:text-base">Arc Testnet</p>
-                      </div>
-                    ) : (
-                      // Selected chain is destination - make it selectable
-                      <div className="relative">
-                        <button
-                          type="button"
-                          onClick={() => setIsChainSelectorOpen(!isChainSelectorOpen)}
-                          disabled={state.isLoading}
-                          className="flex items-center justify-center space-x-2 mb-1 px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 hover:border-orange-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed w-full sm:w-auto"
-                        >
-                          <img
-                            src={CHAIN_OPTIONS.find(c => c.id === selectedChainId)?.icon || '/sepolia.png'}
-                            alt={CHAIN_OPTIONS.find(c => c.id === selectedChainId)?.name || 'Chain'}
-                            className="w-5 h-5 sm:w-6 sm:h-6 object-contain"
-                            onError={(e) => {
-                              (e.target as HTMLImageElement).style.display = 'none';
-                            }}
-                          />
-                          <p className="font-bold text-gray-900 text-sm sm:text-base">
-                            {CHAIN_OPTIONS.find(c => c.id === selectedChainId)?.name || 'Select Chain'}
-                          </p>
-                          <ChevronDown className={`w-4 h-4 text-gray-600 transition-transform ${isChainSelectorOpen ? 'rotate-180' : ''}`} />
-                        </button>
-
-                        {/* Dropdown */}
-                        {isChainSelectorOpen && (
-                          <div className="absolute z-50 mt-2 w-full sm:w-64 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-lg overflow-hidden right-0">
-                            {CHAIN_OPTIONS.filter(c => c.id !== ARC_CHAIN_ID).map((chain) => (
-                              <button
-                                key={chain.id}
-                                type="button"
-                                onClick={() => {
-                                  setSelectedChainId(chain.id);
-                                  setIsChainSelectorOpen(false);
-                                }}
-                                className={`w-full flex items-center space-x-3 px-4 py-3 hover:bg-orange-50 dark:hover:bg-gray-700 transition-colors ${selectedChainId === chain.id ? 'bg-orange-50 dark:bg-orange-900/20 border-l-4 border-orange-500' : ''
-                                  }`}
-                              >
-                                <img
-                                  src={chain.icon}
-                                  alt={chain.name}
-                                  className="w-6 h-6 object-contain"
-                                  onError={(e) => {
-                                    (e.target as HTMLImageElement).style.display = 'none';
-                                  }}
-                                />
-                                <div className="text-left flex-1">
-                                  <p className="font-semibold text-gray-900 dark:text-white text-sm">{chain.name}</p>
-                                  <p className="text-xs text-gray-500 dark:text-gray-400">Chain ID: {chain.id}</p>
-                                </div>
-                                {selectedChainId === chain.id && (
-                                  <CheckCircle className="w-5 h-5 text-orange-500" />
-                                )}
-                              </button>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                    )}
+                    <ChainPicker
+                      value={selectedDestinationChainId}
+                      token={selectedToken}
+                      onChange={selectDestinationChain}
+                      disabled={state.isLoading}
+                      align="right"
+                    />
                     <p className="text-xs text-gray-500 mt-1 hidden sm:block">
-                      Chain ID: {direction === 'sepolia-to-arc' ? ARC_CHAIN_ID : selectedChainId}
+                      Chain ID: {selectedDestinationChainId}
                     </p>
                   </div>
                 </div>
@@ -712,48 +525,23 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
                 <div>
                   <p className="text-sm font-semibold text-blue-900 dark:text-blue-100">Need testnet USDC or gas?</p>
                   <p className="text-xs text-blue-800 dark:text-blue-200 mt-1">
-                    Grab {CHAIN_OPTIONS.find(c => c.id === selectedChainId)?.name} native token for gas and USDC before bridging.
+                    Grab {sourceChainName} native token for gas and USDC before bridging.
                   </p>
                 </div>
                 <div className="flex flex-wrap gap-2">
+                  {sourceChain?.faucets.map((faucet) => (
+                    <a
+                      key={faucet.url}
+                      href={faucet.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="px-4 py-2 text-xs font-semibold rounded-xl bg-white dark:bg-blue-900 text-blue-700 dark:text-blue-100 border border-blue-200 dark:border-blue-700 hover:border-blue-400 transition"
+                    >
+                      {faucet.label}
+                    </a>
+                  ))}
                   <a
-                    href={(() => {
-                      switch (selectedChainId) {
-                        case 11155111: return 'https://cloud.google.com/application/web3/faucet/ethereum/sepolia';
-                        case 84532: return 'https://www.alchemy.com/faucets/base-sepolia';
-                        case 421614: return 'https://faucet.quicknode.com/arbitrum/sepolia';
-                        case 11155420: return 'https://faucet.quicknode.com/optimism/sepolia';
-                        case 80002: return 'https://faucet.polygon.technology/';
-                        case 43113: return 'https://core.app/tools/testnet-faucet/';
-                        case 1301: return 'https://docs.unichain.org/docs/user-guides/faucet';
-                        case 4801: return 'https://worldcoin.org/world-chain';
-                        case 763373: return 'https://inkonchain.com/faucet';
-                        case 59141: return 'https://faucet.linea.build/';
-                        default: return 'https://cloud.google.com/application/web3/faucet/ethereum/sepolia';
-                      }
-                    })()}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="px-4 py-2 text-xs font-semibold rounded-xl bg-white dark:bg-blue-900 text-blue-700 dark:text-blue-100 border border-blue-200 dark:border-blue-700 hover:border-blue-400 transition"
-                  >
-                    {(() => {
-                      switch (selectedChainId) {
-                        case 11155111: return 'Sepolia ETH Faucet';
-                        case 84532: return 'Base Sepolia ETH Faucet';
-                        case 421614: return 'Arbitrum Sepolia ETH Faucet';
-                        case 11155420: return 'OP Sepolia ETH Faucet';
-                        case 80002: return 'Amoy POL Faucet';
-                        case 43113: return 'Fuji AVAX Faucet';
-                        case 1301: return 'Unichain ETH Faucet';
-                        case 4801: return 'World Chain ETH Faucet';
-                        case 763373: return 'Ink ETH Faucet';
-                        case 59141: return 'Linea ETH Faucet';
-                        default: return 'ETH Faucet';
-                      }
-                    })()}
-                  </a>
-                  <a
-                    href="https://faucet.circle.com/"
+                    href={USDC_FAUCET_URL}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="px-4 py-2 text-xs font-semibold rounded-xl bg-blue-600 text-white border border-blue-600 hover:bg-blue-700 transition"
@@ -763,8 +551,8 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
                 </div>
               </div>
 
-              {/* Token Selection - Hidden (Defaulting to USDC) */}
-              <div className="hidden">
+              {/* Token Selection */}
+              <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                   Token
                 </label>
@@ -775,7 +563,7 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
                       <button
                         key={token.symbol}
                         type="button"
-                        onClick={() => setSelectedToken(token.symbol)}
+                        onClick={() => selectToken(token.symbol)}
                         disabled={state.isLoading}
                         className={`flex items-center gap-3 rounded-2xl border px-4 py-3 text-left transition ${isActive
                           ? 'border-orange-400 bg-orange-50 dark:bg-orange-900/30 dark:border-orange-500 shadow-sm'
@@ -806,7 +594,7 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
                   })}
                 </div>
                 <p className="text-xs text-gray-500 mt-2">
-                  Bridge Kit supports USDC and EURC for bidirectional bridging between Sepolia and Arc Testnet.
+                  USDC bridges between any pair of supported chains. EURC is only deployed on some chains, and Bridge Kit cannot bridge it yet.
                 </p>
               </div>
 
@@ -841,9 +629,9 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
                       </div>
                     </div>
                     <div className="text-left sm:text-right">
-                      {CHAIN_TOKENS[sourceChainId] && (
+                      {sourceTokenInfo && (
                         <p className="text-xs text-orange-600 font-mono break-all">
-                          {CHAIN_TOKENS[sourceChainId][selectedToken].contractAddress.slice(0, 6)}...{CHAIN_TOKENS[sourceChainId][selectedToken].contractAddress.slice(-4)}
+                          {sourceTokenInfo.contractAddress.slice(0, 6)}...{sourceTokenInfo.contractAddress.slice(-4)}
                         </p>
                       )}
                     </div>
@@ -861,7 +649,7 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
                         ⚠️ You need {selectedToken} at the Bridge Kit contract address to bridge
                       </p>
                       <a
-                        href="https://faucet.circle.com/"
+                        href={USDC_FAUCET_URL}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="inline-flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800 font-medium underline"
@@ -891,9 +679,44 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
                 />
                 <p className="text-xs text-gray-500 mt-2">
                   Enter the amount to bridge to {destinationChainName}
+                  {isConnected && destinationTokenInfo && !isLoadingDestinationBalance && (
+                    <> (current balance there: {parseFloat(destinationBalance).toFixed(2)} {selectedToken})</>
+                  )}
                 </p>
               </div>
 
+              {/* Recipient */}
+              <RecipientInput
+                value={recipientInput}
+                onChange={setRecipientInput}
+                destinationChainId={destinationChainId}
+                destinationChainName={destinationChainName}
+                resolvedAddress={recipient.address}
+                ensName={recipient.ensName}
+                isChecking={recipient.isChecking}
+                error={recipient.error}
+                warning={recipient.warning}
+                disabled={state.isLoading}
+              />
+
+              {/* Transfer Speed */}
+              <SpeedSelector
+                value={selectedSpeed}
+                onChange={setSelectedSpeed}
+                sourceChainId={sourceChainId}
+                quotes={{ FAST: fastQuote.data, SLOW: standardQuote.data }}
+                disabled={state.isLoading}
+              />
+
+              {/* Fee and Time Estimate */}
+              {isConnected && parseFloat(amount) > 0 && (
+                <QuoteBreakdown
+                  quote={quoteQuery.data}
+                  isLoading={quoteQuery.isFetching && !quoteQuery.data}
+                  error={quoteQuery.error ? 'Unable to estimate fees for this transfer.' : undefined}
+                />
+              )}
+
               {/* Warning if not on source chain */}
               {isConnected && chainId !== sourceChainId && (
                 <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-3">
@@ -909,6 +732,9 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
                 </div>
               )}
 
+              {/* Pre-flight Checks */}
+              {isConnected && <PreflightIssues issues={preflight.issues} isChecking={preflight.isChecking} />}
+
               {/* Connect Wallet Prompt */}
               {!isConnected && (
                 <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 text-center">
@@ -921,18 +747,51 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
               {/* Bridge Button */}
               <button
                 onClick={handleBridge}
-                disabled={!isConnected || !amount || parseFloat(amount) <= 0 || state.isLoading}
-                className={`w-full py-3 sm:py-4 rounded-xl font-bold text-base sm:text-lg transition-all duration-300 ${!isConnected || !amount || parseFloat(amount) <= 0 || state.isLoading
+                disabled={!isConnected || !amount || parseFloat(amount) <= 0 || state.isLoading || isBatchRunning || isScheduleRunning || !preflight.canBridge || !isRecipientReady}
+                className={`w-full py-3 sm:py-4 rounded-xl font-bold text-base sm:text-lg transition-all duration-300 ${!isConnected || !amount || parseFloat(amount) <= 0 || state.isLoading || isBatchRunning || isScheduleRunning || !preflight.canBridge || !isRecipientReady
                   ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
                   : 'bg-orange-500 text-white hover:bg-orange-600 hover:shadow-lg active:scale-95'
                   }`}
               >
                 {state.isLoading ? 'Processing...' : `Bridge ${selectedToken}`}
               </button>
+
+              {/* Transfer History */}
+              {isConnected && (
+                <TransferHistory address={address} onResume={handleResume} disabled={state.isLoading} />
+              )}
+
+              {/* Recover by burn transaction hash */}
+              {isConnected && (
+                <RecoverTransfer
+                  defaultSourceChainId={selectedSourceChainId}
+                  disabled={state.isLoading}
+                  onBusyChange={setIsRecovering}
+                />
+              )}
+
+              {/* Several transfers from the selected source chain */}
+              {isConnected && (
+                <BatchBridge
+                  token={selectedToken}
+                  sourceChainId={selectedSourceChainId}
+                  speed={selectedSpeed}
+                  disabled={state.isLoading || isRecovering || isScheduleRunning}
+                  onBusyChange={setIsBatchRunning}
+                />
+              )}
+
+              {/* Recurring transfers, prompted when due */}
+              {isConnected && (
+                <ScheduledTransfers
+                  disabled={state.isLoading || isRecovering || isBatchRunning}
+                  onBusyChange={setIsScheduleRunning}
+                />
+              )}
             </div>
           )}
 
-          {/* Bridge In Progress - Simplified with Timer */}
+          {/* Bridge In Progress - Timer and live step timeline */}
           {(state.step !== 'idle' && state.step !== 'success' && state.step !== 'error') && (
             <div className="space-y-6">
               {/* Timer and Spinner */}
@@ -953,17 +812,27 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
                 {/* Status Message */}
                 <div className="space-y-2">
                   <p className="text-base sm:text-lg font-bold text-gray-900">
-                    {state.step === 'switching-network'
-                      ? 'Switching Network'
-                      : 'Processing Bridge'}
+                    {STEP_LABELS[state.step].title}
                   </p>
                   <p className="text-xs sm:text-sm text-gray-600 leading-relaxed">
                     {state.step === 'switching-network'
                       ? `You will be asked to switch to ${sourceChainName} network in your wallet.`
-                      : `You will be asked to approve transactions in your wallet. Please approve each transaction as it appears. The bridge will automatically handle the transfer and receive message confirmation.`}
+                      : STEP_LABELS[state.step].description}
                   </p>
                 </div>
               </div>
+
+              {/* Step Timeline */}
+              {state.step !== 'switching-network' && (
+                <div className="rounded-xl p-4 sm:p-6 border border-gray-200 dark:border-gray-700">
+                  <BridgeTimeline
+                    step={state.step}
+                    progress={state.progress ?? []}
+                    sourceChainId={sourceChainId}
+                    destinationChainId={destinationChainId}
+                  />
+                </div>
+              )}
             </div>
           )}
 
@@ -978,12 +847,17 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
                 <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
                   Your {selectedToken} has been successfully transferred from {sourceChainName} to {destinationChainName}.
                 </p>
+                {state.recipient && (
+                  <p className="text-xs text-gray-600 dark:text-gray-300 mb-4 break-all">
+                    Recipient: <span className="font-mono">{state.recipient}</span>
+                  </p>
+                )}
 
                 {/* Transaction Links */}
                 <div className="grid gap-3 sm:grid-cols-2 mb-4">
                   {state.sourceTxHash && (
                     <a
-                      href={`${CHAIN_EXPLORERS[sourceChainId] || 'https://sepolia.etherscan.io'}/tx/${state.sourceTxHash}`}
+                      href={getExplorerTxUrl(sourceChainId, state.sourceTxHash)}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="flex items-center justify-between gap-2 rounded-2xl border border-orange-100 bg-orange-50 dark:bg-orange-900/20 dark:border-orange-800 px-4 py-3 text-sm font-semibold text-orange-700 dark:text-orange-400 hover:border-orange-300 dark:hover:border-orange-700 transition"
@@ -994,7 +868,7 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
                   )}
                   {state.receiveTxHash ? (
                     <a
-                      href={`${CHAIN_EXPLORERS[destinationChainId] || 'https://sepolia.etherscan.io'}/tx/${state.receiveTxHash}`}
+                      href={getExplorerTxUrl(destinationChainId, state.receiveTxHash)}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="flex items-center justify-between gap-2 rounded-2xl border border-orange-100 bg-orange-50 dark:bg-orange-900/20 dark:border-orange-800 px-4 py-3 text-sm font-semibold text-orange-700 dark:text-orange-400 hover:border-orange-300 dark:hover:border-orange-700 transition"
@@ -1009,9 +883,18 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
                     </div>
                   )}
                 </div>
+                {state.sourceTxHash && (
+                  <a
+                    href={getTxStatusPath(sourceChainId, state.sourceTxHash)}
+                    className="inline-flex items-center gap-1 text-sm font-medium text-orange-600 hover:text-orange-700 mb-4"
+                  >
+                    <Link2 className="w-4 h-4" />
+                    Shareable transfer status
+                  </a>
+                )}
                 {!state.sourceTxHash && !state.receiveTxHash && state.result && (state.result as any)?.txHash && (
                   <a
-                    href={`${CHAIN_EXPLORERS[sourceChainId] || 'https://sepolia.etherscan.io'}/tx/${(state.result as any).txHash}`}
+                    href={getExplorerTxUrl(sourceChainId, (state.result as any).txHash)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="flex items-center justify-between gap-2 rounded-2xl border border-orange-100 bg-orange-50 dark:bg-orange-900/20 dark:border-orange-800 px-4 py-3 text-sm font-semibold text-orange-700 dark:text-orange-400 hover:border-orange-300 dark:hover:border-orange-700 transition"
@@ -1049,7 +932,7 @@ export default function BridgeModal({ isOpen = true, onClose, asPage = false }:
                   <p className="whitespace-pre-wrap break-words">{state.error}</p>
                 </div>
                 <p className="text-xs text-gray-500 mb-4">
-                  Check the browser console for detailed {selectedToken} contract address information.
+                  {REMEDIATION[state.errorKind ?? 'unknown']}
                 </p>
                 <motion.button
                   onClick={() => {
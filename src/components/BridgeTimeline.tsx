@@ -0,0 +1,88 @@
+import { type ReactNode } from 'react';
+import { CheckCircle, Circle, ExternalLink, Loader2, XCircle } from 'lucide-react';
+import { getChainName, getExplorerTxUrl } from '../config/chains';
+import { type BridgeStep } from '../hooks/useBridge';
+import { type TransferStepRecord } from '../lib/transferHistory';
+
+interface BridgeTimelineProps {
+  step: BridgeStep;
+  progress: TransferStepRecord[];
+  sourceChainId: number;
+  destinationChainId: number;
+}
+
+type StepStatus = 'done' | 'skipped' | 'active' | 'failed' | 'upcoming';
+
+// Bridge Kit step names in the order they run, with the wizard step that means each one is underway
+const TIMELINE: { name: string; activeOn: BridgeStep; label: (source: string, destination: string) => string }[] = [
+  { name: 'approve', activeOn: 'approving', label: (source) => `Approve USDC on ${source}` },
+  { name: 'burn', activeOn: 'signing-bridge', label: (source) => `Send from ${source}` },
+  { name: 'fetchAttestation', activeOn: 'waiting-attestation', label: () => 'Circle attestation' },
+  { name: 'mint', activeOn: 'waiting-receive-message', label: (_, destination) => `Receive on ${destination}` },
+];
+
+const STATUS_ICONS: Record<StepStatus, ReactNode> = {
+  done: <CheckCircle className="w-5 h-5 text-green-600" />,
+  skipped: <CheckCircle className="w-5 h-5 text-gray-400" />,
+  active: <Loader2 className="w-5 h-5 text-orange-500 animate-spin" />,
+  failed: <XCircle className="w-5 h-5 text-red-600" />,
+  upcoming: <Circle className="w-5 h-5 text-gray-300 dark:text-gray-600" />,
+};
+
+function getStatus(record: TransferStepRecord | undefined, isActive: boolean): StepStatus {
+  if (record?.state === 'success') return 'done';
+  if (record?.state === 'noop') return 'skipped';
+  if (record?.state === 'error') return 'failed';
+  return isActive ? 'active' : 'upcoming';
+}
+
+export default function BridgeTimeline({ step, progress, sourceChainId, destinationChainId }: BridgeTimelineProps) {
+  const sourceName = getChainName(sourceChainId);
+  const destinationName = getChainName(destinationChainId);
+
+  return (
+    <ol className="space-y-3 text-left">
+      {TIMELINE.map((entry) => {
+        const record = progress.find((s) => s.name === entry.name);
+        const status = getStatus(record, entry.activeOn === step);
+        const chainId = entry.name === 'mint' ? destinationChainId : sourceChainId;
+        const explorerUrl = record?.txHash
+          ? record.explorerUrl ?? getExplorerTxUrl(chainId, record.txHash)
+          : undefined;
+
+        return (
+          <li key={entry.name} className="flex items-center gap-3">
+            {STATUS_ICONS[status]}
+            <div className="flex-1 min-w-0">
+              <p className={`text-sm font-semibold ${status === 'upcoming' ? 'text-gray-400 dark:text-gray-500' : 'text-gray-900 dark:text-white'}`}>
+                {entry.label(sourceName, destinationName)}
+              </p>
+              {status === 'skipped' && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">Already approved</p>
+              )}
+              {status === 'done' && record && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Confirmed at {new Date(record.timestamp).toLocaleTimeString()}
+                </p>
+              )}
+              {status === 'failed' && record?.errorMessage && (
+                <p className="text-xs text-red-600 break-words">{record.errorMessage}</p>
+              )}
+            </div>
+            {explorerUrl && (
+              <a
+                href={explorerUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-gray-400 hover:text-orange-500 transition"
+                title="View on explorer"
+              >
+                <ExternalLink className="w-4 h-4" />
+              </a>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
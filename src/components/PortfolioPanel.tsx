@@ -0,0 +1,105 @@
+import { ArrowRight, Loader2, RefreshCw, Wallet } from 'lucide-react';
+import { type Address } from 'viem';
+import { getChainConfig } from '../config/chains';
+import { usePortfolio } from '../hooks/usePortfolio';
+
+interface PortfolioPanelProps {
+  address?: Address;
+  isConnected: boolean;
+  onBridgeFrom: (chainId: number) => void;
+}
+
+const formatAmount = (value: string, digits: number) => {
+  const parsed = parseFloat(value);
+  return parsed > 0 ? parsed.toFixed(digits) : '0.00';
+};
+
+export default function PortfolioPanel({ address, isConnected, onBridgeFrom }: PortfolioPanelProps) {
+  const { rows, totalUsdc, isLoading, refetch } = usePortfolio(isConnected ? address : undefined);
+  const fundedChains = rows.filter((row) => row.data && row.data.usdc.raw > 0n).length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-3xl border border-orange-100 dark:border-gray-700 p-5 md:p-6 flex flex-col gap-4 transition-colors duration-200">
+      <header className="flex items-start justify-between gap-3">
+        <div className="space-y-1">
+          <div className="inline-flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-orange-600 dark:text-orange-400">
+            <Wallet className="w-4 h-4" />
+            Portfolio
+          </div>
+          {isConnected ? (
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">
+              {totalUsdc.toFixed(2)} USDC
+              <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                across {fundedChains} of {rows.length} chains
+              </span>
+            </p>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-300">Connect your wallet to see balances on every chain.</p>
+          )}
+        </div>
+        {isConnected && (
+          <button
+            type="button"
+            onClick={() => refetch()}
+            disabled={isLoading}
+            className="p-2 rounded-lg border border-gray-200 dark:border-gray-600 hover:border-orange-500 transition disabled:opacity-50"
+            title="Refresh balances"
+          >
+            {isLoading ? (
+              <Loader2 className="w-4 h-4 text-orange-500 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+            )}
+          </button>
+        )}
+      </header>
+
+      {isConnected && (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {rows.map((row) => {
+            const chain = getChainConfig(row.chainId);
+            if (!chain) return null;
+            const hasUsdc = !!row.data && row.data.usdc.raw > 0n;
+
+            return (
+              <li key={row.chainId} className="flex items-center gap-3 py-2">
+                <img
+                  src={chain.icon}
+                  alt={chain.name}
+                  className="w-6 h-6 object-contain"
+                  onError={(e) => {
+                    (e.target as HTMLImageElement).style.display = 'none';
+                  }}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-gray-900 dark:text-white truncate">{chain.name}</p>
+                  {row.isLoading ? (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Loading...</p>
+                  ) : row.error ? (
+                    <p className="text-xs text-amber-600">⚠️ {row.error}</p>
+                  ) : (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatAmount(row.data?.usdc.formatted ?? '0', 2)} USDC
+                      {' • '}
+                      {formatAmount(row.data?.native.formatted ?? '0', 4)} {chain.viemChain.nativeCurrency.symbol} gas
+                    </p>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onBridgeFrom(row.chainId)}
+                  disabled={!hasUsdc}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-lg border border-orange-200 dark:border-orange-800 text-orange-700 dark:text-orange-400 hover:border-orange-400 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={`Bridge from ${chain.name}`}
+                >
+                  Bridge from here
+                  <ArrowRight className="w-3 h-3" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { AlertCircle, Info, Loader2 } from 'lucide-react';
+import { type PreflightIssue } from '../lib/preflight';
+
+interface PreflightIssuesProps {
+  issues: PreflightIssue[];
+  isChecking: boolean;
+}
+
+export default function PreflightIssues({ issues, isChecking }: PreflightIssuesProps) {
+  if (isChecking) {
+    return (
+      <p className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Checking balances and gas...
+      </p>
+    );
+  }
+
+  if (issues.length === 0) return null;
+
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  const warnings = issues.filter((issue) => issue.severity === 'warning');
+
+  return (
+    <div className="space-y-2">
+      {errors.length > 0 && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-3">
+          <div className="flex items-start space-x-2">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
+            <ul className="text-sm text-red-800 dark:text-red-300 space-y-1">
+              {errors.map((issue, index) => (
+                <li key={`${issue.code}-${index}`}>{issue.message}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl p-3">
+          <div className="flex items-start space-x-2">
+            <Info className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
+            <ul className="text-xs text-blue-800 dark:text-blue-300 space-y-1">
+              {warnings.map((issue, index) => (
+                <li key={`${issue.code}-${index}`}>{issue.message}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { Clock, Fuel, Loader2 } from 'lucide-react';
+import { getChainName } from '../config/chains';
+import { type BridgeQuote, formatDuration } from '../lib/quote';
+
+interface QuoteBreakdownProps {
+  quote?: BridgeQuote;
+  isLoading: boolean;
+  error?: string;
+}
+
+const formatUsd = (value: number | null) =>
+  value === null ? 'n/a' : value < 0.01 ? '< $0.01' : `$${value.toFixed(2)}`;
+
+const formatNative = (value: string) => {
+  const parsed = parseFloat(value);
+  return parsed > 0 && parsed < 0.000001 ? '< 0.000001' : parsed.toFixed(6);
+};
+
+export default function QuoteBreakdown({ quote, isLoading, error }: QuoteBreakdownProps) {
+  if (isLoading) {
+    return (
+      <p className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Estimating fees...
+      </p>
+    );
+  }
+
+  if (error) {
+    return <p className="text-xs text-amber-600">⚠️ {error}</p>;
+  }
+
+  if (!quote) return null;
+
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-3 space-y-2 text-xs text-gray-600 dark:text-gray-300">
+      {quote.gas.map((entry) => (
+        <div key={entry.step} className="flex items-center justify-between gap-2">
+          <span className="inline-flex items-center gap-1">
+            <Fuel className="w-3 h-3" />
+            {entry.step} gas on {getChainName(entry.chainId)}
+          </span>
+          <span className="font-mono text-right">
+            {entry.native === null ? 'unavailable' : `${formatNative(entry.native)} ${entry.symbol}`}
+            <span className="text-gray-400"> ({formatUsd(entry.usd)})</span>
+          </span>
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-2">
+        <span>Bridge fee</span>
+        <span className="font-mono">{parseFloat(quote.protocolFee).toFixed(6)} USDC</span>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <span className="inline-flex items-center gap-1">
+          <Clock className="w-3 h-3" />
+          Attestation wait
+        </span>
+        <span>{formatDuration(quote.attestationSeconds)}</span>
+      </div>
+      <div className="flex items-center justify-between gap-2 pt-2 border-t border-gray-200 dark:border-gray-700 font-semibold text-gray-900 dark:text-white">
+        <span>Estimated total cost</span>
+        <span>{formatUsd(quote.totalUsd)}</span>
+      </div>
+      <p className="text-[11px] text-gray-400">USD values use mainnet prices for the gas tokens.</p>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { AlertCircle, CheckCircle, ChevronDown, Loader2 } from 'lucide-react';
+import { type Address, isAddressEqual } from 'viem';
+import { useAddressBook } from '../hooks/useAddressBook';
+import { getAddressBookChainWarning } from '../lib/addressBook';
+
+interface RecipientInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  destinationChainId: number;
+  destinationChainName: string;
+  resolvedAddress: string | null;
+  ensName?: string;
+  isChecking: boolean;
+  error?: string;
+  warning?: string;
+  disabled?: boolean;
+}
+
+export default function RecipientInput({
+  value,
+  onChange,
+  destinationChainId,
+  destinationChainName,
+  resolvedAddress,
+  ensName,
+  isChecking,
+  error,
+  warning,
+  disabled,
+}: RecipientInputProps) {
+  const [isExpanded, setIsExpanded] = useState(value !== '');
+  const addressBook = useAddressBook();
+
+  // Entries saved for the destination chain come first
+  const savedRecipients = [
+    ...addressBook.filter((entry) => entry.chainIds.includes(destinationChainId)),
+    ...addressBook.filter((entry) => !entry.chainIds.includes(destinationChainId)),
+  ];
+  const savedEntry = resolvedAddress
+    ? addressBook.find((entry) => isAddressEqual(entry.address, resolvedAddress as Address))
+    : undefined;
+  const chainWarning = savedEntry && getAddressBookChainWarning(savedEntry, destinationChainId);
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => {
+          // Collapsing goes back to sending to the connected wallet
+          if (isExpanded) onChange('');
+          setIsExpanded(!isExpanded);
+        }}
+        disabled={disabled}
+        className="inline-flex items-center gap-1 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-orange-600"
+      >
+        Send to a different address
+        <ChevronDown className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="mt-2 space-y-2">
+          {savedRecipients.length > 0 && (
+            <select
+              value={savedEntry?.address ?? ''}
+              onChange={(e) => onChange(e.target.value)}
+              disabled={disabled}
+              className="w-full px-3 py-2 rounded-xl border border-gray-300 dark:border-gray-600 text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="">Pick from address book...</option>
+              {savedRecipients.map((entry) => (
+                <option key={entry.id} value={entry.address}>
+                  {entry.label}{entry.chainIds.includes(destinationChainId) ? '' : ` (not saved for ${destinationChainName})`}
+                </option>
+              ))}
+            </select>
+          )}
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="0x... or name.eth"
+            disabled={disabled}
+            className="w-full px-3 sm:px-4 py-2 rounded-xl border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all text-sm font-mono"
+          />
+          {isChecking ? (
+            <p className="flex items-center gap-2 text-xs text-gray-500">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Checking recipient...
+            </p>
+          ) : error ? (
+            <p className="flex items-center gap-1 text-xs text-red-600">
+              <AlertCircle className="w-3 h-3" />
+              {error}
+            </p>
+          ) : resolvedAddress ? (
+            <p className="flex items-center gap-1 text-xs text-green-700 dark:text-green-400 break-all">
+              <CheckCircle className="w-3 h-3 flex-shrink-0" />
+              {ensName
+                ? `${ensName} → ${resolvedAddress}`
+                : `Funds will be minted to ${savedEntry ? `${savedEntry.label} (${resolvedAddress})` : resolvedAddress} on ${destinationChainName}`}
+            </p>
+          ) : (
+            <p className="text-xs text-gray-500">Leave empty to receive on your connected wallet.</p>
+          )}
+          {[chainWarning, warning].map((message) => message && !isChecking && (
+            <div key={message} className="bg-yellow-50 border border-yellow-200 rounded-xl p-3 flex items-start space-x-2">
+              <AlertCircle className="w-4 h-4 text-yellow-600 mt-0.5 flex-shrink-0" />
+              <p className="text-xs text-yellow-800">{message}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
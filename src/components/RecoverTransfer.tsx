@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, ChevronDown, ExternalLink, LifeBuoy, Loader2 } from 'lucide-react';
+import { isHash, type Hex } from 'viem';
+import { SUPPORTED_CHAINS, SEPOLIA_CHAIN_ID, getChainName, getExplorerTxUrl } from '../config/chains';
+import { type RecoverStep, useRecoverTransfer } from '../hooks/useRecoverTransfer';
+
+interface RecoverTransferProps {
+  defaultSourceChainId?: number;
+  disabled?: boolean;
+  // Lets the parent hold off its own network switching while recovery drives the wallet
+  onBusyChange?: (busy: boolean) => void;
+}
+
+const STEP_MESSAGES: Partial<Record<RecoverStep, string>> = {
+  'reading-burn': 'Reading the burn transaction...',
+  'fetching-attestation': 'Waiting for Circle to attest the transfer...',
+  'switching-network': 'Switching to the destination network...',
+  receiving: 'Confirm the receive transaction in your wallet...',
+};
+
+export default function RecoverTransfer({ defaultSourceChainId = SEPOLIA_CHAIN_ID, disabled, onBusyChange }: RecoverTransferProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [sourceChainId, setSourceChainId] = useState(defaultSourceChainId);
+  const [burnTxHash, setBurnTxHash] = useState('');
+  const { state, recover, reset } = useRecoverTransfer();
+
+  const trimmedHash = burnTxHash.trim();
+  const isValidHash = isHash(trimmedHash);
+  const isBusy = !!STEP_MESSAGES[state.step];
+
+  useEffect(() => {
+    onBusyChange?.(isBusy);
+  }, [isBusy, onBusyChange]);
+
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-gray-700">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between gap-2 p-3 sm:p-4 text-sm font-semibold text-gray-700 dark:text-gray-300"
+      >
+        <span className="inline-flex items-center gap-2">
+          <LifeBuoy className="w-4 h-4 text-orange-500" />
+          Recover a stuck transfer
+        </span>
+        <ChevronDown className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 sm:px-4 sm:pb-4 space-y-3">
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            If tokens left the source chain but never arrived, paste the burn transaction hash to finish the transfer on the destination chain.
+          </p>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <select
+              value={sourceChainId}
+              onChange={(e) => setSourceChainId(Number(e.target.value))}
+              disabled={isBusy}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {SUPPORTED_CHAINS.map((chain) => (
+                <option key={chain.id} value={chain.id}>{chain.name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={burnTxHash}
+              onChange={(e) => {
+                setBurnTxHash(e.target.value);
+                if (state.step === 'error' || state.step === 'success') reset();
+              }}
+              placeholder="Burn transaction hash (0x...)"
+              disabled={isBusy}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-mono bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+          </div>
+
+          {trimmedHash && !isValidHash && (
+            <p className="text-xs text-red-600">Enter a 32-byte transaction hash.</p>
+          )}
+
+          <button
+            type="button"
+            onClick={() => recover(sourceChainId, trimmedHash as Hex)}
+            disabled={disabled || isBusy || !isValidHash}
+            className="w-full py-2 rounded-lg text-sm font-semibold bg-orange-500 text-white hover:bg-orange-600 transition disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+          >
+            {isBusy ? 'Recovering...' : 'Recover transfer'}
+          </button>
+
+          {isBusy && (
+            <p className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+              <Loader2 className="w-4 h-4 text-orange-500 animate-spin" />
+              {STEP_MESSAGES[state.step]}
+            </p>
+          )}
+
+          {state.step === 'success' && (
+            <div className="flex items-start gap-2 text-xs text-green-700 dark:text-green-400">
+              <CheckCircle className="w-4 h-4 flex-shrink-0" />
+              <div>
+                <p>
+                  {state.alreadyReceived
+                    ? `This transfer was already received on ${getChainName(state.destinationChainId)}.`
+                    : `Transfer received on ${getChainName(state.destinationChainId)}.`}
+                </p>
+                {state.receiveTxHash && (
+                  <a
+                    href={getExplorerTxUrl(state.destinationChainId, state.receiveTxHash)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 underline"
+                  >
+                    View receive transaction
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                )}
+              </div>
+            </div>
+          )}
+
+          {state.step === 'error' && state.error && (
+            <p className="text-xs text-red-600 whitespace-pre-wrap break-words">{state.error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { CheckCircle, ChevronDown, Loader2, Server, Trash2, XCircle } from 'lucide-react';
+import { SUPPORTED_CHAINS, SEPOLIA_CHAIN_ID, getChainName } from '../config/chains';
+import { useRpcSettings } from '../hooks/useRpcSettings';
+import { type RpcProbeResult, getRpcHealth, probeRpcEndpoint } from '../lib/rpc';
+import { getAlchemyRpcUrl, saveChainRpcSettings } from '../lib/rpcSettings';
+
+const HEALTH_STYLES = {
+  unknown: 'bg-gray-300 dark:bg-gray-600',
+  healthy: 'bg-green-500',
+  failing: 'bg-red-500',
+};
+
+// Keep API keys out of the endpoint list
+const maskUrl = (url: string, alchemyUrl?: string) =>
+  url === alchemyUrl ? url.replace(/\/v2\/.+$/, '/v2/•••') : url;
+
+export default function RpcSettingsPanel() {
+  const settings = useRpcSettings();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [chainId, setChainId] = useState(SEPOLIA_CHAIN_ID);
+  const [newUrl, setNewUrl] = useState('');
+  const [isTesting, setIsTesting] = useState(false);
+  const [probe, setProbe] = useState<RpcProbeResult | null>(null);
+
+  const custom = settings[chainId] ?? { urls: [], replaceDefaults: false };
+  const alchemyUrl = getAlchemyRpcUrl(chainId);
+  const endpoints = getRpcHealth(chainId);
+  const trimmedUrl = newUrl.trim();
+  const isValidUrl = /^https?:\/\/\S+$/.test(trimmedUrl);
+
+  const selectChain = (id: number) => {
+    setChainId(id);
+    setNewUrl('');
+    setProbe(null);
+  };
+
+  // Custom endpoints are only saved once they answer with the right chain ID
+  const testAndAdd = async () => {
+    setIsTesting(true);
+    const result = await probeRpcEndpoint(trimmedUrl, chainId);
+    setIsTesting(false);
+    setProbe(result);
+    if (result.ok) {
+      saveChainRpcSettings(chainId, { ...custom, urls: [trimmedUrl, ...custom.urls.filter((url) => url !== trimmedUrl)] });
+      setNewUrl('');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-3xl border border-orange-100 dark:border-gray-700 p-5 md:p-6 transition-colors duration-200">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between gap-2"
+      >
+        <span className="inline-flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-orange-600 dark:text-orange-400">
+          <Server className="w-4 h-4" />
+          RPC settings
+        </span>
+        <ChevronDown className={`w-4 h-4 text-gray-600 dark:text-gray-300 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Add your own RPC endpoints per chain. They are tried first, saved in this browser, and used for balances, checks and wallet reads.
+          </p>
+
+          <select
+            value={chainId}
+            onChange={(e) => selectChain(Number(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {SUPPORTED_CHAINS.map((chain) => (
+              <option key={chain.id} value={chain.id}>
+                {chain.name}{settings[chain.id] ? ' (custom)' : ''}
+              </option>
+            ))}
+          </select>
+
+          <ul className="space-y-1">
+            {endpoints.map((endpoint) => {
+              const isCustom = custom.urls.includes(endpoint.url);
+              return (
+                <li key={endpoint.url} className="flex items-center gap-2 text-xs">
+                  <span className={`w-2 h-2 rounded-full flex-shrink-0 ${HEALTH_STYLES[endpoint.status]}`} title={endpoint.lastError ?? endpoint.status} />
+                  <span className="flex-1 min-w-0 font-mono truncate text-gray-700 dark:text-gray-300">
+                    {maskUrl(endpoint.url, alchemyUrl)}
+                  </span>
+                  {endpoint.latencyMs !== null && (
+                    <span className="text-gray-400">{endpoint.latencyMs} ms</span>
+                  )}
+                  {isCustom ? (
+                    <button
+                      type="button"
+                      onClick={() => saveChainRpcSettings(chainId, { ...custom, urls: custom.urls.filter((url) => url !== endpoint.url) })}
+                      className="text-gray-400 hover:text-red-500 transition"
+                      title="Remove endpoint"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  ) : (
+                    <span className="text-gray-400">{endpoint.url === alchemyUrl ? 'Alchemy' : 'default'}</span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={newUrl}
+              onChange={(e) => {
+                setNewUrl(e.target.value);
+                setProbe(null);
+              }}
+              placeholder="https://..."
+              disabled={isTesting}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-mono bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+            <button
+              type="button"
+              onClick={testAndAdd}
+              disabled={!isValidUrl || isTesting}
+              className="inline-flex items-center justify-center gap-1 px-4 py-2 rounded-lg text-sm font-semibold bg-orange-500 text-white hover:bg-orange-600 transition disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+            >
+              {isTesting && <Loader2 className="w-4 h-4 animate-spin" />}
+              Test & add
+            </button>
+          </div>
+
+          {probe && (
+            <p className={`flex items-center gap-1 text-xs ${probe.ok ? 'text-green-700 dark:text-green-400' : 'text-red-600'}`}>
+              {probe.ok ? <CheckCircle className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+              {probe.ok ? `Connected to ${getChainName(chainId)} in ${probe.latencyMs} ms.` : probe.error}
+            </p>
+          )}
+
+          {custom.urls.length > 0 && (
+            <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={custom.replaceDefaults}
+                onChange={(e) => saveChainRpcSettings(chainId, { ...custom, replaceDefaults: e.target.checked })}
+                className="accent-orange-500"
+              />
+              Use only my endpoints for {getChainName(chainId)}
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
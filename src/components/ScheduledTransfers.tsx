@@ -0,0 +1,326 @@
+import { useEffect, useState } from 'react';
+import { CalendarClock, ChevronDown, Download, ExternalLink, Loader2, Play, SkipForward, Trash2 } from 'lucide-react';
+import { isAddress, type Address } from 'viem';
+import { type TransferSpeed, SEPOLIA_CHAIN_ID, ARC_CHAIN_ID, getChainName, getExplorerTxUrl, getTokenChains } from '../config/chains';
+import { useScheduledTransfers } from '../hooks/useScheduledTransfers';
+import { type ScheduleRunStatus, getNextRunTime, validateScheduleRule } from '../lib/scheduling';
+import { addSchedule, exportSchedules, removeSchedule, setScheduleEnabled } from '../lib/schedules';
+
+interface ScheduledTransfersProps {
+  disabled?: boolean;
+  // Lets the parent hold off its own network switching while a scheduled transfer drives the wallet
+  onBusyChange?: (busy: boolean) => void;
+}
+
+// Scheduled transfers only move USDC, the one token Bridge Kit routes
+const TOKEN = 'USDC';
+const MAX_VISIBLE_RUNS = 10;
+
+const RULE_PRESETS = [
+  { label: 'Every day at 09:00', rule: '0 9 * * *' },
+  { label: 'Weekdays at 09:00', rule: '0 9 * * 1-5' },
+  { label: 'Every hour', rule: '@hourly' },
+  { label: 'Every Monday at 09:00', rule: '0 9 * * 1' },
+];
+
+const RUN_STYLES: Record<ScheduleRunStatus, { label: string; className: string }> = {
+  executed: { label: 'Executed', className: 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400' },
+  failed: { label: 'Failed', className: 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400' },
+  skipped: { label: 'Skipped', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' },
+  missed: { label: 'Missed', className: 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400' },
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+const inputClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export default function ScheduledTransfers({ disabled, onBusyChange }: ScheduledTransfersProps) {
+  const { schedules, runs, due, run, skip, isRunning, activeSchedule } = useScheduledTransfers();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [label, setLabel] = useState('');
+  const [sourceChainId, setSourceChainId] = useState(SEPOLIA_CHAIN_ID);
+  const [destinationChainId, setDestinationChainId] = useState(ARC_CHAIN_ID);
+  const [amount, setAmount] = useState('');
+  const [recipient, setRecipient] = useState('');
+  const [speed, setSpeed] = useState<TransferSpeed>('FAST');
+  const [rule, setRule] = useState(RULE_PRESETS[0].rule);
+
+  const chains = getTokenChains(TOKEN);
+  const ruleError = validateScheduleRule(rule);
+  const nextRun = ruleError ? null : getNextRunTime(rule, Date.now());
+  const trimmedRecipient = recipient.trim();
+  const recipientError = trimmedRecipient && !isAddress(trimmedRecipient, { strict: true })
+    ? 'Enter a valid 0x address. Mixed-case addresses must match their checksum.'
+    : null;
+  const canAdd = label.trim() !== '' && parseFloat(amount) > 0 && sourceChainId !== destinationChainId && !ruleError && !recipientError;
+
+  useEffect(() => {
+    onBusyChange?.(isRunning);
+  }, [isRunning, onBusyChange]);
+
+  const add = () => {
+    addSchedule({
+      label: label.trim(),
+      token: TOKEN,
+      amount,
+      sourceChainId,
+      destinationChainId,
+      speed,
+      recipient: trimmedRecipient ? (trimmedRecipient as Address) : undefined,
+      rule: rule.trim(),
+    });
+    setLabel('');
+    setAmount('');
+    setRecipient('');
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([exportSchedules()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'schedules.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const scheduleLabel = (scheduleId: string) => schedules.find((schedule) => schedule.id === scheduleId)?.label ?? 'Removed schedule';
+
+  return (
+    <div className="space-y-3">
+      {isRunning && activeSchedule && (
+        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl p-3 sm:p-4 flex items-center gap-3 text-sm text-blue-900 dark:text-blue-300">
+          <Loader2 className="w-5 h-5 animate-spin flex-shrink-0" />
+          Running scheduled transfer "{activeSchedule.label}". Confirm each step in your wallet.
+        </div>
+      )}
+      {/* Runs waiting for the user's go-ahead */}
+      {due.map((item) => (
+        <div
+          key={item.schedule.id}
+          className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-3 sm:p-4 flex items-start gap-3"
+        >
+          <CalendarClock className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-semibold text-amber-900 dark:text-amber-300">
+              "{item.schedule.label}" is due: {item.schedule.amount} {item.schedule.token} from {getChainName(item.schedule.sourceChainId)} to {getChainName(item.schedule.destinationChainId)}
+            </p>
+            <p className="text-xs text-amber-800 dark:text-amber-400 mt-1">
+              Due {formatDate(item.dueAt)}{item.schedule.recipient ? ` • to ${item.schedule.recipient}` : ''}
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <button
+              type="button"
+              onClick={() => run(item)}
+              disabled={disabled || isRunning}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-lg bg-orange-500 text-white hover:bg-orange-600 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Play className="w-3 h-3" />
+              Run now
+            </button>
+            <button
+              type="button"
+              onClick={() => skip(item)}
+              disabled={isRunning}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-lg text-amber-800 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/40 transition disabled:opacity-50"
+            >
+              <SkipForward className="w-3 h-3" />
+              Skip
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="rounded-xl border border-gray-200 dark:border-gray-700">
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="w-full flex items-center justify-between gap-2 p-3 sm:p-4 text-sm font-semibold text-gray-700 dark:text-gray-300"
+        >
+          <span className="inline-flex items-center gap-2">
+            <CalendarClock className="w-4 h-4 text-orange-500" />
+            Scheduled transfers
+            {schedules.length > 0 && <span className="text-gray-400">({schedules.length})</span>}
+          </span>
+          <ChevronDown className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+        </button>
+
+        {isExpanded && (
+          <div className="px-3 pb-3 sm:px-4 sm:pb-4 space-y-4">
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              Repeat a transfer on a schedule. While this page is open you are asked to run each one when it is due; runs not started within an hour are logged as missed. Schedules are saved in this browser and use its time zone.
+            </p>
+
+            {schedules.length > 0 && (
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                {schedules.map((schedule) => {
+                  const next = schedule.enabled ? getNextRunTime(schedule.rule, Math.max(schedule.lastHandledAt, Date.now())) : null;
+                  return (
+                    <li key={schedule.id} className="flex items-center gap-3 py-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-semibold text-gray-900 dark:text-white truncate">
+                          {schedule.label}: {schedule.amount} {schedule.token}, {getChainName(schedule.sourceChainId)} → {getChainName(schedule.destinationChainId)}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          <span className="font-mono">{schedule.rule}</span>
+                          {' • '}
+                          {schedule.enabled ? (next ? `next ${formatDate(next)}` : 'no upcoming runs') : 'paused'}
+                        </p>
+                      </div>
+                      <label className="inline-flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                        <input
+                          type="checkbox"
+                          checked={schedule.enabled}
+                          onChange={(e) => setScheduleEnabled(schedule.id, e.target.checked)}
+                          className="accent-orange-500"
+                        />
+                        On
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => removeSchedule(schedule.id)}
+                        disabled={activeSchedule?.id === schedule.id}
+                        className="text-gray-400 hover:text-red-500 transition disabled:opacity-50"
+                        title="Remove schedule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Label, e.g. Faucet top-up"
+                className={`w-full ${inputClass}`}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <select value={sourceChainId} onChange={(e) => setSourceChainId(Number(e.target.value))} className={inputClass}>
+                  {chains.map((chain) => (
+                    <option key={chain.id} value={chain.id}>From {chain.name}</option>
+                  ))}
+                </select>
+                <select value={destinationChainId} onChange={(e) => setDestinationChainId(Number(e.target.value))} className={inputClass}>
+                  {chains.map((chain) => (
+                    <option key={chain.id} value={chain.id}>To {chain.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder={`Amount (${TOKEN})`}
+                  step="0.01"
+                  min="0"
+                  className={inputClass}
+                />
+                <select value={speed} onChange={(e) => setSpeed(e.target.value as TransferSpeed)} className={inputClass}>
+                  <option value="FAST">Fast</option>
+                  <option value="SLOW">Standard</option>
+                </select>
+              </div>
+              <input
+                type="text"
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+                placeholder="Recipient (optional, defaults to your wallet)"
+                className={`w-full font-mono ${inputClass}`}
+              />
+              {recipientError && <p className="text-xs text-red-600">{recipientError}</p>}
+              <div className="flex flex-col sm:flex-row gap-2">
+                <select
+                  value={RULE_PRESETS.some((preset) => preset.rule === rule) ? rule : ''}
+                  onChange={(e) => e.target.value && setRule(e.target.value)}
+                  className={inputClass}
+                >
+                  {RULE_PRESETS.map((preset) => (
+                    <option key={preset.rule} value={preset.rule}>{preset.label}</option>
+                  ))}
+                  <option value="">Custom</option>
+                </select>
+                <input
+                  type="text"
+                  value={rule}
+                  onChange={(e) => setRule(e.target.value)}
+                  placeholder="m h dom mon dow"
+                  className={`flex-1 min-w-0 font-mono ${inputClass}`}
+                />
+              </div>
+              <p className={`text-xs ${ruleError ? 'text-red-600' : 'text-gray-500 dark:text-gray-400'}`}>
+                {ruleError ?? (nextRun ? `First run ${formatDate(nextRun)}.` : 'This rule never runs.')}
+              </p>
+              {sourceChainId === destinationChainId && (
+                <p className="text-xs text-red-600">Pick two different chains.</p>
+              )}
+              <button
+                type="button"
+                onClick={add}
+                disabled={!canAdd}
+                className="w-full py-2 rounded-lg text-sm font-semibold bg-orange-500 text-white hover:bg-orange-600 transition disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+              >
+                Add schedule
+              </button>
+            </div>
+
+            {runs.length > 0 && (
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">Run log</p>
+                <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {runs.slice(0, MAX_VISIBLE_RUNS).map((entry) => {
+                    const status = RUN_STYLES[entry.status];
+                    const schedule = schedules.find((s) => s.id === entry.scheduleId);
+                    const txHash = entry.receiveTxHash ?? entry.sourceTxHash;
+                    const txChainId = entry.receiveTxHash ? schedule?.destinationChainId : schedule?.sourceChainId;
+
+                    return (
+                      <li key={entry.id} className="flex items-center gap-2 py-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs font-semibold text-gray-900 dark:text-white truncate">{scheduleLabel(entry.scheduleId)}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={entry.error}>
+                            {entry.missedCount && entry.missedCount > 1 ? `${entry.missedCount} runs up to ` : ''}
+                            {formatDate(entry.dueAt)}
+                            {entry.error ? ` • ${entry.error}` : ''}
+                          </p>
+                        </div>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${status.className}`}>{status.label}</span>
+                        {txHash && txChainId && (
+                          <a
+                            href={getExplorerTxUrl(txChainId, txHash)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-gray-400 hover:text-orange-500 transition"
+                            title="View on explorer"
+                          >
+                            <ExternalLink className="w-4 h-4" />
+                          </a>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            {schedules.length > 0 && (
+              <button
+                type="button"
+                onClick={download}
+                className="inline-flex items-center gap-1 text-xs font-medium text-gray-600 dark:text-gray-300 hover:text-orange-600"
+                title="Use the file with the headless runner (npm run scheduler)"
+              >
+                <Download className="w-3 h-3" />
+                Export for the headless runner
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
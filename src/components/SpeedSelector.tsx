@@ -0,0 +1,54 @@
+import { Gauge, Zap } from 'lucide-react';
+import { type TransferSpeed, getAttestationSeconds } from '../config/chains';
+import { type BridgeQuote, formatDuration, formatSpeedFee } from '../lib/quote';
+
+interface SpeedSelectorProps {
+  value: TransferSpeed;
+  onChange: (speed: TransferSpeed) => void;
+  sourceChainId: number;
+  quotes: Partial<Record<TransferSpeed, BridgeQuote>>;
+  disabled?: boolean;
+}
+
+const SPEED_OPTIONS: { speed: TransferSpeed; label: string; icon: typeof Zap }[] = [
+  { speed: 'FAST', label: 'Fast', icon: Zap },
+  { speed: 'SLOW', label: 'Standard', icon: Gauge },
+];
+
+export default function SpeedSelector({ value, onChange, sourceChainId, quotes, disabled }: SpeedSelectorProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Transfer speed</label>
+      <div className="grid grid-cols-2 gap-2">
+        {SPEED_OPTIONS.map(({ speed, label, icon: Icon }) => {
+          const isSelected = value === speed;
+          const seconds = getAttestationSeconds(sourceChainId, speed);
+          const feeLabel = formatSpeedFee(speed, quotes[speed]);
+
+          return (
+            <button
+              key={speed}
+              type="button"
+              onClick={() => onChange(speed)}
+              disabled={disabled}
+              className={`text-left p-3 rounded-xl border-2 transition ${isSelected
+                ? 'border-orange-500 bg-orange-50 dark:bg-orange-900/20'
+                : 'border-gray-200 dark:border-gray-600 hover:border-orange-300'
+                } disabled:opacity-50`}
+            >
+              <span className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+                <Icon className="w-4 h-4 text-orange-500" />
+                {label}
+              </span>
+              <span className="block text-xs text-gray-600 dark:text-gray-400 mt-1">
+                {seconds !== undefined ? formatDuration(seconds) : 'Unknown wait'}
+                {' • '}
+                {feeLabel}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
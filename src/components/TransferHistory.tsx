@@ -0,0 +1,132 @@
+import { AlertTriangle, Cloud, CloudOff, ExternalLink, History, Loader2, RotateCw } from 'lucide-react';
+import { type Address } from 'viem';
+import { getChainName, getExplorerTxUrl } from '../config/chains';
+import { useHistorySync } from '../hooks/useHistorySync';
+import { useTransferHistory } from '../hooks/useTransferHistory';
+import { type TransferRecord, type TransferStatus } from '../lib/transferHistory';
+
+interface TransferHistoryProps {
+  address?: Address;
+  onResume: (record: TransferRecord) => void;
+  disabled?: boolean;
+}
+
+// Keep the list short; older transfers stay in IndexedDB
+const MAX_VISIBLE = 5;
+
+const STATUS_STYLES: Record<TransferStatus, { label: string; className: string }> = {
+  pending: { label: 'In progress', className: 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400' },
+  completed: { label: 'Completed', className: 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400' },
+  failed: { label: 'Failed', className: 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400' },
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+export default function TransferHistory({ address, onResume, disabled }: TransferHistoryProps) {
+  const { transfers, resumable } = useTransferHistory(address);
+  const historySync = useHistorySync(address);
+
+  // With sync available the panel stays visible, so a new device can pull its history
+  if (transfers.length === 0 && !historySync.isAvailable) return null;
+
+  return (
+    <div className="space-y-3">
+      {/* Burned on the source chain but never minted on the destination */}
+      {resumable.map((record) => (
+        <div
+          key={record.id}
+          className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-3 sm:p-4 flex items-start gap-3"
+        >
+          <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-semibold text-amber-900 dark:text-amber-300">
+              {record.amount} {record.token} is waiting to be received on {getChainName(record.destinationChainId)}
+            </p>
+            <p className="text-xs text-amber-800 dark:text-amber-400 mt-1">
+              Sent from {getChainName(record.sourceChainId)} on {formatDate(record.createdAt)}. Resume to finish the transfer.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => onResume(record)}
+            disabled={disabled}
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-lg bg-orange-500 text-white hover:bg-orange-600 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RotateCw className="w-3 h-3" />
+            Resume
+          </button>
+        </div>
+      ))}
+
+      {/* Recent transfers */}
+      <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-3 sm:p-4">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <div className="inline-flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+            <History className="w-4 h-4" />
+            Recent transfers
+          </div>
+          {historySync.isAvailable && (historySync.isSignedIn ? (
+            <span className="inline-flex items-center gap-1 text-xs font-medium text-gray-500 dark:text-gray-400">
+              {historySync.isSyncing ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <Cloud className="w-3 h-3 text-green-600" />
+              )}
+              Synced
+            </span>
+          ) : (
+            <button
+              type="button"
+              onClick={historySync.signIn}
+              disabled={!historySync.signIn}
+              className="inline-flex items-center gap-1 text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-orange-600 disabled:opacity-50"
+              title="Sign in with your wallet to sync history across devices"
+            >
+              <CloudOff className="w-3 h-3" />
+              Sign in to sync
+            </button>
+          ))}
+        </div>
+        {historySync.error && <p className="text-xs text-red-600 mb-2">{historySync.error}</p>}
+        {transfers.length === 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 py-2">No transfers yet.</p>
+        )}
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {transfers.slice(0, MAX_VISIBLE).map((record) => {
+            const status = STATUS_STYLES[record.status];
+            const txHash = record.receiveTxHash ?? record.sourceTxHash;
+            const txChainId = record.receiveTxHash ? record.destinationChainId : record.sourceChainId;
+
+            return (
+              <li key={record.id} className="flex items-center gap-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold text-gray-900 dark:text-white truncate">
+                    {record.amount} {record.token}: {getChainName(record.sourceChainId)} → {getChainName(record.destinationChainId)}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatDate(record.createdAt)} • {record.speed === 'SLOW' ? 'Standard' : 'Fast'}
+                  </p>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${status.className}`}>
+                  {status.label}
+                </span>
+                {txHash && (
+                  <a
+                    href={getExplorerTxUrl(txChainId, txHash)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-gray-400 hover:text-orange-500 transition"
+                    title="View on explorer"
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                  </a>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { ArrowLeft, CheckCircle, Clock, Copy, ExternalLink, Loader2, RotateCw, XCircle } from 'lucide-react';
+import { formatUnits } from 'viem';
+import { getChainName, getExplorerAddressUrl, getExplorerTxUrl } from '../config/chains';
+import { useTransferLookup } from '../hooks/useTransferLookup';
+import { type TxRoute } from '../lib/routes';
+
+interface TransferStatusPageProps {
+  route?: TxRoute;
+  // Set when the link itself is malformed
+  error?: string;
+}
+
+const ATTESTATION_LABELS = {
+  'not-found': 'Not seen by Circle yet',
+  pending: 'Waiting for attestation',
+  complete: 'Attested',
+};
+
+const shorten = (value: string) => `${value.slice(0, 10)}...${value.slice(-8)}`;
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 py-3 border-b border-gray-100 dark:border-gray-700 last:border-0">
+      <span className="text-sm text-gray-500 dark:text-gray-400">{label}</span>
+      <span className="text-sm font-medium text-gray-900 dark:text-white break-all sm:text-right">{children}</span>
+    </div>
+  );
+}
+
+function ExplorerLink({ href, children }: { href?: string; children: React.ReactNode }) {
+  if (!href) return <span className="font-mono">{children}</span>;
+  return (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 font-mono hover:text-orange-500 transition">
+      {children}
+      <ExternalLink className="w-3 h-3" />
+    </a>
+  );
+}
+
+function StatusBadge({ done, pending, label }: { done: boolean; pending?: boolean; label: string }) {
+  const className = done
+    ? 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400'
+    : pending
+      ? 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400'
+      : 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400';
+  const Icon = done ? CheckCircle : Clock;
+  return (
+    <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold ${className}`}>
+      <Icon className="w-3 h-3" />
+      {label}
+    </span>
+  );
+}
+
+function TransferDetails({ route }: { route: TxRoute }) {
+  const { lookup, isLoading, isRefreshing, error, refresh } = useTransferLookup(route.chainId, route.hash);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-10 text-sm text-gray-600 dark:text-gray-300">
+        <Loader2 className="w-5 h-5 text-orange-500 animate-spin" />
+        Reading the transfer...
+      </div>
+    );
+  }
+
+  if (error || !lookup) {
+    return (
+      <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 flex items-start gap-3">
+        <XCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+        <p className="text-sm text-red-800 dark:text-red-300 break-words">{error ?? 'Transfer not found.'}</p>
+      </div>
+    );
+  }
+
+  const { burn, details, token, attestation, nonce, minted } = lookup;
+  const amount = token ? `${formatUnits(details.amount, token.decimals)} ${token.symbol}` : details.amount.toString();
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-xl border border-gray-200 dark:border-gray-700 px-4">
+        <Row label="From">
+          {getChainName(burn.sourceChainId)} <span className="text-gray-400">(domain {burn.sourceDomain})</span>
+        </Row>
+        <Row label="To">
+          {getChainName(burn.destinationChainId)} <span className="text-gray-400">(domain {burn.destinationDomain})</span>
+        </Row>
+        <Row label="Amount">{amount}</Row>
+        <Row label="Sender">
+          <ExplorerLink href={getExplorerAddressUrl(burn.sourceChainId, details.messageSender)}>
+            {shorten(details.messageSender)}
+          </ExplorerLink>
+        </Row>
+        <Row label="Recipient">
+          <ExplorerLink href={getExplorerAddressUrl(burn.destinationChainId, details.mintRecipient)}>
+            {shorten(details.mintRecipient)}
+          </ExplorerLink>
+        </Row>
+        <Row label="Burn transaction">
+          <ExplorerLink href={getExplorerTxUrl(burn.sourceChainId, route.hash)}>{shorten(route.hash)}</ExplorerLink>
+        </Row>
+        <Row label="Nonce">
+          <span className="font-mono">{nonce ? shorten(nonce) : 'Assigned at attestation'}</span>
+        </Row>
+        <Row label="Attestation">
+          <StatusBadge done={attestation === 'complete'} pending={attestation === 'pending'} label={ATTESTATION_LABELS[attestation]} />
+        </Row>
+        <Row label="Minted on destination">
+          {minted === null ? (
+            <span className="text-gray-400">Known once attested</span>
+          ) : (
+            <StatusBadge done={minted} label={minted ? 'Yes' : 'Not yet'} />
+          )}
+        </Row>
+      </div>
+
+      {attestation === 'complete' && minted === false && (
+        <p className="text-xs text-amber-800 dark:text-amber-400">
+          The transfer is attested but has not been received. The sender can finish it from &quot;Recover a stuck transfer&quot; on the bridge page.
+        </p>
+      )}
+
+      <button
+        type="button"
+        onClick={() => refresh()}
+        disabled={isRefreshing}
+        className="inline-flex items-center gap-1 text-sm font-medium text-orange-600 hover:text-orange-700 disabled:opacity-50"
+      >
+        <RotateCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+        Refresh
+      </button>
+    </div>
+  );
+}
+
+// Read-only status of one CCTP transfer, reachable at /tx/:chainId/:hash so it can be shared
+export default function TransferStatusPage({ route, error }: TransferStatusPageProps) {
+  const [isCopied, setIsCopied] = useState(false);
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 2000);
+  };
+
+  return (
+    <div className="mt-8 max-w-2xl space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        <a href="/" className="inline-flex items-center gap-1 text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-orange-600">
+          <ArrowLeft className="w-4 h-4" />
+          Back to bridge
+        </a>
+        {route && (
+          <button
+            type="button"
+            onClick={copyLink}
+            className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-lg border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition"
+          >
+            <Copy className="w-3 h-3" />
+            {isCopied ? 'Copied' : 'Copy link'}
+          </button>
+        )}
+      </div>
+
+      <div>
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Transfer status</h2>
+        {route && (
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 break-all">
+            Burn on {getChainName(route.chainId)}: <span className="font-mono">{route.hash}</span>
+          </p>
+        )}
+      </div>
+
+      {route ? (
+        <TransferDetails route={route} />
+      ) : (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 text-sm text-red-800 dark:text-red-300">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
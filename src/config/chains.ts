@@ -0,0 +1,358 @@
+import { Blockchain } from '@circle-fin/bridge-kit';
+import { defineChain, isAddressEqual, type Address, type Chain } from 'viem';
+import { sepolia, baseSepolia, arbitrumSepolia, optimismSepolia, polygonAmoy, avalancheFuji, lineaSepolia } from 'viem/chains';
+
+export type BridgeToken = 'USDC' | 'EURC';
+
+// CCTP v2 transfer speed, as Bridge Kit names it: FAST waits for soft finality
+// and charges a fee, SLOW (Standard Transfer) waits for hard finality for free
+export type TransferSpeed = 'FAST' | 'SLOW';
+
+export interface TokenInfo {
+  symbol: string;
+  name: string;
+  decimals: number;
+  contractAddress: string;
+}
+
+export interface ChainFaucet {
+  label: string;
+  url: string;
+}
+
+export interface ChainConfig {
+  id: number;
+  name: string;
+  icon: string;
+  // viem chain definition used by wagmi and the read clients
+  viemChain: Chain;
+  explorerUrl: string;
+  // Native gas faucet first; the Circle USDC faucet is shared by every chain
+  faucets: ChainFaucet[];
+  // Ranked RPC endpoints, most reliable first
+  rpcUrls: readonly string[];
+  // Alchemy network name, used to build an RPC URL when VITE_ALCHEMY_API_KEY is set
+  alchemyNetwork?: string;
+  // Only tokens Circle has deployed on the chain
+  tokens: Partial<Record<BridgeToken, TokenInfo>>;
+  cctpDomain: number;
+  // Typical wait for Circle's attestation after the burn, in seconds, set by the
+  // source chain's finality (Fast Transfer waits for soft finality only)
+  attestationSeconds: { fast: number; standard: number };
+  bridgeKitChain: Blockchain;
+}
+
+// Chain IDs
+export const SEPOLIA_CHAIN_ID = 11155111;
+export const ARC_CHAIN_ID = 5042002;
+
+export const USDC_FAUCET_URL = 'https://faucet.circle.com/';
+
+// Define newer chains manually if not available in installed viem version
+const unichainSepolia = defineChain({
+  id: 1301,
+  name: 'Unichain Sepolia',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'Ether',
+    symbol: 'ETH',
+  },
+  rpcUrls: {
+    default: { http: ['https://sepolia.unichain.org'] },
+  },
+  blockExplorers: {
+    default: { name: 'Unichain Explorer', url: 'https://sepolia.uniscan.xyz' },
+  },
+  testnet: true,
+});
+
+const worldChainSepolia = defineChain({
+  id: 4801,
+  name: 'World Chain Sepolia',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'Ether',
+    symbol: 'ETH',
+  },
+  rpcUrls: {
+    default: { http: ['https://worldchain-sepolia.g.alchemy.com/public'] },
+  },
+  blockExplorers: {
+    default: { name: 'World Chain Explorer', url: 'https://worldchain-sepolia.explorer.alchemy.com' },
+  },
+  testnet: true,
+});
+
+const inkSepolia = defineChain({
+  id: 763373,
+  name: 'Ink Sepolia',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'Ether',
+    symbol: 'ETH',
+  },
+  rpcUrls: {
+    default: { http: ['https://rpc-gel-sepolia.inkonchain.com'] },
+  },
+  blockExplorers: {
+    default: { name: 'Ink Explorer', url: 'https://explorer-sepolia.inkonchain.com' },
+  },
+  testnet: true,
+});
+
+// Use Arc Testnet RPC endpoint
+const ARC_RPC_URL = 'https://rpc.testnet.arc.network';
+
+// Arc Testnet configuration
+// Note: MetaMask validation requires 18 decimals for nativeCurrency
+// Even though Arc Testnet uses USDC with 6 decimals, we use 18 here to satisfy MetaMask
+// Actual transactions will still use the correct 6 decimals for USDC
+const arcTestnet = defineChain({
+  id: ARC_CHAIN_ID,
+  name: 'Arc Testnet',
+  network: 'arc-testnet',
+  nativeCurrency: {
+    decimals: 18, // MetaMask requires 18, though Arc uses USDC with 6 decimals
+    name: 'USDC',
+    symbol: 'USDC',
+  },
+  rpcUrls: {
+    default: { http: [ARC_RPC_URL] },
+    public: { http: [ARC_RPC_URL] },
+  },
+  blockExplorers: {
+    default: { name: 'Arc Explorer', url: 'https://testnet.arcscan.app' },
+  },
+});
+
+const usdc = (contractAddress: string): TokenInfo => ({
+  symbol: 'USDC',
+  name: 'USD Coin',
+  decimals: 6,
+  contractAddress,
+});
+
+const eurc = (contractAddress: string): TokenInfo => ({
+  symbol: 'EURC',
+  name: 'Euro Coin',
+  decimals: 6,
+  contractAddress,
+});
+
+// Chain registry, in the order chains are offered in the UI
+export const SUPPORTED_CHAINS: readonly ChainConfig[] = [
+  {
+    id: ARC_CHAIN_ID,
+    name: 'Arc Testnet',
+    icon: '/Arc.png',
+    viemChain: arcTestnet,
+    explorerUrl: 'https://testnet.arcscan.app',
+    faucets: [{ label: 'Arc USDC Faucet', url: USDC_FAUCET_URL }],
+    rpcUrls: [ARC_RPC_URL],
+    tokens: {
+      USDC: usdc('0x3600000000000000000000000000000000000000'), // Bridge Kit USDC on Arc Testnet
+      EURC: eurc('0x89B50855Aa3bE2F677cD6303Cec089B5F319D72a'),
+    },
+    cctpDomain: 26,
+    attestationSeconds: { fast: 1, standard: 1 },
+    bridgeKitChain: Blockchain.Arc_Testnet,
+  },
+  {
+    id: SEPOLIA_CHAIN_ID,
+    name: 'Ethereum Sepolia',
+    icon: '/sepolia.png',
+    viemChain: sepolia,
+    explorerUrl: 'https://sepolia.etherscan.io',
+    faucets: [{ label: 'Sepolia ETH Faucet', url: 'https://cloud.google.com/application/web3/faucet/ethereum/sepolia' }],
+    rpcUrls: [
+      'https://ethereum-sepolia-rpc.publicnode.com',
+      'https://rpc.sepolia.org',
+      'https://sepolia.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161',
+    ],
+    alchemyNetwork: 'eth-sepolia',
+    tokens: {
+      USDC: usdc('0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238'), // Bridge Kit USDC on Sepolia
+      EURC: eurc('0x08210F9170F89Ab7658F0B5E3fF39b0E03C594D4'),
+    },
+    cctpDomain: 0,
+    attestationSeconds: { fast: 20, standard: 15 * 60 },
+    bridgeKitChain: Blockchain.Ethereum_Sepolia,
+  },
+  {
+    id: 84532,
+    name: 'Base Sepolia',
+    icon: '/base.png',
+    viemChain: baseSepolia,
+    explorerUrl: 'https://sepolia.basescan.org',
+    faucets: [{ label: 'Base Sepolia ETH Faucet', url: 'https://www.alchemy.com/faucets/base-sepolia' }],
+    rpcUrls: ['https://sepolia.base.org', 'https://base-sepolia-rpc.publicnode.com'],
+    alchemyNetwork: 'base-sepolia',
+    tokens: { USDC: usdc('0x036CbD53842c5426634e7929541eC2318f3dCF7e'), EURC: eurc('0x808456652fdb597867f38412077A9182bf77359F') },
+    cctpDomain: 6,
+    attestationSeconds: { fast: 8, standard: 15 * 60 },
+    bridgeKitChain: Blockchain.Base_Sepolia,
+  },
+  {
+    id: 421614,
+    name: 'Arbitrum Sepolia',
+    icon: '/arbitrum.png',
+    viemChain: arbitrumSepolia,
+    explorerUrl: 'https://sepolia.arbiscan.io',
+    faucets: [{ label: 'Arbitrum Sepolia ETH Faucet', url: 'https://faucet.quicknode.com/arbitrum/sepolia' }],
+    rpcUrls: ['https://sepolia-rollup.arbitrum.io/rpc', 'https://arbitrum-sepolia-rpc.publicnode.com'],
+    alchemyNetwork: 'arb-sepolia',
+    tokens: { USDC: usdc('0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d') },
+    cctpDomain: 3,
+    attestationSeconds: { fast: 8, standard: 15 * 60 },
+    bridgeKitChain: Blockchain.Arbitrum_Sepolia,
+  },
+  {
+    id: 11155420,
+    name: 'Optimism Sepolia',
+    icon: '/optimism.png',
+    viemChain: optimismSepolia,
+    explorerUrl: 'https://sepolia-optimism.etherscan.io',
+    faucets: [{ label: 'OP Sepolia ETH Faucet', url: 'https://faucet.quicknode.com/optimism/sepolia' }],
+    rpcUrls: ['https://sepolia.optimism.io', 'https://optimism-sepolia-rpc.publicnode.com'],
+    alchemyNetwork: 'opt-sepolia',
+    tokens: { USDC: usdc('0x5fd84259d66Cd46123540766Be93DFE6D43130D7') },
+    cctpDomain: 2,
+    attestationSeconds: { fast: 8, standard: 15 * 60 },
+    bridgeKitChain: Blockchain.Optimism_Sepolia,
+  },
+  {
+    id: 80002,
+    name: 'Polygon Amoy',
+    icon: '/polygon.png',
+    viemChain: polygonAmoy,
+    explorerUrl: 'https://amoy.polygonscan.com',
+    faucets: [{ label: 'Amoy POL Faucet', url: 'https://faucet.polygon.technology/' }],
+    rpcUrls: ['https://rpc-amoy.polygon.technology', 'https://polygon-amoy-bor-rpc.publicnode.com'],
+    alchemyNetwork: 'polygon-amoy',
+    tokens: { USDC: usdc('0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582') },
+    cctpDomain: 7,
+    attestationSeconds: { fast: 8, standard: 60 },
+    bridgeKitChain: Blockchain.Polygon_Amoy_Testnet,
+  },
+  {
+    id: 43113,
+    name: 'Avalanche Fuji',
+    icon: '/avalanche.png',
+    viemChain: avalancheFuji,
+    explorerUrl: 'https://testnet.snowtrace.io',
+    faucets: [{ label: 'Fuji AVAX Faucet', url: 'https://core.app/tools/testnet-faucet/' }],
+    rpcUrls: ['https://api.avax-test.network/ext/bc/C/rpc', 'https://avalanche-fuji-c-chain-rpc.publicnode.com'],
+    alchemyNetwork: 'avax-fuji',
+    tokens: { USDC: usdc('0xb43db544E2c27092c107639Ad201b3dEfAbcF192'), EURC: eurc('0x5E44db7996c682E92a960b65AC713a54AD815c6B') },
+    cctpDomain: 1,
+    attestationSeconds: { fast: 8, standard: 8 },
+    bridgeKitChain: Blockchain.Avalanche_Fuji,
+  },
+  {
+    id: 1301,
+    name: 'Unichain Sepolia',
+    icon: '/unichain.png',
+    viemChain: unichainSepolia,
+    explorerUrl: 'https://sepolia.uniscan.xyz',
+    faucets: [{ label: 'Unichain ETH Faucet', url: 'https://docs.unichain.org/docs/user-guides/faucet' }],
+    rpcUrls: ['https://sepolia.unichain.org', 'https://unichain-sepolia-rpc.publicnode.com'],
+    alchemyNetwork: 'unichain-sepolia',
+    tokens: { USDC: usdc('0x31d0220469e10c4E71834a79b1f276d740d3768F') },
+    cctpDomain: 10,
+    attestationSeconds: { fast: 8, standard: 15 * 60 },
+    bridgeKitChain: Blockchain.Unichain_Sepolia,
+  },
+  {
+    id: 4801,
+    name: 'World Chain Sepolia',
+    icon: '/worldchain.png',
+    viemChain: worldChainSepolia,
+    explorerUrl: 'https://worldchain-sepolia.explorer.alchemy.com',
+    faucets: [{ label: 'World Chain ETH Faucet', url: 'https://worldcoin.org/world-chain' }],
+    rpcUrls: ['https://worldchain-sepolia.g.alchemy.com/public', 'https://worldchain-sepolia.drpc.org'],
+    alchemyNetwork: 'worldchain-sepolia',
+    tokens: { USDC: usdc('0x26743984e3357eFC59f2fd6C1aFDC310335a61c9') },
+    cctpDomain: 14,
+    attestationSeconds: { fast: 8, standard: 15 * 60 },
+    bridgeKitChain: Blockchain.World_Chain_Sepolia,
+  },
+  {
+    id: 763373,
+    name: 'Ink Sepolia',
+    icon: '/ink.png',
+    viemChain: inkSepolia,
+    explorerUrl: 'https://explorer-sepolia.inkonchain.com',
+    faucets: [{ label: 'Ink ETH Faucet', url: 'https://inkonchain.com/faucet' }],
+    rpcUrls: ['https://rpc-gel-sepolia.inkonchain.com', 'https://rpc-qnd-sepolia.inkonchain.com'],
+    alchemyNetwork: 'ink-sepolia',
+    tokens: { USDC: usdc('0x8aE350268E22e0D0531405E4745548D150984833') },
+    cctpDomain: 21,
+    attestationSeconds: { fast: 8, standard: 15 * 60 },
+    bridgeKitChain: Blockchain.Ink_Testnet,
+  },
+  {
+    id: 59141,
+    name: 'Linea Sepolia',
+    icon: '/linea.png',
+    viemChain: lineaSepolia,
+    explorerUrl: 'https://sepolia.lineascan.build',
+    faucets: [{ label: 'Linea ETH Faucet', url: 'https://faucet.linea.build/' }],
+    rpcUrls: ['https://rpc.sepolia.linea.build', 'https://linea-sepolia-rpc.publicnode.com'],
+    alchemyNetwork: 'linea-sepolia',
+    tokens: { USDC: usdc('0x176211869cA2b568f2A7D4EE941E073a821EE1ff') },
+    cctpDomain: 11,
+    attestationSeconds: { fast: 8, standard: 8 * 60 * 60 },
+    bridgeKitChain: Blockchain.Linea_Sepolia,
+  },
+];
+
+export const CHAIN_REGISTRY: Record<number, ChainConfig> = Object.fromEntries(
+  SUPPORTED_CHAINS.map((chain) => [chain.id, chain])
+);
+
+export function getChainConfig(chainId: number | undefined): ChainConfig | undefined {
+  return chainId === undefined ? undefined : CHAIN_REGISTRY[chainId];
+}
+
+export function getChainByCctpDomain(domain: number): ChainConfig | undefined {
+  return SUPPORTED_CHAINS.find((chain) => chain.cctpDomain === domain);
+}
+
+export function getAttestationSeconds(chainId: number, speed: TransferSpeed): number | undefined {
+  const times = getChainConfig(chainId)?.attestationSeconds;
+  return times && (speed === 'FAST' ? times.fast : times.standard);
+}
+
+export function getChainName(chainId: number | undefined): string {
+  return getChainConfig(chainId)?.name || `Chain ${chainId ?? 'unknown'}`;
+}
+
+export function getChainToken(chainId: number | undefined, token: BridgeToken): TokenInfo | undefined {
+  return getChainConfig(chainId)?.tokens[token];
+}
+
+// Registry token deployed at an address on a chain, e.g. the token named in a burn
+export function getTokenByAddress(chainId: number | undefined, address: string): (TokenInfo & { symbol: BridgeToken }) | undefined {
+  const tokens = getChainConfig(chainId)?.tokens ?? {};
+  for (const [symbol, info] of Object.entries(tokens)) {
+    if (info && isAddressEqual(info.contractAddress as Address, address as Address)) {
+      return { ...info, symbol: symbol as BridgeToken };
+    }
+  }
+  return undefined;
+}
+
+// Chains where the token is deployed, in registry order
+export function getTokenChains(token: BridgeToken): ChainConfig[] {
+  return SUPPORTED_CHAINS.filter((chain) => chain.tokens[token] !== undefined);
+}
+
+export function getExplorerTxUrl(chainId: number | undefined, txHash: string): string | undefined {
+  const chain = getChainConfig(chainId);
+  return chain ? `${chain.explorerUrl}/tx/${txHash}` : undefined;
+}
+
+export function getExplorerAddressUrl(chainId: number | undefined, address: string): string | undefined {
+  const chain = getChainConfig(chainId);
+  return chain ? `${chain.explorerUrl}/address/${address}` : undefined;
+}
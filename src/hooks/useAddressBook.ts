@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { loadAddressBook, subscribeAddressBook } from '../lib/addressBook';
+
+// Saved recipients in this browser, updated whenever they change
+export function useAddressBook() {
+  const [entries, setEntries] = useState(loadAddressBook);
+
+  useEffect(() => subscribeAddressBook(() => setEntries(loadAddressBook())), []);
+
+  return entries;
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { loadAddressBookChanges, mergeAddressBook } from '../lib/addressBook';
+import { isAddressBookSyncAvailable, pullAddressBook, pushAddressBookEntries } from '../lib/addressBookSync';
+import { useSession } from './useSession';
+
+// Once a wallet signs in, pull its saved recipients into this browser and
+// upload its entries that only exist here or changed here since
+export function useAddressBookSync() {
+  const { session } = useSession();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSignedIn = isAddressBookSyncAvailable && !!session;
+  const sessionAddress = session?.address;
+
+  useEffect(() => {
+    if (!isAddressBookSyncAvailable || !sessionAddress) return;
+
+    let isCurrent = true;
+    const sync = async () => {
+      setIsSyncing(true);
+      setError(null);
+      try {
+        const remote = await pullAddressBook();
+        mergeAddressBook(remote, sessionAddress);
+
+        const remoteById = new Map(remote.map((entry) => [entry.id, entry]));
+        await pushAddressBookEntries(loadAddressBookChanges().filter((entry) =>
+          (remoteById.get(entry.id)?.updatedAt ?? 0) < entry.updatedAt
+        ));
+      } catch (err) {
+        if (isCurrent) setError(err instanceof Error ? err.message : 'Could not sync address book.');
+      } finally {
+        if (isCurrent) setIsSyncing(false);
+      }
+    };
+    sync();
+    return () => {
+      isCurrent = false;
+    };
+  }, [sessionAddress]);
+
+  return {
+    isAvailable: isAddressBookSyncAvailable,
+    isSignedIn,
+    isSyncing,
+    error,
+  };
+}
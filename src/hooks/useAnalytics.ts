@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { type AnalyticsFilters, loadAnalytics } from '../lib/analytics';
+
+// Dashboard series for the selected range, token and chain
+export function useAnalytics(filters: AnalyticsFilters, enabled = true) {
+  const query = useQuery({
+    queryKey: ['analytics', filters.from.toISOString(), filters.to.toISOString(), filters.token, filters.chainId],
+    queryFn: () => loadAnalytics(filters),
+    enabled,
+    staleTime: 60000,
+    retry: false,
+  });
+
+  return {
+    data: query.data,
+    isLoading: query.isLoading,
+    error: query.error instanceof Error ? query.error.message : null,
+  };
+}
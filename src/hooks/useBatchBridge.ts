@@ -0,0 +1,121 @@
+import { useCallback, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { type BridgeToken, type TransferSpeed } from '../config/chains';
+import { type BatchRowInput, type BatchValidation, validateBatch } from '../lib/batch';
+import { type TransferRecord, getTransfer, isResumable } from '../lib/transferHistory';
+import { type BridgeState, useBridge } from './useBridge';
+
+export type BatchRowStatus = 'pending' | 'running' | 'success' | 'failed';
+
+export interface BatchRow extends BatchRowInput {
+  status: BatchRowStatus;
+  error?: string;
+  receiveTxHash?: string;
+  // Saved transfer, so a row that failed after its burn is resumed instead of sent again
+  transferId?: string;
+}
+
+const newRow = (destinationChainId: number): BatchRow => ({
+  id: crypto.randomUUID(),
+  destinationChainId,
+  amount: '',
+  recipient: '',
+  status: 'pending',
+});
+
+// Several transfers from one source chain, validated together and then run one
+// at a time through useBridge; failed rows can be retried on their own
+export function useBatchBridge(token: BridgeToken, sourceChainId: number, speed: TransferSpeed) {
+  const { address } = useAccount();
+  const { state, bridge, resumeTransfer } = useBridge();
+
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [validation, setValidation] = useState<BatchValidation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activeRowId, setActiveRowId] = useState<string | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+
+  const patchRow = useCallback((id: string, patch: Partial<BatchRow>) => {
+    setRows((prev) => prev.map((row) => (row.id === id ? { ...row, ...patch } : row)));
+  }, []);
+
+  const addRow = useCallback((destinationChainId: number) => {
+    setRows((prev) => [...prev, newRow(destinationChainId)]);
+    setValidation(null);
+  }, []);
+
+  // Editing a row makes it a new transfer again
+  const updateRow = useCallback((id: string, patch: Partial<BatchRowInput>) => {
+    patchRow(id, { ...patch, status: 'pending', error: undefined, transferId: undefined });
+    setValidation(null);
+  }, [patchRow]);
+
+  const removeRow = useCallback((id: string) => {
+    setRows((prev) => prev.filter((row) => row.id !== id));
+    setValidation(null);
+  }, []);
+
+  const runRows = useCallback(async (toRun: BatchRow[]) => {
+    if (!address || toRun.length === 0) return;
+
+    setError(null);
+    setIsValidating(true);
+    // Rows that failed after their burn are resumed from the mint. Their tokens
+    // already left the balance, so only the rows sent anew are checked against it.
+    const resumable = new Map<string, TransferRecord>();
+    let result: BatchValidation | null = null;
+    try {
+      for (const row of toRun) {
+        const record = row.transferId ? await getTransfer(row.transferId) : undefined;
+        if (record && isResumable(record)) resumable.set(row.id, record);
+      }
+      const toSend = toRun.filter((row) => !resumable.has(row.id));
+      if (toSend.length > 0) {
+        result = await validateBatch(toSend, { token, sourceChainId, owner: address });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not check the batch.');
+      return;
+    } finally {
+      setIsValidating(false);
+    }
+    setValidation(result);
+    if (result && !result.canRun) return;
+
+    for (const row of toRun) {
+      setActiveRowId(row.id);
+      patchRow(row.id, { status: 'running', error: undefined });
+
+      const record = resumable.get(row.id);
+      const outcome: BridgeState = record
+        ? await resumeTransfer(record)
+        : await bridge(token, row.amount, sourceChainId, row.destinationChainId, speed, result?.recipients[row.id]);
+
+      patchRow(row.id, outcome.step === 'success'
+        ? { status: 'success', receiveTxHash: outcome.receiveTxHash, transferId: outcome.transferId }
+        : { status: 'failed', error: outcome.error ?? 'Transfer failed', transferId: outcome.transferId });
+    }
+    setActiveRowId(null);
+  }, [address, bridge, patchRow, resumeTransfer, sourceChainId, speed, token]);
+
+  // Run every row that has not succeeded yet
+  const run = useCallback(() => runRows(rows.filter((row) => row.status !== 'success')), [rows, runRows]);
+
+  const retryRow = useCallback((id: string) => runRows(rows.filter((row) => row.id === id)), [rows, runRows]);
+
+  return {
+    rows,
+    addRow,
+    updateRow,
+    removeRow,
+    run,
+    retryRow,
+    validation,
+    error,
+    isValidating,
+    isRunning: activeRowId !== null,
+    activeRowId,
+    // Step of the transfer currently running
+    activeStep: state.step,
+  };
+}
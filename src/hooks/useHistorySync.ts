@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useConnectModal } from '@rainbow-me/rainbowkit';
+import { type Address } from 'viem';
+import { isHistorySyncAvailable, pullTransfers, pushTransfer } from '../lib/historySync';
+import { listTransfers, mergeTransfers } from '../lib/transferHistory';
+import { useSession } from './useSession';
+
+// Cross-device history for the connected wallet. Signing in pulls the wallet's
+// synced transfers into this browser and uploads the ones saved or updated here.
+export function useHistorySync(address: Address | undefined) {
+  const { isAuthenticated } = useSession();
+  const { openConnectModal } = useConnectModal();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSignedIn = isHistorySyncAvailable && isAuthenticated && !!address;
+
+  const sync = useCallback(async (wallet: Address) => {
+    setIsSyncing(true);
+    setError(null);
+    try {
+      const remote = await pullTransfers(wallet);
+      await mergeTransfers(remote);
+
+      // Upload what only exists here or changed here since, such as a step saved while offline
+      const remoteById = new Map(remote.map((record) => [record.id, record]));
+      const changed = (await listTransfers()).filter((record) =>
+        record.address.toLowerCase() === wallet.toLowerCase() &&
+        (remoteById.get(record.id)?.updatedAt ?? 0) < record.updatedAt
+      );
+      for (const record of changed) {
+        await pushTransfer(record);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not sync history.');
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isSignedIn && address) sync(address);
+  }, [isSignedIn, address, sync]);
+
+  return {
+    isAvailable: isHistorySyncAvailable,
+    isSignedIn,
+    isSyncing,
+    error,
+    // RainbowKit's connect modal asks a connected wallet to sign in
+    signIn: openConnectModal,
+  };
+}
@@ -0,0 +1,40 @@
+import { useQueries } from '@tanstack/react-query';
+import { type Address } from 'viem';
+import { SUPPORTED_CHAINS } from '../config/chains';
+import { readChainPortfolio, type ChainPortfolio } from '../lib/balances';
+
+export interface PortfolioRow {
+  chainId: number;
+  data?: ChainPortfolio;
+  isLoading: boolean;
+  error: string;
+}
+
+// USDC and native gas balances for the connected address on every supported chain
+export function usePortfolio(address: Address | undefined) {
+  const results = useQueries({
+    queries: SUPPORTED_CHAINS.map((chain) => ({
+      queryKey: ['portfolio', chain.id, address],
+      queryFn: () => readChainPortfolio(chain.id, address!),
+      enabled: !!address,
+      refetchInterval: 30000,
+      retry: false,
+    })),
+  });
+
+  const rows: PortfolioRow[] = SUPPORTED_CHAINS.map((chain, index) => ({
+    chainId: chain.id,
+    data: results[index].data,
+    isLoading: !!address && results[index].isLoading,
+    error: results[index].error ? 'Unable to fetch balance.' : '',
+  }));
+
+  const totalUsdc = rows.reduce((sum, row) => sum + (row.data ? parseFloat(row.data.usdc.formatted) : 0), 0);
+
+  return {
+    rows,
+    totalUsdc,
+    isLoading: rows.some((row) => row.isLoading),
+    refetch: () => Promise.all(results.map((result) => result.refetch())),
+  };
+}
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query';
+import { type Address } from 'viem';
+import { type BridgeToken } from '../config/chains';
+import { runPreflight } from '../lib/preflight';
+
+interface UsePreflightParams {
+  token: BridgeToken;
+  amount: string;
+  sourceChainId: number;
+  destinationChainId: number;
+  owner: Address | undefined;
+}
+
+// Pre-flight checks for the transfer being composed, refreshed as balances change
+export function usePreflight({ token, amount, sourceChainId, destinationChainId, owner }: UsePreflightParams) {
+  const enabled = !!owner && parseFloat(amount) > 0;
+
+  const query = useQuery({
+    queryKey: ['preflight', token, amount, sourceChainId, destinationChainId, owner],
+    queryFn: () => runPreflight({ token, amount, sourceChainId, destinationChainId, owner: owner! }),
+    enabled,
+    refetchInterval: 15000,
+    retry: false,
+  });
+
+  return {
+    issues: enabled ? query.data?.issues ?? [] : [],
+    canBridge: !enabled || (query.data?.canBridge ?? true),
+    isChecking: enabled && query.isFetching && !query.data,
+  };
+}
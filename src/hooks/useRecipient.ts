@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { checkRecipient } from '../lib/recipient';
+
+// Validate and resolve the optional recipient once the user stops typing.
+// An empty input means "send to the connected wallet".
+export function useRecipient(input: string, destinationChainId: number) {
+  const [debouncedInput, setDebouncedInput] = useState(input.trim());
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedInput(input.trim()), 400);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const isEmpty = input.trim() === '';
+  const isSettled = debouncedInput === input.trim();
+
+  const query = useQuery({
+    queryKey: ['recipient', debouncedInput, destinationChainId],
+    queryFn: () => checkRecipient(debouncedInput, destinationChainId),
+    enabled: !isEmpty && isSettled,
+    staleTime: 60000,
+    retry: false,
+  });
+
+  // Ignore results for input the user has since changed
+  const data = !isEmpty && isSettled ? query.data : undefined;
+
+  return {
+    isEmpty,
+    isChecking: !isEmpty && (!isSettled || query.isFetching),
+    address: data?.address ?? null,
+    ensName: data?.ensName,
+    error: query.error && isSettled ? 'Unable to check this recipient right now.' : data?.error,
+    warning: data?.warning,
+  };
+}
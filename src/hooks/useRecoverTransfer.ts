@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAccount, useSwitchChain, useWriteContract } from 'wagmi';
+import { type Hex } from 'viem';
+import { type BridgeStage, toBridgeError } from '../lib/bridgeErrors';
+import { fetchAttestation, isMessageReceived, readBurnMessage } from '../lib/cctp';
+import { getCctpContracts, messageTransmitterAbi } from '../lib/cctpProtocol';
+import { listTransfers, saveTransfer, withStep } from '../lib/transferHistory';
+import { withRpcFailover } from '../lib/rpc';
+
+export type RecoverStep =
+  | 'idle'
+  | 'reading-burn'
+  | 'fetching-attestation'
+  | 'switching-network'
+  | 'receiving'
+  | 'success'
+  | 'error';
+
+export interface RecoverState {
+  step: RecoverStep;
+  error: string | null;
+  destinationChainId?: number;
+  receiveTxHash?: string;
+  // The message had already been received before this recovery ran
+  alreadyReceived?: boolean;
+}
+
+// Finish a CCTP transfer from its burn transaction: read the MessageSent event,
+// wait for Circle's attestation and submit receiveMessage on the destination chain
+export function useRecoverTransfer() {
+  const { isConnected, chainId } = useAccount();
+  const { switchChainAsync } = useSwitchChain();
+  const { writeContractAsync } = useWriteContract();
+
+  const [state, setState] = useState<RecoverState>({ step: 'idle', error: null });
+  // Cancels the running recovery, so attestation polling stops on unmount or reset
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const recover = useCallback(async (sourceChainId: number, burnTxHash: Hex): Promise<void> => {
+    if (!isConnected) {
+      setState({ step: 'error', error: 'Please connect your wallet first' });
+      return;
+    }
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    let stage: BridgeStage = 'source';
+    let destinationChainId: number | undefined;
+
+    try {
+      setState({ step: 'reading-burn', error: null });
+      const burn = await readBurnMessage(sourceChainId, burnTxHash);
+      destinationChainId = burn.destinationChainId;
+
+      stage = 'attestation';
+      setState({ step: 'fetching-attestation', error: null, destinationChainId });
+      const { message, attestation, eventNonce } = await fetchAttestation(burn.sourceDomain, burnTxHash, { signal: controller.signal });
+
+      if (await isMessageReceived(destinationChainId, eventNonce)) {
+        setState({ step: 'success', error: null, destinationChainId, alreadyReceived: true });
+        return;
+      }
+
+      stage = 'mint';
+      if (chainId !== destinationChainId) {
+        setState({ step: 'switching-network', error: null, destinationChainId });
+        await switchChainAsync({ chainId: destinationChainId });
+      }
+
+      setState({ step: 'receiving', error: null, destinationChainId });
+      const receiveTxHash = await writeContractAsync({
+        chainId: destinationChainId,
+        address: getCctpContracts(destinationChainId).messageTransmitter,
+        abi: messageTransmitterAbi,
+        functionName: 'receiveMessage',
+        args: [message, attestation],
+      });
+
+      const receipt = await withRpcFailover(destinationChainId, (client) =>
+        client.waitForTransactionReceipt({ hash: receiveTxHash })
+      );
+      if (receipt.status !== 'success') {
+        throw new Error('The receive transaction reverted on the destination chain.');
+      }
+
+      // Close out the matching history entry, if this browser started the transfer
+      const record = (await listTransfers()).find(
+        (entry) => entry.sourceTxHash?.toLowerCase() === burnTxHash.toLowerCase()
+      );
+      if (record) {
+        const mint = withStep(record, { name: 'mint', state: 'success', txHash: receiveTxHash, timestamp: Date.now() });
+        await saveTransfer({ ...mint, status: 'completed', error: undefined });
+      }
+
+      setState({ step: 'success', error: null, destinationChainId, receiveTxHash });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Recover transfer error:', err);
+
+      const recoverError = toBridgeError(err, {
+        // CCTP only moves USDC
+        token: 'USDC',
+        sourceChainId,
+        destinationChainId: destinationChainId ?? sourceChainId,
+        stage,
+        inTransit: true,
+      });
+
+      setState((prev) => ({
+        ...prev,
+        step: 'error',
+        error: recoverError.kind === 'user-rejected'
+          ? 'Transaction was cancelled. Your tokens are still in transit and can be recovered later.'
+          : recoverError.message,
+      }));
+    }
+  }, [chainId, isConnected, switchChainAsync, writeContractAsync]);
+
+  const reset = useCallback(() => {
+    abortRef.current?.abort();
+    setState({ step: 'idle', error: null });
+  }, []);
+
+  return { state, recover, reset };
+}
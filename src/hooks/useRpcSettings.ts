@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { loadRpcSettings, subscribeRpcSettings } from '../lib/rpcSettings';
+
+// Custom RPC endpoints saved in this browser, updated whenever they change
+export function useRpcSettings() {
+  const [settings, setSettings] = useState(loadRpcSettings);
+
+  useEffect(() => subscribeRpcSettings(() => setSettings(loadRpcSettings())), []);
+
+  return settings;
+}
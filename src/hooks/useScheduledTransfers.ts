@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { type Schedule, findDueRuns } from '../lib/scheduling';
+import { logScheduleRun } from '../lib/schedules';
+import { useBridge } from './useBridge';
+import { useSchedules } from './useSchedules';
+
+// How often due schedules are checked while the app is open
+const CHECK_INTERVAL_MS = 30000;
+
+export interface DueSchedule {
+  schedule: Schedule;
+  dueAt: number;
+}
+
+// Schedules that are due while the app is open. Nothing runs on its own: the
+// user confirms each run, which goes through useBridge like a manual transfer.
+// Runs nobody confirmed within the grace period are logged as missed.
+export function useScheduledTransfers() {
+  const { schedules, runs } = useSchedules();
+  const { state, bridge } = useBridge();
+  const [now, setNow] = useState(Date.now);
+  const [activeScheduleId, setActiveScheduleId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const dueRuns = useMemo(
+    () => schedules
+      .filter((schedule) => schedule.enabled && schedule.id !== activeScheduleId)
+      .map((schedule) => ({ schedule, ...findDueRuns(schedule, now) })),
+    [schedules, now, activeScheduleId]
+  );
+
+  // Logging moves each schedule past its missed runs, so this settles after one pass
+  useEffect(() => {
+    for (const { schedule, missed } of dueRuns) {
+      if (missed.length === 0) continue;
+      logScheduleRun({
+        scheduleId: schedule.id,
+        status: 'missed',
+        dueAt: missed[missed.length - 1],
+        missedCount: missed.length,
+        runner: 'app',
+      });
+    }
+  }, [dueRuns]);
+
+  const due: DueSchedule[] = dueRuns.flatMap(({ schedule, due: dueAt }) => (dueAt !== null ? [{ schedule, dueAt }] : []));
+
+  const run = useCallback(async ({ schedule, dueAt }: DueSchedule) => {
+    setActiveScheduleId(schedule.id);
+    try {
+      const outcome = await bridge(
+        schedule.token,
+        schedule.amount,
+        schedule.sourceChainId,
+        schedule.destinationChainId,
+        schedule.speed,
+        schedule.recipient
+      );
+      logScheduleRun({
+        scheduleId: schedule.id,
+        status: outcome.step === 'success' ? 'executed' : 'failed',
+        dueAt,
+        runner: 'app',
+        transferId: outcome.transferId,
+        sourceTxHash: outcome.sourceTxHash,
+        receiveTxHash: outcome.receiveTxHash,
+        error: outcome.error ?? undefined,
+      });
+    } finally {
+      setActiveScheduleId(null);
+    }
+  }, [bridge]);
+
+  const skip = useCallback(({ schedule, dueAt }: DueSchedule) => {
+    logScheduleRun({ scheduleId: schedule.id, status: 'skipped', dueAt, runner: 'app' });
+  }, []);
+
+  return {
+    schedules,
+    runs,
+    due,
+    run,
+    skip,
+    isRunning: activeScheduleId !== null,
+    activeSchedule: schedules.find((schedule) => schedule.id === activeScheduleId),
+    // Step of the scheduled transfer currently running
+    activeStep: state.step,
+  };
+}
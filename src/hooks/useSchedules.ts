@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { loadScheduleRuns, loadSchedules, subscribeSchedules } from '../lib/schedules';
+
+// Scheduled transfers saved in this browser and their run log, updated whenever they change
+export function useSchedules() {
+  const [schedules, setSchedules] = useState(loadSchedules);
+  const [runs, setRuns] = useState(loadScheduleRuns);
+
+  useEffect(() => subscribeSchedules(() => {
+    setSchedules(loadSchedules());
+    setRuns(loadScheduleRuns());
+  }), []);
+
+  return { schedules, runs };
+}
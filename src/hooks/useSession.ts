@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { isSessionEnabled, isSessionFor, loadSession, signOut, subscribeSession } from '../lib/session';
+
+export type SessionStatus = 'authenticated' | 'unauthenticated';
+
+// Sign-In with Ethereum session for the connected wallet. A session signed by
+// another wallet, or one that has expired, counts as signed out.
+export function useSession() {
+  const { address } = useAccount();
+  const [session, setSession] = useState(loadSession);
+
+  useEffect(() => subscribeSession(() => setSession(loadSession())), []);
+
+  // loadSession() clears the session once it expires, which notifies the subscription
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(loadSession, Math.max(session.expiresAt - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const isAuthenticated = isSessionEnabled && !!session && isSessionFor(address);
+  const status: SessionStatus = isAuthenticated ? 'authenticated' : 'unauthenticated';
+
+  return {
+    status,
+    session: isAuthenticated ? session : null,
+    isAuthenticated,
+    isEnabled: isSessionEnabled,
+    signOut,
+  };
+}
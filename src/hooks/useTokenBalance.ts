@@ -0,0 +1,33 @@
+import { useQuery } from '@tanstack/react-query';
+import { type Address } from 'viem';
+import { type BridgeToken, getChainToken } from '../config/chains';
+import { readTokenBalance } from '../lib/balances';
+
+export function useTokenBalance(chainId: number | undefined, token: BridgeToken, address: Address | undefined) {
+  const enabled = !!address && chainId !== undefined && !!getChainToken(chainId, token);
+
+  const query = useQuery({
+    queryKey: ['token-balance', chainId, token, address],
+    queryFn: () => readTokenBalance(chainId!, token, address!),
+    enabled,
+    // Refresh every 5 seconds
+    refetchInterval: 5000,
+    retry: false,
+  });
+
+  let error = '';
+  if (query.error) {
+    const message = query.error.message;
+    error = message.includes('timeout') || message.includes('took too long')
+      ? 'RPC timeout - balance may not be accurate.'
+      : 'Unable to fetch balance.';
+  }
+
+  return {
+    balance: query.data?.formatted ?? '0',
+    rawBalance: query.data?.raw,
+    isLoading: enabled && query.isLoading,
+    error,
+    refetch: query.refetch,
+  };
+}
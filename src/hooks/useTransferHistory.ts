@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { type Address } from 'viem';
+import { type TransferRecord, isResumable, listTransfers, subscribeTransfers } from '../lib/transferHistory';
+
+// Transfers saved in this browser for the connected address, newest first
+export function useTransferHistory(address: Address | undefined) {
+  const [transfers, setTransfers] = useState<TransferRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!address) {
+      setTransfers([]);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const load = () => {
+      listTransfers()
+        .then((records) => {
+          if (cancelled) return;
+          setTransfers(records.filter((record) => record.address.toLowerCase() === address.toLowerCase()));
+        })
+        .catch((err) => console.warn('Failed to load transfer history:', err))
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    };
+
+    load();
+    const unsubscribe = subscribeTransfers(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [address]);
+
+  return {
+    transfers,
+    resumable: transfers.filter(isResumable),
+    isLoading,
+  };
+}
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { type Hex } from 'viem';
+import { lookupTransfer } from '../lib/transferLookup';
+
+// Status of a transfer by its burn transaction, refreshed until the mint lands
+export function useTransferLookup(sourceChainId: number, burnTxHash: Hex) {
+  const query = useQuery({
+    queryKey: ['transfer-lookup', sourceChainId, burnTxHash],
+    queryFn: () => lookupTransfer(sourceChainId, burnTxHash),
+    refetchInterval: (current) => (current.state.data?.minted ? false : 15000),
+    retry: false,
+  });
+
+  return {
+    lookup: query.data,
+    isLoading: query.isLoading,
+    isRefreshing: query.isFetching && !query.isLoading,
+    error: query.error instanceof Error ? query.error.message : null,
+    refresh: query.refetch,
+  };
+}
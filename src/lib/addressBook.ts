@@ -0,0 +1,160 @@
+import { type Address, getAddress, isAddress, isAddressEqual } from 'viem';
+import { getChainConfig, getChainName } from '../config/chains';
+import { pushAddressBookEntries } from './addressBookSync';
+import { loadSession } from './session';
+
+// A saved recipient and the chains it may receive on
+export interface AddressBookEntry {
+  id: string;
+  label: string;
+  address: Address;
+  chainIds: number[];
+  updatedAt: number;
+  // Removed entries are kept until they sync, so other devices drop them too
+  deletedAt?: number;
+  // Signed-in wallet that saved or synced the entry. Only its own entries are
+  // uploaded for a wallet, and entries saved while signed out stay in this browser.
+  owner?: Address;
+}
+
+export interface AddressBookImport {
+  entries: Pick<AddressBookEntry, 'label' | 'address' | 'chainIds'>[];
+  errors: string[];
+}
+
+const STORAGE_KEY = 'address-book';
+const EXPORT_VERSION = 1;
+
+let book: AddressBookEntry[] | null = null;
+const listeners = new Set<() => void>();
+
+function loadAll(): AddressBookEntry[] {
+  if (!book) {
+    try {
+      book = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as AddressBookEntry[];
+    } catch {
+      book = [];
+    }
+  }
+  return book;
+}
+
+function saveAll(next: AddressBookEntry[]) {
+  book = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach((listener) => listener());
+}
+
+// The local copy is the source of truth; a failed upload is retried on the next sync
+function upload(entries: AddressBookEntry[]) {
+  pushAddressBookEntries(entries).catch((err) => console.warn('Failed to sync address book:', err));
+}
+
+// Saved entries sorted by label, without removed ones
+export function loadAddressBook(): AddressBookEntry[] {
+  return loadAll()
+    .filter((entry) => !entry.deletedAt)
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+// Every entry including removals, for syncing
+export function loadAddressBookChanges(): AddressBookEntry[] {
+  return loadAll();
+}
+
+export function subscribeAddressBook(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Add an entry, or update the one saved for the same address
+export function saveAddressBookEntry(entry: Pick<AddressBookEntry, 'label' | 'address' | 'chainIds'>): AddressBookEntry {
+  const existing = findAddressBookEntry(entry.address);
+  const saved: AddressBookEntry = {
+    id: existing?.id ?? crypto.randomUUID(),
+    label: entry.label.trim(),
+    address: getAddress(entry.address),
+    chainIds: [...new Set(entry.chainIds)],
+    updatedAt: Date.now(),
+    owner: loadSession()?.address ?? existing?.owner,
+  };
+  saveAll([...loadAll().filter((e) => e.id !== saved.id), saved]);
+  upload([saved]);
+  return saved;
+}
+
+export function removeAddressBookEntry(id: string) {
+  const now = Date.now();
+  const removed = loadAll().filter((entry) => entry.id === id).map((entry) => ({ ...entry, deletedAt: now, updatedAt: now }));
+  saveAll([...loadAll().filter((entry) => entry.id !== id), ...removed]);
+  upload(removed);
+}
+
+// Store entries synced from another device for the wallet that owns them,
+// keeping whichever copy changed last
+export function mergeAddressBook(entries: AddressBookEntry[], owner: Address) {
+  const byId = new Map(loadAll().map((entry) => [entry.id, entry]));
+  let changed = false;
+  for (const entry of entries) {
+    const local = byId.get(entry.id);
+    if (!local || local.updatedAt < entry.updatedAt) {
+      byId.set(entry.id, { ...entry, owner });
+      changed = true;
+    }
+  }
+  if (changed) saveAll([...byId.values()]);
+}
+
+export function findAddressBookEntry(address: string | null | undefined): AddressBookEntry | undefined {
+  if (!address || !isAddress(address, { strict: false })) return undefined;
+  return loadAddressBook().find((entry) => isAddressEqual(entry.address, address));
+}
+
+// Set when an entry is used on a chain it was not saved for
+export function getAddressBookChainWarning(entry: AddressBookEntry, chainId: number): string | undefined {
+  if (entry.chainIds.includes(chainId)) return undefined;
+  const tagged = entry.chainIds.map(getChainName).join(', ') || 'no chains';
+  return `"${entry.label}" is saved for ${tagged}, not ${getChainName(chainId)}. Make sure this address can receive funds there.`;
+}
+
+export function exportAddressBook(): string {
+  const entries = loadAddressBook().map(({ label, address, chainIds }) => ({ label, address, chainIds }));
+  return JSON.stringify({ version: EXPORT_VERSION, entries }, null, 2);
+}
+
+// Read an exported address book, or a bare array of entries. Invalid entries
+// are reported and skipped so one typo does not block the rest.
+export function parseAddressBookImport(json: string): AddressBookImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { entries: [], errors: ['The file is not valid JSON.'] };
+  }
+
+  const items = Array.isArray(data) ? data : (data as { entries?: unknown } | null)?.entries;
+  if (!Array.isArray(items)) {
+    return { entries: [], errors: ['Expected a list of entries.'] };
+  }
+
+  const result: AddressBookImport = { entries: [], errors: [] };
+  items.forEach((item: { label?: unknown; address?: unknown; chainIds?: unknown }, index) => {
+    const name = `Entry ${index + 1}`;
+    if (typeof item?.label !== 'string' || !item.label.trim()) {
+      result.errors.push(`${name} has no label.`);
+    } else if (typeof item.address !== 'string' || !isAddress(item.address, { strict: true })) {
+      result.errors.push(`${name} ("${item.label}") has an invalid or mis-checksummed address.`);
+    } else if (!Array.isArray(item.chainIds) || item.chainIds.some((id) => !getChainConfig(Number(id)))) {
+      result.errors.push(`${name} ("${item.label}") lists a chain this bridge does not support.`);
+    } else {
+      result.entries.push({ label: item.label, address: item.address, chainIds: item.chainIds.map(Number) });
+    }
+  });
+  return result;
+}
+
+export function importAddressBook(entries: AddressBookImport['entries']) {
+  entries.forEach(saveAddressBookEntry);
+}
@@ -0,0 +1,75 @@
+import { type Address } from 'viem';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStorage } from '../test/memoryStorage';
+
+const WALLET_A: Address = '0xaAaAaAaaAaAaAaaAaAAAAAAAAaaaAaAaAaaAaaAa';
+const WALLET_B: Address = '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB';
+const ALICE: Address = '0x1111111111111111111111111111111111111111';
+const BOB: Address = '0x2222222222222222222222222222222222222222';
+
+// Only the upsert the push sends is looked at; the session backend needs a client to exist
+const upsert = vi.hoisted(() => vi.fn<(rows: { address: string }[]) => Promise<{ error: null }>>(async () => ({ error: null })));
+vi.mock('./supabase', () => ({ supabase: { from: () => ({ upsert }) } }));
+
+let storage: Storage;
+
+// Sign a wallet in on this browser and load the modules fresh, as after a reload
+async function signInAs(address: Address) {
+  storage.setItem('siwe-session', JSON.stringify({ address, chainId: 1, issuedAt: Date.now(), expiresAt: Date.now() + 60_000 }));
+  vi.resetModules();
+  return {
+    book: await import('./addressBook'),
+    sync: await import('./addressBookSync'),
+  };
+}
+
+const uploaded = () => upsert.mock.calls.map(([rows]) => rows.map((row) => row.address));
+
+beforeEach(() => {
+  storage = createMemoryStorage();
+  vi.stubGlobal('localStorage', storage);
+  vi.stubEnv('VITE_SIWE_ENABLED', 'true');
+  upsert.mockClear();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('pushAddressBookEntries', () => {
+  it("uploads only the signed-in wallet's entries from a shared browser", async () => {
+    const asA = await signInAs(WALLET_A);
+    const alice = asA.book.saveAddressBookEntry({ label: 'Alice', address: ALICE, chainIds: [] });
+    expect(alice.owner).toBe(WALLET_A);
+    await vi.waitFor(() => expect(uploaded()).toEqual([[ALICE]]));
+
+    upsert.mockClear();
+    const asB = await signInAs(WALLET_B);
+    await asB.sync.pushAddressBookEntries(asB.book.loadAddressBookChanges());
+    expect(upsert).not.toHaveBeenCalled();
+
+    asB.book.saveAddressBookEntry({ label: 'Bob', address: BOB, chainIds: [] });
+    await vi.waitFor(() => expect(uploaded()).toEqual([[BOB]]));
+    // Both stay in this browser's book
+    expect(asB.book.loadAddressBook().map((entry) => entry.label)).toEqual(['Alice', 'Bob']);
+  });
+
+  it('keeps entries saved while signed out in this browser', async () => {
+    vi.resetModules();
+    const book = await import('./addressBook');
+    expect(book.saveAddressBookEntry({ label: 'Alice', address: ALICE, chainIds: [] }).owner).toBeUndefined();
+
+    const asA = await signInAs(WALLET_A);
+    await asA.sync.pushAddressBookEntries(asA.book.loadAddressBookChanges());
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  it('gives pulled entries to the wallet they were pulled for', async () => {
+    const asB = await signInAs(WALLET_B);
+    asB.book.mergeAddressBook([{ id: 'bob', label: 'Bob', address: BOB, chainIds: [], updatedAt: 1 }], WALLET_B);
+
+    await asB.sync.pushAddressBookEntries(asB.book.loadAddressBookChanges());
+    expect(uploaded()).toEqual([[BOB]]);
+  });
+});
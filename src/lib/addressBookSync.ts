@@ -0,0 +1,56 @@
+import { type Address, isAddressEqual } from 'viem';
+import type { AddressBookEntry } from './addressBook';
+import { isSessionSyncAvailable, loadSession } from './session';
+import { supabase } from './supabase';
+
+// Row in `address_book` (see supabase/address_book.sql)
+interface AddressBookRow {
+  id: string;
+  label: string;
+  address: string;
+  chain_ids: number[];
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+const toRow = (entry: AddressBookEntry): AddressBookRow => ({
+  id: entry.id,
+  label: entry.label,
+  address: entry.address,
+  chain_ids: entry.chainIds,
+  updated_at: new Date(entry.updatedAt).toISOString(),
+  deleted_at: entry.deletedAt ? new Date(entry.deletedAt).toISOString() : null,
+});
+
+const toEntry = (row: AddressBookRow): AddressBookEntry => ({
+  id: row.id,
+  label: row.label,
+  address: row.address as Address,
+  chainIds: row.chain_ids,
+  updatedAt: Date.parse(row.updated_at),
+  deletedAt: row.deleted_at ? Date.parse(row.deleted_at) : undefined,
+});
+
+// Entries belong to the signed-in wallet; without a session they stay in this browser
+export const isAddressBookSyncAvailable = isSessionSyncAvailable;
+
+// Upload the signed-in wallet's own entries. The local book is shared by every
+// wallet used in this browser, so entries of other wallets are left out.
+export async function pushAddressBookEntries(entries: AddressBookEntry[]): Promise<void> {
+  const session = loadSession();
+  if (!supabase || !isAddressBookSyncAvailable || !session) return;
+
+  const owned = entries.filter((entry) => entry.owner && isAddressEqual(entry.owner, session.address));
+  if (owned.length === 0) return;
+
+  const { error } = await supabase.from('address_book').upsert(owned.map(toRow), { onConflict: 'owner_id,id' });
+  if (error) throw new Error(`Could not sync address book: ${error.message}`);
+}
+
+export async function pullAddressBook(): Promise<AddressBookEntry[]> {
+  if (!supabase || !isAddressBookSyncAvailable || !loadSession()) return [];
+
+  const { data, error } = await supabase.from('address_book').select('*');
+  if (error) throw new Error(`Could not load synced address book: ${error.message}`);
+  return (data as AddressBookRow[]).map(toEntry);
+}
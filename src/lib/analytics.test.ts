@@ -0,0 +1,120 @@
+import { parseUnits } from 'viem';
+import { describe, expect, it } from 'vitest';
+import { ARC_CHAIN_ID, getChainName, getChainToken, SEPOLIA_CHAIN_ID, SUPPORTED_CHAINS } from '../config/chains';
+import { type AnalyticsFilters, summarizeTransfers, type TransferRow } from './analytics';
+
+const BASE_SEPOLIA_CHAIN_ID = 84532;
+
+const route = (sourceChainId: number, destinationChainId: number) => `${getChainName(sourceChainId)} → ${getChainName(destinationChainId)}`;
+const SEPOLIA_TO_ARC = route(SEPOLIA_CHAIN_ID, ARC_CHAIN_ID);
+const ARC_TO_BASE = route(ARC_CHAIN_ID, BASE_SEPOLIA_CHAIN_ID);
+const BASE_TO_SEPOLIA = route(BASE_SEPOLIA_CHAIN_ID, SEPOLIA_CHAIN_ID);
+
+function transfer(
+  sourceChainId: number | null,
+  destinationChainId: number,
+  amount: string,
+  burnedAt: string,
+  { status = 'minted', mintedAt = null, token = 'USDC' }: { status?: TransferRow['status']; mintedAt?: string | null; token?: 'USDC' | 'EURC' } = {}
+): TransferRow {
+  return {
+    status,
+    source_chain_id: sourceChainId,
+    destination_chain_id: destinationChainId,
+    burn_token: getChainToken(sourceChainId ?? SEPOLIA_CHAIN_ID, token)!.contractAddress,
+    amount: parseUnits(amount, 6).toString(),
+    burned_at: burnedAt,
+    minted_at: mintedAt,
+  };
+}
+
+// Three days of indexed transfers, plus rows the filters must leave out
+const ROWS: TransferRow[] = [
+  transfer(SEPOLIA_CHAIN_ID, ARC_CHAIN_ID, '100', '2026-03-01T10:00:00.000Z', { mintedAt: '2026-03-01T10:20:00.000Z' }),
+  transfer(SEPOLIA_CHAIN_ID, ARC_CHAIN_ID, '50', '2026-03-02T09:00:00.000Z', { mintedAt: '2026-03-02T09:10:00.000Z' }),
+  transfer(ARC_CHAIN_ID, BASE_SEPOLIA_CHAIN_ID, '25', '2026-03-02T12:00:00.000Z', { status: 'attested' }),
+  transfer(SEPOLIA_CHAIN_ID, ARC_CHAIN_ID, '5', '2026-03-03T08:00:00.000Z', { status: 'burned' }),
+  transfer(BASE_SEPOLIA_CHAIN_ID, SEPOLIA_CHAIN_ID, '10', '2026-03-03T23:00:00.000Z', { status: 'burned' }),
+  // Before the range
+  transfer(SEPOLIA_CHAIN_ID, ARC_CHAIN_ID, '1000', '2026-02-28T23:59:59.000Z'),
+  // At the exclusive end of the range
+  transfer(SEPOLIA_CHAIN_ID, ARC_CHAIN_ID, '1000', '2026-03-04T00:00:00.000Z'),
+  // Another token, and a source chain the registry does not list
+  transfer(SEPOLIA_CHAIN_ID, ARC_CHAIN_ID, '1000', '2026-03-02T10:00:00.000Z', { token: 'EURC' }),
+  transfer(null, ARC_CHAIN_ID, '1000', '2026-03-02T10:00:00.000Z'),
+];
+
+const FILTERS: AnalyticsFilters = { from: new Date('2026-03-01T00:00:00Z'), to: new Date('2026-03-04T00:00:00Z'), token: 'USDC' };
+const NOW = Date.parse('2026-03-04T00:00:00Z');
+
+describe('summarizeTransfers', () => {
+  it('only counts transfers of the token inside the date range', () => {
+    const summary = summarizeTransfers(ROWS, FILTERS, NOW);
+
+    expect(summary.totalTransfers).toBe(5);
+    expect(summary.totalVolume).toBe(190);
+  });
+
+  it('buckets volume per day and route, busiest route first', () => {
+    const summary = summarizeTransfers(ROWS, FILTERS, NOW);
+
+    expect(summary.routes).toEqual([SEPOLIA_TO_ARC, ARC_TO_BASE, BASE_TO_SEPOLIA]);
+    expect(summary.dailyVolume).toEqual([
+      { day: '2026-03-01', [SEPOLIA_TO_ARC]: 100, [ARC_TO_BASE]: 0, [BASE_TO_SEPOLIA]: 0 },
+      { day: '2026-03-02', [SEPOLIA_TO_ARC]: 50, [ARC_TO_BASE]: 25, [BASE_TO_SEPOLIA]: 0 },
+      { day: '2026-03-03', [SEPOLIA_TO_ARC]: 5, [ARC_TO_BASE]: 0, [BASE_TO_SEPOLIA]: 10 },
+    ]);
+    expect(summary.dailyCounts).toEqual([
+      { day: '2026-03-01', transfers: 1, completed: 1 },
+      { day: '2026-03-02', transfers: 2, completed: 1 },
+      { day: '2026-03-03', transfers: 2, completed: 0 },
+    ]);
+  });
+
+  it('keeps quiet days in the series', () => {
+    const summary = summarizeTransfers([], { ...FILTERS, to: new Date('2026-03-03T00:00:00Z') }, NOW);
+
+    expect(summary.dailyCounts).toEqual([
+      { day: '2026-03-01', transfers: 0, completed: 0 },
+      { day: '2026-03-02', transfers: 0, completed: 0 },
+    ]);
+    expect(summary.failures.map((entry) => entry.rate)).toEqual([0, 0]);
+  });
+
+  it('sums routes beyond the busiest six as Other', () => {
+    const destinations = SUPPORTED_CHAINS.filter((chain) => chain.id !== SEPOLIA_CHAIN_ID).slice(0, 8);
+    const rows = destinations.map((chain, index) => transfer(SEPOLIA_CHAIN_ID, chain.id, String(80 - index * 10), '2026-03-02T10:00:00.000Z'));
+
+    const summary = summarizeTransfers(rows, FILTERS, NOW);
+
+    expect(summary.routes).toHaveLength(7);
+    expect(summary.routes.slice(0, 6)).toEqual(destinations.slice(0, 6).map((chain) => route(SEPOLIA_CHAIN_ID, chain.id)));
+    expect(summary.routes[6]).toBe('Other');
+    expect(summary.dailyVolume[1].Other).toBe(20 + 10);
+  });
+
+  it('limits transfers to those leaving or arriving on the chain filter', () => {
+    const summary = summarizeTransfers(ROWS, { ...FILTERS, chainId: BASE_SEPOLIA_CHAIN_ID }, NOW);
+
+    expect(summary.routes).toEqual([ARC_TO_BASE, BASE_TO_SEPOLIA]);
+    expect(summary.totalTransfers).toBe(2);
+    expect(summary.totalVolume).toBe(35);
+  });
+
+  it('reports the median completion time per source chain', () => {
+    const summary = summarizeTransfers(ROWS, FILTERS, NOW);
+
+    expect(summary.completionTimes).toEqual([{ chain: getChainName(SEPOLIA_CHAIN_ID), medianMinutes: 15, transfers: 2 }]);
+  });
+
+  it('counts transfers stuck at each step against those that reached it', () => {
+    const summary = summarizeTransfers(ROWS, FILTERS, NOW);
+
+    // The burn from 16 hours ago is past the attestation limit, the one from an hour ago is not.
+    // The attested transfer has waited 36 hours to be minted.
+    expect(summary.failures).toEqual([
+      { step: 'waiting-attestation', reached: 5, stuck: 1, rate: 0.2 },
+      { step: 'waiting-receive-message', reached: 3, stuck: 1, rate: 1 / 3 },
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+import { formatUnits } from 'viem';
+import { type BridgeToken, getChainName, getTokenByAddress } from '../config/chains';
+import { type BridgeStep } from '../hooks/useBridge';
+import { supabase } from './supabase';
+
+export interface AnalyticsFilters {
+  from: Date;
+  // Exclusive end of the range
+  to: Date;
+  token: BridgeToken;
+  // Transfers leaving or arriving on this chain; all chains when unset
+  chainId?: number;
+}
+
+// Columns of the indexer's `transfers` table used by the dashboard (see indexer/schema.sql)
+export interface TransferRow {
+  status: 'burned' | 'attested' | 'minted';
+  source_chain_id: number | null;
+  destination_chain_id: number | null;
+  burn_token: string;
+  amount: string;
+  burned_at: string;
+  minted_at: string | null;
+}
+
+export interface AnalyticsData {
+  // One entry per day with the volume of each route, keyed by route label
+  dailyVolume: Record<string, number | string>[];
+  routes: string[];
+  dailyCounts: { day: string; transfers: number; completed: number }[];
+  completionTimes: { chain: string; medianMinutes: number; transfers: number }[];
+  failures: { step: BridgeStep; reached: number; stuck: number; rate: number }[];
+  totalVolume: number;
+  totalTransfers: number;
+  // More rows matched than were loaded
+  isTruncated: boolean;
+}
+
+const PAGE_SIZE = 1000;
+const MAX_ROWS = 20000;
+// Routes beyond the busiest ones are summed as "Other" to keep the chart readable
+const MAX_ROUTES = 6;
+// How long a transfer may sit at a step before it counts as failed there
+const STUCK_AFTER_MS: Partial<Record<BridgeStep, number>> = {
+  'waiting-attestation': 2 * 60 * 60 * 1000,
+  'waiting-receive-message': 24 * 60 * 60 * 1000,
+};
+
+const toDay = (timestamp: string) => timestamp.slice(0, 10);
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Every day in the range, so quiet days show as zero instead of being skipped
+function listDays(from: Date, to: Date): string[] {
+  const days: string[] = [];
+  for (let day = new Date(from); day < to; day.setUTCDate(day.getUTCDate() + 1)) {
+    days.push(day.toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+export async function fetchIndexedTransfers({ from, to, chainId }: AnalyticsFilters): Promise<{ rows: TransferRow[]; isTruncated: boolean }> {
+  if (!supabase) {
+    throw new Error('Analytics need VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY.');
+  }
+
+  const rows: TransferRow[] = [];
+  while (rows.length < MAX_ROWS) {
+    let query = supabase
+      .from('transfers')
+      .select('status, source_chain_id, destination_chain_id, burn_token, amount, burned_at, minted_at')
+      .gte('burned_at', from.toISOString())
+      .lt('burned_at', to.toISOString())
+      .order('burned_at', { ascending: true })
+      .range(rows.length, rows.length + PAGE_SIZE - 1);
+    if (chainId !== undefined) {
+      query = query.or(`source_chain_id.eq.${chainId},destination_chain_id.eq.${chainId}`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Could not load transfers: ${error.message}`);
+    rows.push(...(data as TransferRow[]));
+    if (data.length < PAGE_SIZE) return { rows, isTruncated: false };
+  }
+  return { rows, isTruncated: true };
+}
+
+// Aggregate indexed transfers into the dashboard's series. Only on-chain steps
+// can be judged here: approvals and burns that never confirmed leave no trace.
+export function summarizeTransfers(rows: TransferRow[], filters: AnalyticsFilters, now = Date.now()): Omit<AnalyticsData, 'isTruncated'> {
+  const from = filters.from.getTime();
+  const to = filters.to.getTime();
+  const transfers = rows.flatMap((row) => {
+    // The query applies the same filters; repeated so the series hold for any rows passed in
+    const burnedAt = Date.parse(row.burned_at);
+    if (burnedAt < from || burnedAt >= to) return [];
+    if (filters.chainId !== undefined && row.source_chain_id !== filters.chainId && row.destination_chain_id !== filters.chainId) {
+      return [];
+    }
+    const token = row.source_chain_id === null ? undefined : getTokenByAddress(row.source_chain_id, row.burn_token);
+    if (token?.symbol !== filters.token) return [];
+    return [{ ...row, value: Number(formatUnits(BigInt(row.amount), token.decimals)) }];
+  });
+
+  // Busiest routes by volume
+  const routeVolume = new Map<string, number>();
+  const routeOf = (row: TransferRow) => `${getChainName(row.source_chain_id ?? undefined)} → ${getChainName(row.destination_chain_id ?? undefined)}`;
+  for (const row of transfers) {
+    routeVolume.set(routeOf(row), (routeVolume.get(routeOf(row)) ?? 0) + row.value);
+  }
+  const topRoutes = [...routeVolume.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_ROUTES).map(([route]) => route);
+  const routes = routeVolume.size > MAX_ROUTES ? [...topRoutes, 'Other'] : topRoutes;
+
+  const days = listDays(filters.from, filters.to);
+  const volumeByDay = new Map(days.map((day) => [day, Object.fromEntries(routes.map((route) => [route, 0])) as Record<string, number>]));
+  const countsByDay = new Map(days.map((day) => [day, { day, transfers: 0, completed: 0 }]));
+  for (const row of transfers) {
+    const day = toDay(row.burned_at);
+    const route = topRoutes.includes(routeOf(row)) ? routeOf(row) : 'Other';
+    const volume = volumeByDay.get(day);
+    if (volume) volume[route] += row.value;
+
+    const counts = countsByDay.get(day);
+    if (counts) {
+      counts.transfers += 1;
+      if (row.status === 'minted') counts.completed += 1;
+    }
+  }
+
+  // Burn to mint, per source chain
+  const durations = new Map<number, number[]>();
+  for (const row of transfers) {
+    if (!row.minted_at || row.source_chain_id === null) continue;
+    const minutes = (Date.parse(row.minted_at) - Date.parse(row.burned_at)) / 60000;
+    durations.set(row.source_chain_id, [...(durations.get(row.source_chain_id) ?? []), minutes]);
+  }
+
+  const isStuck = (row: TransferRow, step: BridgeStep) => now - Date.parse(row.burned_at) > (STUCK_AFTER_MS[step] ?? Infinity);
+  const attested = transfers.filter((row) => row.status !== 'burned');
+  const failures = [
+    {
+      step: 'waiting-attestation' as const,
+      reached: transfers.length,
+      stuck: transfers.filter((row) => row.status === 'burned' && isStuck(row, 'waiting-attestation')).length,
+    },
+    {
+      step: 'waiting-receive-message' as const,
+      reached: attested.length,
+      stuck: attested.filter((row) => row.status === 'attested' && isStuck(row, 'waiting-receive-message')).length,
+    },
+  ];
+
+  return {
+    dailyVolume: days.map((day) => ({ day, ...volumeByDay.get(day) })),
+    routes,
+    dailyCounts: days.map((day) => countsByDay.get(day)!),
+    completionTimes: [...durations.entries()]
+      .map(([chainId, minutes]) => ({ chain: getChainName(chainId), medianMinutes: Math.round(median(minutes) * 10) / 10, transfers: minutes.length }))
+      .sort((a, b) => b.transfers - a.transfers),
+    failures: failures.map((entry) => ({ ...entry, rate: entry.reached ? entry.stuck / entry.reached : 0 })),
+    totalVolume: transfers.reduce((sum, row) => sum + row.value, 0),
+    totalTransfers: transfers.length,
+  };
+}
+
+export async function loadAnalytics(filters: AnalyticsFilters): Promise<AnalyticsData> {
+  const { rows, isTruncated } = await fetchIndexedTransfers(filters);
+  return { ...summarizeTransfers(rows, filters), isTruncated };
+}
@@ -0,0 +1,78 @@
+import { erc20Abi, formatUnits, type Address } from 'viem';
+import { type BridgeToken, getChainConfig, getChainName, getChainToken } from '../config/chains';
+import { withRpcFailover } from './rpc';
+
+export interface TokenBalance {
+  raw: bigint;
+  formatted: string;
+}
+
+export async function readTokenBalance(chainId: number, token: BridgeToken, owner: Address): Promise<TokenBalance> {
+  const tokenInfo = getChainToken(chainId, token);
+  if (!tokenInfo) {
+    throw new Error(`${token} is not available on ${getChainName(chainId)}`);
+  }
+
+  const raw = await withRpcFailover(chainId, (client) =>
+    client.readContract({
+      address: tokenInfo.contractAddress as Address,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [owner],
+    })
+  );
+
+  return { raw, formatted: formatUnits(raw, tokenInfo.decimals) };
+}
+
+export interface ChainPortfolio {
+  chainId: number;
+  usdc: TokenBalance;
+  native: TokenBalance;
+}
+
+const multicall3Abi = [
+  {
+    inputs: [{ name: 'addr', type: 'address' }],
+    name: 'getEthBalance',
+    outputs: [{ name: 'balance', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+// Read USDC and native gas balances on one chain, in a single multicall when
+// the chain has Multicall3 deployed and as two parallel reads otherwise.
+export async function readChainPortfolio(chainId: number, owner: Address): Promise<ChainPortfolio> {
+  const chain = getChainConfig(chainId);
+  const tokenInfo = getChainToken(chainId, 'USDC');
+  if (!chain || !tokenInfo) {
+    throw new Error(`USDC is not available on ${getChainName(chainId)}`);
+  }
+
+  const usdcAddress = tokenInfo.contractAddress as Address;
+  const multicall3 = chain.viemChain.contracts?.multicall3;
+
+  const [usdcRaw, nativeRaw] = await withRpcFailover(chainId, async (client) => {
+    if (multicall3) {
+      return client.multicall({
+        contracts: [
+          { address: usdcAddress, abi: erc20Abi, functionName: 'balanceOf', args: [owner] },
+          { address: multicall3.address, abi: multicall3Abi, functionName: 'getEthBalance', args: [owner] },
+        ],
+        allowFailure: false,
+      });
+    }
+
+    return Promise.all([
+      client.readContract({ address: usdcAddress, abi: erc20Abi, functionName: 'balanceOf', args: [owner] }),
+      client.getBalance({ address: owner }),
+    ]);
+  });
+
+  return {
+    chainId,
+    usdc: { raw: usdcRaw, formatted: formatUnits(usdcRaw, tokenInfo.decimals) },
+    native: { raw: nativeRaw, formatted: formatUnits(nativeRaw, chain.viemChain.nativeCurrency.decimals) },
+  };
+}
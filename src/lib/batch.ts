@@ -0,0 +1,87 @@
+import { formatUnits, parseUnits, type Address } from 'viem';
+import { type BridgeToken, getChainName, getChainToken } from '../config/chains';
+import { readTokenBalance } from './balances';
+import { UnsupportedChainError, getBridgeKitChains, resolveBridgeKitChain } from './bridgeKitChains';
+import { checkRecipient } from './recipient';
+
+export interface BatchRowInput {
+  id: string;
+  destinationChainId: number;
+  amount: string;
+  // Address or ENS name; empty sends to the connected wallet
+  recipient: string;
+}
+
+export interface BatchValidation {
+  // Problems with single rows, keyed by row id
+  rowErrors: Record<string, string>;
+  // Resolved recipients, keyed by row id, for rows that name one
+  recipients: Record<string, Address>;
+  // Problem with the rows taken together, e.g. they add up to more than the balance
+  totalError?: string;
+  canRun: boolean;
+}
+
+async function validateRow(row: BatchRowInput, token: BridgeToken, sourceChainId: number): Promise<{ error?: string; recipient?: Address; raw?: bigint }> {
+  const tokenInfo = getChainToken(sourceChainId, token);
+  let raw: bigint;
+  try {
+    raw = parseUnits(row.amount, tokenInfo?.decimals ?? 6);
+  } catch {
+    return { error: `Enter a valid ${token} amount.` };
+  }
+  if (raw <= 0n) return { error: `Enter a valid ${token} amount.` };
+
+  if (row.destinationChainId === sourceChainId) return { error: 'Destination must differ from the source chain.' };
+  if (!getChainToken(row.destinationChainId, token)) {
+    return { error: `${token} is not available on ${getChainName(row.destinationChainId)}.` };
+  }
+  try {
+    resolveBridgeKitChain(row.destinationChainId, getBridgeKitChains());
+  } catch (err) {
+    if (!(err instanceof UnsupportedChainError)) throw err;
+    return { error: err.message };
+  }
+
+  if (!row.recipient.trim()) return { raw };
+  const check = await checkRecipient(row.recipient, row.destinationChainId);
+  return check.address ? { raw, recipient: check.address } : { error: check.error };
+}
+
+// Check every row, then check that together they fit in the source balance.
+// Only rows about to be sent belong here: a resumed row has already burned.
+// Gas and allowance are left to the pre-flight check each transfer runs.
+export async function validateBatch(
+  rows: BatchRowInput[],
+  { token, sourceChainId, owner }: { token: BridgeToken; sourceChainId: number; owner: Address }
+): Promise<BatchValidation> {
+  const results = await Promise.all(rows.map((row) => validateRow(row, token, sourceChainId)));
+
+  const rowErrors: Record<string, string> = {};
+  const recipients: Record<string, Address> = {};
+  let total = 0n;
+  results.forEach((result, index) => {
+    const { id } = rows[index];
+    if (result.error) rowErrors[id] = result.error;
+    if (result.recipient) recipients[id] = result.recipient;
+    total += result.raw ?? 0n;
+  });
+
+  let totalError: string | undefined;
+  if (rows.length === 0) {
+    totalError = 'Add at least one transfer.';
+  } else {
+    const balance = await readTokenBalance(sourceChainId, token, owner);
+    if (total > balance.raw) {
+      const decimals = getChainToken(sourceChainId, token)?.decimals ?? 6;
+      totalError = `These transfers add up to ${formatUnits(total, decimals)} ${token}, but you have ${balance.formatted} on ${getChainName(sourceChainId)}.`;
+    }
+  }
+
+  return {
+    rowErrors,
+    recipients,
+    totalError,
+    canRun: !totalError && Object.keys(rowErrors).length === 0,
+  };
+}
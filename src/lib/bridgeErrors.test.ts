@@ -0,0 +1,185 @@
+import { KitError } from '@circle-fin/bridge-kit';
+import {
+  HttpRequestError,
+  InsufficientFundsError,
+  ProviderDisconnectedError,
+  SwitchChainError,
+  TimeoutError,
+  UserRejectedRequestError,
+} from 'viem';
+import { describe, expect, it } from 'vitest';
+import { ARC_CHAIN_ID, SEPOLIA_CHAIN_ID } from '../config/chains';
+import { UnsupportedChainError } from './bridgeKitChains';
+import {
+  AttestationTimeoutError,
+  BridgeError,
+  type BridgeErrorContext,
+  ChainSwitchRefusedError,
+  InsufficientBalanceError,
+  InsufficientGasError,
+  MintFailedError,
+  RpcFailureError,
+  UnsupportedRouteError,
+  UserRejectedError,
+  fromPreflightIssues,
+  toBridgeError,
+} from './bridgeErrors';
+
+const context = (overrides: Partial<BridgeErrorContext> = {}): BridgeErrorContext => ({
+  token: 'USDC',
+  sourceChainId: SEPOLIA_CHAIN_ID,
+  destinationChainId: ARC_CHAIN_ID,
+  stage: 'source',
+  inTransit: false,
+  ...overrides,
+});
+
+const kitError = (code: number, type: 'INPUT' | 'BALANCE' | 'RPC' | 'NETWORK', message: string) =>
+  new KitError({ code, name: 'TEST_ERROR', type, recoverability: 'FATAL', message });
+
+// What Bridge Kit throws when a step fails: the wallet error is reduced to its message
+const stepFailed = (step: string, message: string) => new Error(`${step} step failed: ${message}`);
+
+describe('toBridgeError', () => {
+  it('passes bridge errors through', () => {
+    const error = new AttestationTimeoutError();
+    expect(toBridgeError(error, context())).toBe(error);
+  });
+
+  it('maps chains Bridge Kit does not support to an unsupported route', () => {
+    const error = toBridgeError(new UnsupportedChainError(ARC_CHAIN_ID), context());
+    expect(error).toBeInstanceOf(UnsupportedRouteError);
+    expect(error.message).toBe(`Arc Testnet (chain ID ${ARC_CHAIN_ID}) is not supported by Bridge Kit.`);
+  });
+
+  describe('Bridge Kit errors', () => {
+    it('maps unsupported route and invalid chain codes', () => {
+      expect(toBridgeError(kitError(1003, 'INPUT', 'No route'), context())).toBeInstanceOf(UnsupportedRouteError);
+      expect(toBridgeError(kitError(1005, 'INPUT', 'Invalid chain'), context())).toBeInstanceOf(UnsupportedRouteError);
+    });
+
+    it('maps balance errors to the token on the source chain', () => {
+      const error = toBridgeError(kitError(9001, 'BALANCE', 'Insufficient USDC'), context({ token: 'EURC' }));
+      expect(error).toBeInstanceOf(InsufficientBalanceError);
+      expect(error.message).toBe('Not enough EURC on Ethereum Sepolia to bridge this amount.');
+    });
+
+    it('maps RPC and network errors to an RPC failure', () => {
+      const rpc = toBridgeError(kitError(4001, 'RPC', 'Endpoint down'), context());
+      expect(rpc).toBeInstanceOf(RpcFailureError);
+      expect((rpc as RpcFailureError).chainId).toBe(SEPOLIA_CHAIN_ID);
+      expect(toBridgeError(kitError(3001, 'NETWORK', 'Offline'), context())).toBeInstanceOf(RpcFailureError);
+    });
+  });
+
+  describe('rejections', () => {
+    it('recognises the EIP-1193 code anywhere in the cause chain', () => {
+      const wrapped = Object.assign(new Error('Burn failed'), { cause: new UserRejectedRequestError(new Error('denied')) });
+      const error = toBridgeError(wrapped, context());
+      expect(error).toBeInstanceOf(UserRejectedError);
+      expect(error.message).toBe('Transaction was cancelled. No tokens were bridged.');
+    });
+
+    it('recognises the message of a rethrown step failure', () => {
+      const error = toBridgeError(stepFailed('mint', 'User rejected the request.'), context({ stage: 'mint', inTransit: true }));
+      expect(error).toBeInstanceOf(UserRejectedError);
+      expect(error.message).toMatch(/Your tokens are in transit/);
+    });
+
+    it('recognises ethers-style rejections', () => {
+      expect(toBridgeError({ code: 'ACTION_REJECTED' }, context())).toBeInstanceOf(UserRejectedError);
+    });
+
+    it('treats a rejected chain switch as a refused switch', () => {
+      const error = toBridgeError(new UserRejectedRequestError(new Error('denied')), context({ stage: 'switch-chain' }));
+      expect(error).toBeInstanceOf(ChainSwitchRefusedError);
+      expect((error as ChainSwitchRefusedError).chainId).toBe(SEPOLIA_CHAIN_ID);
+    });
+  });
+
+  it('maps chains the wallet cannot switch to', () => {
+    const error = toBridgeError(new SwitchChainError(new Error('Unrecognized chain')), context({ stage: 'mint' }));
+    expect(error).toBeInstanceOf(ChainSwitchRefusedError);
+    expect((error as ChainSwitchRefusedError).chainId).toBe(ARC_CHAIN_ID);
+  });
+
+  describe('gas', () => {
+    it('maps viem insufficient funds errors to the chain of the stage', () => {
+      const error = toBridgeError(new InsufficientFundsError(), context({ stage: 'mint' }));
+      expect(error).toBeInstanceOf(InsufficientGasError);
+      expect((error as InsufficientGasError).chainId).toBe(ARC_CHAIN_ID);
+    });
+
+    it('recognises the message of a rethrown step failure', () => {
+      const error = toBridgeError(stepFailed('approve', 'insufficient funds for gas * price + value'), context());
+      expect(error).toBeInstanceOf(InsufficientGasError);
+      expect((error as InsufficientGasError).chainId).toBe(SEPOLIA_CHAIN_ID);
+    });
+  });
+
+  describe('RPC failures', () => {
+    it('maps viem transport errors', () => {
+      const http = toBridgeError(new HttpRequestError({ url: 'https://rpc.example', status: 502 }), context());
+      expect(http).toBeInstanceOf(RpcFailureError);
+      expect(http.message).toBe('RPC request to Ethereum Sepolia failed: HTTP request failed.');
+      expect(toBridgeError(new TimeoutError({ body: {}, url: 'https://rpc.example' }), context())).toBeInstanceOf(RpcFailureError);
+    });
+
+    it('maps a disconnected provider', () => {
+      expect(toBridgeError(new ProviderDisconnectedError(new Error('gone')), context())).toBeInstanceOf(RpcFailureError);
+    });
+
+    it('recognises the message of a rethrown step failure', () => {
+      const error = toBridgeError(stepFailed('burn', 'HTTP request failed.'), context());
+      expect(error).toBeInstanceOf(RpcFailureError);
+    });
+  });
+
+  describe('attestation', () => {
+    it('reports an exhausted attestation poll as a timeout', () => {
+      const exhausted = new Error('Maximum retry attempts (600) exceeded: Attestation not ready');
+      expect(toBridgeError(exhausted, context({ stage: 'attestation', inTransit: true }))).toBeInstanceOf(AttestationTimeoutError);
+    });
+
+    it('keeps attestation service failures as unknown errors with their detail', () => {
+      const error = toBridgeError(
+        new Error('Attestation service returned 503 Service Unavailable'),
+        context({ stage: 'attestation', inTransit: true })
+      );
+      expect(error).not.toBeInstanceOf(AttestationTimeoutError);
+      expect(error.kind).toBe('unknown');
+      expect(error.message).toBe('Attestation service returned 503 Service Unavailable');
+    });
+  });
+
+  it('reports anything else during the mint as a failed mint on the destination chain', () => {
+    const error = toBridgeError(stepFailed('mint', 'execution reverted'), context({ stage: 'mint', inTransit: true }));
+    expect(error).toBeInstanceOf(MintFailedError);
+    expect(error.message).toBe('Receiving on Arc Testnet failed: mint step failed: execution reverted');
+  });
+
+  it('falls back to an unknown error that keeps the original message', () => {
+    const cause = new Error('Something odd');
+    const error = toBridgeError(cause, context());
+    expect(error.kind).toBe('unknown');
+    expect(error.message).toBe('Something odd');
+    expect(error.cause).toBe(cause);
+  });
+});
+
+describe('fromPreflightIssues', () => {
+  it('joins the blocking issues and takes the kind of the first', () => {
+    const error = fromPreflightIssues([
+      { code: 'approval-required', severity: 'warning', message: 'Needs approval' },
+      { code: 'insufficient-balance', severity: 'error', message: 'Insufficient USDC' },
+      { code: 'insufficient-source-gas', severity: 'error', message: 'Not enough gas' },
+    ]);
+    expect(error).toBeInstanceOf(BridgeError);
+    expect(error.kind).toBe('insufficient-balance');
+    expect(error.message).toBe('Insufficient USDC\nNot enough gas');
+  });
+
+  it('falls back to unknown for codes without a kind', () => {
+    expect(fromPreflightIssues([{ code: 'check-failed', severity: 'error', message: 'Check failed' }]).kind).toBe('unknown');
+  });
+});
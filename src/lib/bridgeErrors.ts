@@ -0,0 +1,229 @@
+import { isKitError } from '@circle-fin/bridge-kit';
+import { SwitchChainNotSupportedError } from '@wagmi/core';
+import {
+  ChainDisconnectedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  ProviderDisconnectedError,
+  SwitchChainError,
+  TimeoutError,
+  UserRejectedRequestError,
+  WebSocketRequestError,
+} from 'viem';
+import { type BridgeToken, getChainName } from '../config/chains';
+import { UnsupportedChainError } from './bridgeKitChains';
+import type { PreflightCode, PreflightIssue } from './preflight';
+
+export type BridgeErrorKind =
+  | 'user-rejected'
+  | 'insufficient-balance'
+  | 'insufficient-gas'
+  | 'chain-switch-refused'
+  | 'rpc-failure'
+  | 'attestation-timeout'
+  | 'mint-failed'
+  | 'unsupported-route'
+  | 'unknown';
+
+// Base class for every failure the bridge flow reports; `kind` picks the
+// remediation shown next to the message
+export class BridgeError extends Error {
+  readonly kind: BridgeErrorKind;
+  // The wallet, RPC or Bridge Kit error this one was mapped from
+  readonly cause?: unknown;
+
+  constructor(kind: BridgeErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'BridgeError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+}
+
+export class UserRejectedError extends BridgeError {
+  constructor(inTransit: boolean, cause?: unknown) {
+    super(
+      'user-rejected',
+      inTransit
+        ? 'Transaction was cancelled during the receive step. Your tokens are in transit - resume the transfer from the history below to receive them.'
+        : 'Transaction was cancelled. No tokens were bridged.',
+      cause
+    );
+    this.name = 'UserRejectedError';
+  }
+}
+
+export class InsufficientBalanceError extends BridgeError {
+  constructor(token: BridgeToken, chainId: number, cause?: unknown) {
+    super('insufficient-balance', `Not enough ${token} on ${getChainName(chainId)} to bridge this amount.`, cause);
+    this.name = 'InsufficientBalanceError';
+  }
+}
+
+export class InsufficientGasError extends BridgeError {
+  readonly chainId: number;
+
+  constructor(chainId: number, cause?: unknown) {
+    super('insufficient-gas', `Not enough gas on ${getChainName(chainId)} to pay for the transaction.`, cause);
+    this.name = 'InsufficientGasError';
+    this.chainId = chainId;
+  }
+}
+
+export class ChainSwitchRefusedError extends BridgeError {
+  readonly chainId: number;
+
+  constructor(chainId: number, cause?: unknown) {
+    super('chain-switch-refused', `Your wallet did not switch to ${getChainName(chainId)}.`, cause);
+    this.name = 'ChainSwitchRefusedError';
+    this.chainId = chainId;
+  }
+}
+
+export class RpcFailureError extends BridgeError {
+  readonly chainId?: number;
+
+  constructor(chainId: number | undefined, detail: string, cause?: unknown) {
+    super(
+      'rpc-failure',
+      chainId === undefined ? `RPC request failed: ${detail}` : `RPC request to ${getChainName(chainId)} failed: ${detail}`,
+      cause
+    );
+    this.name = 'RpcFailureError';
+    this.chainId = chainId;
+  }
+}
+
+export class AttestationTimeoutError extends BridgeError {
+  constructor(cause?: unknown) {
+    super('attestation-timeout', 'Timed out waiting for Circle to attest the transfer. Your tokens were burned and are still in transit.', cause);
+    this.name = 'AttestationTimeoutError';
+  }
+}
+
+export class MintFailedError extends BridgeError {
+  constructor(chainId: number, detail: string, cause?: unknown) {
+    super('mint-failed', `Receiving on ${getChainName(chainId)} failed: ${detail}`, cause);
+    this.name = 'MintFailedError';
+  }
+}
+
+export class UnsupportedRouteError extends BridgeError {
+  constructor(message: string, cause?: unknown) {
+    super('unsupported-route', message, cause);
+    this.name = 'UnsupportedRouteError';
+  }
+}
+
+// Part of the transfer that was running when the error was thrown
+export type BridgeStage = 'switch-chain' | 'source' | 'attestation' | 'mint';
+
+export interface BridgeErrorContext {
+  token: BridgeToken;
+  sourceChainId: number;
+  destinationChainId: number;
+  stage: BridgeStage;
+  // Tokens were burned on the source chain but not yet minted
+  inTransit: boolean;
+}
+
+// EIP-1193 provider error codes
+const USER_REJECTED_CODE = UserRejectedRequestError.code;
+const UNRECOGNIZED_CHAIN_CODE = SwitchChainError.code;
+const DISCONNECTED_CODES = [ProviderDisconnectedError.code, ChainDisconnectedError.code];
+
+// Bridge Kit codes for routes it cannot serve (INPUT_UNSUPPORTED_ROUTE, INPUT_INVALID_CHAIN)
+const KIT_UNSUPPORTED_ROUTE_CODES = [1003, 1005];
+
+// Bridge Kit rethrows a failed step as `new Error('<step> step failed: <message>')`,
+// dropping the wallet error, so those are recognised by viem's short messages
+const REJECTED_MESSAGE = /user rejected|user denied|rejected the request/i;
+const INSUFFICIENT_FUNDS_MESSAGE = /insufficient funds|exceeds the balance of the account/i;
+const RPC_MESSAGE = /HTTP request failed|took too long to respond/;
+// Bridge Kit gives up polling Circle's attestation service with this message
+const ATTESTATION_POLL_EXHAUSTED_MESSAGE = /Maximum retry attempts \(\d+\) exceeded/;
+
+// The error followed by everything it wraps through `cause`
+function errorChain(err: unknown): unknown[] {
+  const chain: unknown[] = [];
+  let current = err;
+  while (current && typeof current === 'object' && !chain.includes(current)) {
+    chain.push(current);
+    current = (current as { cause?: unknown }).cause;
+  }
+  return chain;
+}
+
+function hasCode(err: unknown, codes: (number | string)[]): boolean {
+  return errorChain(err).some((entry) => codes.includes((entry as { code?: number | string }).code as number | string));
+}
+
+function hasInstance(err: unknown, ...classes: (abstract new (...args: never[]) => unknown)[]): boolean {
+  return errorChain(err).some((entry) => classes.some((errorClass) => entry instanceof errorClass));
+}
+
+function errorDetail(err: unknown): string {
+  // viem errors carry a one-line shortMessage next to the verbose message
+  const { shortMessage, message } = (err ?? {}) as { shortMessage?: string; message?: string };
+  return shortMessage || message || String(err ?? 'Bridge transaction failed');
+}
+
+// Map anything thrown while bridging to a BridgeError. Structured signals come
+// first (Bridge Kit error types, viem error classes, EIP-1193 codes), then the
+// stage decides between attestation and mint failures.
+export function toBridgeError(err: unknown, context: BridgeErrorContext): BridgeError {
+  if (err instanceof BridgeError) return err;
+  if (err instanceof UnsupportedChainError) return new UnsupportedRouteError(err.message, err);
+
+  const { token, sourceChainId, destinationChainId, stage, inTransit } = context;
+  // The mint, and the switch Bridge Kit makes before it, happen on the destination chain
+  const chainId = stage === 'mint' ? destinationChainId : sourceChainId;
+  const detail = errorDetail(err);
+
+  if (isKitError(err)) {
+    if (KIT_UNSUPPORTED_ROUTE_CODES.includes(err.code)) return new UnsupportedRouteError(err.message, err);
+    if (err.type === 'BALANCE') return new InsufficientBalanceError(token, sourceChainId, err);
+    if (err.type === 'RPC' || err.type === 'NETWORK') return new RpcFailureError(chainId, err.message, err);
+  }
+
+  if (hasCode(err, [USER_REJECTED_CODE, 'ACTION_REJECTED']) || REJECTED_MESSAGE.test(detail)) {
+    return stage === 'switch-chain' ? new ChainSwitchRefusedError(chainId, err) : new UserRejectedError(inTransit, err);
+  }
+
+  if (hasCode(err, [UNRECOGNIZED_CHAIN_CODE]) || hasInstance(err, SwitchChainError, SwitchChainNotSupportedError)) {
+    return new ChainSwitchRefusedError(chainId, err);
+  }
+
+  if (hasInstance(err, InsufficientFundsError) || INSUFFICIENT_FUNDS_MESSAGE.test(detail)) {
+    return new InsufficientGasError(chainId, err);
+  }
+
+  if (
+    hasCode(err, DISCONNECTED_CODES) ||
+    hasInstance(err, HttpRequestError, TimeoutError, WebSocketRequestError) ||
+    RPC_MESSAGE.test(detail)
+  ) {
+    return new RpcFailureError(chainId, detail, err);
+  }
+
+  if (stage === 'attestation' && ATTESTATION_POLL_EXHAUSTED_MESSAGE.test(detail)) return new AttestationTimeoutError(err);
+  if (stage === 'mint') return new MintFailedError(destinationChainId, detail, err);
+
+  return new BridgeError('unknown', detail, err);
+}
+
+const PREFLIGHT_KINDS: Partial<Record<PreflightCode, BridgeErrorKind>> = {
+  'same-chain': 'unsupported-route',
+  'unsupported-route': 'unsupported-route',
+  'unsupported-token': 'unsupported-route',
+  'insufficient-balance': 'insufficient-balance',
+  'insufficient-source-gas': 'insufficient-gas',
+  'insufficient-destination-gas': 'insufficient-gas',
+};
+
+// One error for everything preflight found blocking, typed by the first problem
+export function fromPreflightIssues(issues: PreflightIssue[]): BridgeError {
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  const kind = (errors.length > 0 && PREFLIGHT_KINDS[errors[0].code]) || 'unknown';
+  return new BridgeError(kind, errors.map((issue) => issue.message).join('\n'));
+}
@@ -0,0 +1,58 @@
+import { Blockchain, type ChainDefinition } from '@circle-fin/bridge-kit';
+import { describe, expect, it } from 'vitest';
+import { ARC_CHAIN_ID, SEPOLIA_CHAIN_ID, SUPPORTED_CHAINS } from '../config/chains';
+import { UnsupportedChainError, getBridgeKitChains, resolveBridgeKitChain } from './bridgeKitChains';
+
+// Just the fields the resolver reads; the rest of a chain definition is irrelevant here
+const chain = (definition: { chain: Blockchain; name: string; type: string; chainId?: number }) =>
+  definition as unknown as ChainDefinition;
+
+const supportedChains: ChainDefinition[] = [
+  chain({ chain: Blockchain.Ethereum_Sepolia, name: 'Ethereum Sepolia', type: 'evm', chainId: SEPOLIA_CHAIN_ID }),
+  chain({ chain: Blockchain.Arc_Testnet, name: 'Arc Testnet', type: 'evm', chainId: ARC_CHAIN_ID }),
+  // Names that the old substring matching confused with the chains above
+  chain({ chain: Blockchain.Ink_Testnet, name: 'Ink Sepolia', type: 'evm', chainId: 763373 }),
+  chain({ chain: Blockchain.Solana_Devnet, name: 'Solana Devnet', type: 'solana' }),
+];
+
+describe('resolveBridgeKitChain', () => {
+  it('returns the exact Bridge Kit chain for a registry chain', () => {
+    expect(resolveBridgeKitChain(SEPOLIA_CHAIN_ID, supportedChains).chain).toBe(Blockchain.Ethereum_Sepolia);
+    expect(resolveBridgeKitChain(ARC_CHAIN_ID, supportedChains).chain).toBe(Blockchain.Arc_Testnet);
+  });
+
+  it('throws for a chain ID that is not in the registry', () => {
+    expect(() => resolveBridgeKitChain(1, supportedChains)).toThrow(UnsupportedChainError);
+  });
+
+  it('throws when Bridge Kit does not list the registry chain', () => {
+    const withoutArc = supportedChains.filter((c) => c.chain !== Blockchain.Arc_Testnet);
+    expect(() => resolveBridgeKitChain(ARC_CHAIN_ID, withoutArc)).toThrow(UnsupportedChainError);
+  });
+
+  it('throws when the Bridge Kit chain has a different chain ID', () => {
+    const renumbered = supportedChains.map((c) =>
+      c.chain === Blockchain.Ethereum_Sepolia ? chain({ chain: c.chain, name: c.name, type: 'evm', chainId: 1 }) : c
+    );
+    expect(() => resolveBridgeKitChain(SEPOLIA_CHAIN_ID, renumbered)).toThrow(UnsupportedChainError);
+  });
+
+  it('matches against the real Bridge Kit chain list for every registry chain', () => {
+    for (const config of SUPPORTED_CHAINS) {
+      expect(resolveBridgeKitChain(config.id, getBridgeKitChains())).toMatchObject({ type: 'evm', chainId: config.id });
+    }
+  });
+});
+
+describe('UnsupportedChainError', () => {
+  it('names the chain it was thrown for', () => {
+    const error = new UnsupportedChainError(ARC_CHAIN_ID);
+    expect(error.name).toBe('UnsupportedChainError');
+    expect(error.chainId).toBe(ARC_CHAIN_ID);
+    expect(error.message).toBe(`Arc Testnet (chain ID ${ARC_CHAIN_ID}) is not supported by Bridge Kit.`);
+  });
+
+  it('falls back to the chain ID for chains outside the registry', () => {
+    expect(new UnsupportedChainError(1).message).toBe('Chain 1 (chain ID 1) is not supported by Bridge Kit.');
+  });
+});
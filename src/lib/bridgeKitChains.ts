@@ -0,0 +1,47 @@
+import { BridgeKit, type ChainDefinition } from '@circle-fin/bridge-kit';
+import { type BridgeToken, getChainConfig, getChainName } from '../config/chains';
+
+// Thrown when a chain ID has no exact Bridge Kit counterpart
+export class UnsupportedChainError extends Error {
+  readonly chainId: number;
+
+  constructor(chainId: number) {
+    super(`${getChainName(chainId)} (chain ID ${chainId}) is not supported by Bridge Kit.`);
+    this.name = 'UnsupportedChainError';
+    this.chainId = chainId;
+  }
+}
+
+// Map an EVM chain ID to the exact Bridge Kit chain definition.
+// The lookup goes through the registry's `bridgeKitChain` name and then checks
+// the chain ID, so a renamed or missing Bridge Kit chain fails loudly instead of
+// matching a neighbour by name.
+export function resolveBridgeKitChain(chainId: number, supportedChains: ChainDefinition[]): ChainDefinition {
+  const bridgeKitChain = getChainConfig(chainId)?.bridgeKitChain;
+  if (!bridgeKitChain) {
+    throw new UnsupportedChainError(chainId);
+  }
+
+  const match = supportedChains.find((chain) => chain.chain === bridgeKitChain);
+  if (!match || match.type !== 'evm' || match.chainId !== chainId) {
+    throw new UnsupportedChainError(chainId);
+  }
+
+  return match;
+}
+
+let bridgeKitChains: ChainDefinition[] | null = null;
+
+// Bridge Kit's chain definitions, for lookups that do not need a configured kit
+export function getBridgeKitChains(): ChainDefinition[] {
+  bridgeKitChains ??= new BridgeKit().getSupportedChains();
+  return bridgeKitChains;
+}
+
+// Tokens the installed Bridge Kit can route. Its CCTP provider only burns and
+// mints USDC, so other registry tokens can be held and shown but not bridged yet.
+export type BridgeKitToken = 'USDC';
+
+export function isBridgeKitToken(token: BridgeToken): token is BridgeKitToken {
+  return token === 'USDC';
+}
@@ -0,0 +1,388 @@
+import { BridgeKit, type AdapterContext, type BridgeResult, type ChainDefinition } from '@circle-fin/bridge-kit';
+import { type Address } from 'viem';
+import { type BridgeToken, type TransferSpeed } from '../config/chains';
+import { type BridgeErrorKind, type BridgeStage, MintFailedError, toBridgeError } from './bridgeErrors';
+import { type BridgeKitToken, resolveBridgeKitChain } from './bridgeKitChains';
+import {
+  type TransferRecord,
+  type TransferStepRecord,
+  mergeStep,
+  saveTransfer,
+  toBridgeResult,
+  toStepRecord,
+  withStep,
+} from './transferHistory';
+
+export type BridgeStep =
+  | 'idle'
+  | 'switching-network'
+  | 'approving'
+  | 'signing-bridge'
+  | 'waiting-attestation'
+  | 'waiting-receive-message'
+  | 'success'
+  | 'error';
+
+export interface BridgeState {
+  step: BridgeStep;
+  error: string | null;
+  // Set with `error` when the failure maps to a known BridgeError type
+  errorKind?: BridgeErrorKind;
+  result: any | null;
+  isLoading: boolean;
+  // Transaction hashes
+  sourceTxHash?: string; // Source chain transaction hash
+  receiveTxHash?: string; // Destination chain receive message transaction hash
+  token?: BridgeToken;
+  // Chain IDs for multi-chain support
+  sourceChainId?: number;
+  destinationChainId?: number;
+  speed?: TransferSpeed;
+  recipient?: string; // Set when the mint goes to an address other than the connected wallet
+  // Persisted transfer record, set once the first transaction hash is known
+  transferId?: string;
+  // Bridge Kit steps finished so far (approve, burn, fetchAttestation, mint), in order
+  progress?: TransferStepRecord[];
+}
+
+// The step that is underway once a Bridge Kit step has finished
+const NEXT_STEP: Record<string, BridgeStep> = {
+  approve: 'signing-bridge',
+  burn: 'waiting-attestation',
+  fetchAttestation: 'waiting-receive-message',
+  mint: 'waiting-receive-message',
+};
+
+// Where a transfer stands given the steps it has finished
+function currentStep(progress: TransferStepRecord[]): BridgeStep {
+  const finished = progress.filter((step) => step.state === 'success' || step.state === 'noop');
+  const last = finished[finished.length - 1];
+  return (last && NEXT_STEP[last.name]) || 'approving';
+}
+
+// Part of the transfer a step belongs to, for mapping errors thrown during it
+const STEP_STAGE: Partial<Record<BridgeStep, BridgeStage>> = {
+  'switching-network': 'switch-chain',
+  'waiting-attestation': 'attestation',
+  'waiting-receive-message': 'mint',
+};
+
+// adapter-viem-v2 and bridge-kit each bundle their own copy of the Adapter typings,
+// which TypeScript treats as unrelated; at runtime the adapter is exactly what the kit expects
+export type KitAdapter = AdapterContext['adapter'];
+
+export interface TransferParams {
+  token: BridgeToken;
+  amount: string;
+  sourceChainId: number;
+  destinationChainId: number;
+  speed: TransferSpeed;
+  // Mint recipient when it is not the connected wallet
+  recipient?: string;
+}
+
+export type TransferExecutor = (
+  kit: BridgeKit,
+  adapter: KitAdapter,
+  sourceChain: ChainDefinition,
+  destinationChain: ChainDefinition
+) => Promise<BridgeResult>;
+
+// What a transfer needs from the wallet it is sent from
+export interface TransferWallet {
+  address: Address;
+  createAdapter: () => Promise<KitAdapter>;
+  // Chain the wallet is on right now, or undefined when the adapter signs on any chain
+  getChainId: () => number | undefined;
+  switchChain: (chainId: number) => Promise<void>;
+}
+
+// A new transfer: Bridge Kit handles
+// 1. Approval transaction (if needed)
+// 2. Transfer transaction on source chain
+// 3. Automatic chain switching to destination chain
+// 4. Receive message transaction on destination chain
+// The bridge() method completes only after ALL steps are done or user cancels
+export function bridgeExecutor(
+  { token, amount, speed, recipient }: TransferParams & { token: BridgeKitToken }
+): TransferExecutor {
+  return (kit, adapter, sourceChain, destinationChain) =>
+    kit.bridge({
+      from: {
+        adapter: adapter,
+        chain: sourceChain.chain,
+      },
+      to: {
+        adapter: adapter,
+        chain: destinationChain.chain,
+        ...(recipient && { recipientAddress: recipient }),
+      },
+      amount: amount,
+      token,
+      config: {
+        transferSpeed: speed,
+      },
+    });
+}
+
+// A saved transfer, continued from the first step that did not finish
+export function retryExecutor(record: TransferRecord): TransferExecutor {
+  return (kit, adapter, sourceChain, destinationChain) =>
+    kit.retry(toBridgeResult(record, sourceChain, destinationChain), {
+      from: adapter,
+      to: adapter,
+    });
+}
+
+// Extract transaction hashes from result
+// Bridge Kit result structure contains a 'steps' array with transaction details:
+// - steps[0] "approve" - approval transaction on the source chain
+// - steps[1] "burn" - burn/transfer transaction on the source chain
+// - steps[2] "fetchAttestation" - attestation data (no txHash)
+// - steps[3] "mint" - mint/receive transaction on the destination chain
+function extractTxHashes(result: BridgeResult): { sourceTxHash?: string; receiveTxHash?: string } {
+  let sourceTxHash: string | undefined;
+  let receiveTxHash: string | undefined;
+
+  const resultAny = result as any;
+
+  if (resultAny && resultAny.steps && Array.isArray(resultAny.steps)) {
+    console.log('Found steps array with', resultAny.steps.length, 'steps');
+
+    // Loop through steps to find transaction hashes
+    resultAny.steps.forEach((step: any, index: number) => {
+      console.log(`Step ${index}: ${step.name} - ${step.state}`);
+
+      if (step.name === 'burn' && step.txHash) {
+        // Burn/transfer transaction on source chain
+        sourceTxHash = step.txHash;
+        console.log('Found sourceTxHash from burn step:', sourceTxHash);
+      } else if (step.name === 'mint' && step.txHash) {
+        // Mint/receive transaction on destination chain
+        receiveTxHash = step.txHash;
+        console.log('Found receiveTxHash from mint step:', receiveTxHash);
+      } else if (step.name === 'approve' && step.txHash) {
+        // Approval transaction - we could use this as fallback for source
+        if (!sourceTxHash) {
+          sourceTxHash = step.txHash;
+          console.log('Using approval txHash as sourceTxHash fallback:', sourceTxHash);
+        }
+      }
+    });
+  } else {
+    // Fallback: try other possible result structures
+    console.log('No steps array found, trying alternative structures...');
+
+    if (resultAny.txHash) {
+      sourceTxHash = resultAny.txHash;
+      console.log('Found sourceTxHash from txHash:', sourceTxHash);
+    }
+    if (resultAny.sourceTxHash || resultAny.sourceTransactionHash || resultAny.fromTxHash) {
+      sourceTxHash = resultAny.sourceTxHash || resultAny.sourceTransactionHash || resultAny.fromTxHash;
+      console.log('Found sourceTxHash from sourceTxHash/sourceTransactionHash/fromTxHash:', sourceTxHash);
+    }
+    if (resultAny.receiveTxHash || resultAny.receiveTransactionHash || resultAny.toTxHash || resultAny.destinationTxHash) {
+      receiveTxHash = resultAny.receiveTxHash || resultAny.receiveTransactionHash || resultAny.toTxHash || resultAny.destinationTxHash;
+      console.log('Found receiveTxHash:', receiveTxHash);
+    }
+  }
+
+  console.log('Extracted transaction hashes:', { sourceTxHash, receiveTxHash });
+  return { sourceTxHash, receiveTxHash };
+}
+
+// Run a new or resumed transfer through Bridge Kit, saving every step from the
+// first transaction hash onwards so the transfer survives a page reload.
+// Every state change goes through `setState`; the state the transfer ends in is also returned.
+export async function runTransfer(
+  { token, amount, sourceChainId, destinationChainId, speed, recipient }: TransferParams,
+  execute: TransferExecutor,
+  wallet: TransferWallet,
+  setState: (update: (prev: BridgeState) => BridgeState) => void,
+  existing?: TransferRecord
+): Promise<BridgeState> {
+  const { address } = wallet;
+  let record: TransferRecord | null = existing ? { ...existing, status: 'pending', error: undefined } : null;
+  let progress: TransferStepRecord[] = existing?.steps ?? [];
+  let isSwitchingChain = false;
+  const persist = (next: TransferRecord) => {
+    record = next;
+    saveTransfer(next).catch((err) => console.warn('Failed to save transfer history:', err));
+  };
+  const finish = (next: BridgeState): BridgeState => {
+    setState(() => next);
+    return next;
+  };
+
+  try {
+    setState(prev => ({
+      ...prev,
+      step: 'idle',
+      error: null,
+      isLoading: true,
+      token,
+      sourceChainId,
+      destinationChainId,
+      speed,
+      recipient,
+      transferId: existing?.id,
+      progress,
+    }));
+
+    const adapter = await wallet.createAdapter();
+
+    // Initialize Bridge Kit
+    const kit = new BridgeKit();
+    const supportedChains = kit.getSupportedChains();
+
+    const sourceChain = resolveBridgeKitChain(sourceChainId, supportedChains);
+    const destinationChain = resolveBridgeKitChain(destinationChainId, supportedChains);
+
+    console.log('Selected chains:', {
+      from: sourceChain.name,
+      fromChainId: sourceChainId,
+      to: destinationChain.name,
+      toChainId: destinationChainId,
+      token,
+      amount,
+    });
+
+    // Switch to source chain if not already on it
+    // A resumed transfer has already burned, so Bridge Kit switches straight to the destination
+    // Read the wallet's chain now: a batch calls this again after the previous mint moved it
+    const walletChainId = wallet.getChainId();
+    if (walletChainId !== undefined && walletChainId !== sourceChainId && !existing?.sourceTxHash) {
+      setState(prev => ({ ...prev, step: 'switching-network' }));
+      isSwitchingChain = true;
+      await wallet.switchChain(sourceChainId);
+      isSwitchingChain = false;
+    }
+
+    // Step 2: Approving token (if needed), or wherever a resumed transfer left off
+    // Bridge Kit handles the entire flow: approval, transfer, chain switching, and receive message
+    // and reports each step as it finishes, which moves the timeline along
+    setState(prev => ({ ...prev, step: currentStep(progress) }));
+
+    // Bridge Kit emits an event after every step it finishes
+    const handleStep = (payload: { values: BridgeResult['steps'][number] }) => {
+      const step = toStepRecord(payload.values);
+      progress = mergeStep(progress, step);
+      const nextProgress = progress;
+      setState(prev => ({ ...prev, step: currentStep(nextProgress), progress: nextProgress }));
+
+      if (!record) {
+        // Nothing worth keeping until a transaction has been sent
+        if (!step.txHash) return;
+        record = {
+          id: crypto.randomUUID(),
+          address,
+          token,
+          amount,
+          sourceChainId,
+          destinationChainId,
+          speed,
+          recipient,
+          status: 'pending',
+          steps: progress,
+          createdAt: step.timestamp,
+          updatedAt: step.timestamp,
+        };
+        const transferId = record.id;
+        setState(prev => ({ ...prev, transferId }));
+      }
+      persist(withStep(record, step));
+    };
+
+    kit.on('*', handleStep);
+    let result: BridgeResult;
+    try {
+      result = await execute(kit, adapter, sourceChain, destinationChain);
+    } finally {
+      kit.off('*', handleStep);
+    }
+
+    // Helper function to safely stringify BigInt values
+    const safeStringify = (obj: any): string => {
+      return JSON.stringify(obj, (key, value) => {
+        if (typeof value === 'bigint') {
+          return value.toString();
+        }
+        return value;
+      }, 2);
+    };
+
+    console.log('Bridge result:', result);
+    try {
+      console.log('Bridge result (stringified):', safeStringify(result));
+    } catch (err) {
+      console.log('Could not stringify result (contains non-serializable values)');
+    }
+
+    // Bridge Kit resolves with the failed step instead of throwing; the steps
+    // before it are already in progress, so the catch below maps it to the right stage
+    const failedStep = result.steps.find((step) => step.state === 'error');
+    if (failedStep) {
+      throw failedStep.error ?? new Error(failedStep.errorMessage ?? `${failedStep.name} step failed`);
+    }
+
+    const { sourceTxHash, receiveTxHash } = extractTxHashes(result);
+
+    // The receiveTxHash confirms the bridge is fully complete on the destination chain
+    if (!receiveTxHash) {
+      throw new MintFailedError(destinationChainId, 'Bridge Kit finished without a receive transaction.');
+    }
+
+    if (record) {
+      persist({ ...record, status: 'completed', receiveTxHash, updatedAt: Date.now() });
+    }
+
+    // Bridge Kit's bridge() method only resolves after ALL transactions complete
+    // This includes: approval, transfer, chain switch, and receive message
+    // So if we reach here with receiveTxHash, the bridge is complete
+    return finish({
+      step: 'success',
+      error: null,
+      result,
+      isLoading: false,
+      sourceTxHash,
+      receiveTxHash,
+      token,
+      sourceChainId, // Store source chain ID for success screen
+      destinationChainId, // Store destination chain ID for success screen
+      speed,
+      recipient,
+      transferId: record?.id,
+      progress,
+    });
+
+  } catch (err) {
+    console.error('Bridge error:', err);
+
+    // Tokens already burned on the source chain can still be minted later
+    const burnedRecord = record as TransferRecord | null;
+    const bridgeError = toBridgeError(err, {
+      token,
+      sourceChainId,
+      destinationChainId,
+      stage: isSwitchingChain ? 'switch-chain' : STEP_STAGE[currentStep(progress)] ?? 'source',
+      inTransit: !!burnedRecord?.sourceTxHash && !burnedRecord.receiveTxHash,
+    });
+
+    if (burnedRecord) {
+      persist({ ...burnedRecord, status: 'failed', error: bridgeError.message, updatedAt: Date.now() });
+    }
+
+    return finish({
+      step: 'error',
+      error: bridgeError.message,
+      errorKind: bridgeError.kind,
+      result: null,
+      isLoading: false,
+      sourceTxHash: undefined,
+      receiveTxHash: undefined,
+      token: undefined,
+      transferId: burnedRecord?.id,
+      progress,
+    });
+  }
+}
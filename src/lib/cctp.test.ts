@@ -0,0 +1,96 @@
+import type { Hex } from 'viem';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type AttestationStub, startAttestationStub } from '../test/attestationStub';
+
+const SOURCE_DOMAIN = 0;
+const BURN_TX_HASH: Hex = '0x9f3b1a7c2d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8';
+const ATTESTED = { message: '0x01' as Hex, attestation: '0xa77e57' as Hex, eventNonce: '0x02' as Hex };
+
+let stub: AttestationStub;
+// Loaded after the stub is running, since the service URL is read on import
+let cctp: typeof import('./cctp');
+
+beforeAll(async () => {
+  stub = await startAttestationStub();
+});
+
+afterAll(async () => {
+  await stub.close();
+});
+
+beforeEach(async () => {
+  vi.stubEnv('VITE_CCTP_ATTESTATION_API_URL', stub.url);
+  vi.resetModules();
+  cctp = await import('./cctp');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  stub.failWith(null);
+});
+
+// Short polls keep the tests fast; the defaults are 5 seconds and 30 minutes
+const POLL = { intervalMs: 10, timeoutMs: 5000 };
+
+// Each test works on its own burn so the stub's state does not leak between them
+let burnIndex = 0;
+const nextBurn = (): Hex => `${BURN_TX_HASH.slice(0, -2)}${(burnIndex++).toString(16).padStart(2, '0')}` as Hex;
+
+describe('getAttestationStatus', () => {
+  it('reports burns the service has not seen, pending burns and attested burns', async () => {
+    const burnTxHash = nextBurn();
+    await expect(cctp.getAttestationStatus(SOURCE_DOMAIN, burnTxHash)).resolves.toEqual({ status: 'not-found' });
+
+    stub.addPending(SOURCE_DOMAIN, burnTxHash);
+    await expect(cctp.getAttestationStatus(SOURCE_DOMAIN, burnTxHash)).resolves.toEqual({ status: 'pending' });
+
+    stub.attest(SOURCE_DOMAIN, burnTxHash, ATTESTED);
+    await expect(cctp.getAttestationStatus(SOURCE_DOMAIN, burnTxHash)).resolves.toEqual({ status: 'complete', ...ATTESTED });
+  });
+});
+
+describe('fetchAttestation', () => {
+  it('polls until the burn is attested', async () => {
+    const burnTxHash = nextBurn();
+    stub.addPending(SOURCE_DOMAIN, burnTxHash);
+    const requestsBefore = stub.requests;
+
+    const attestation = cctp.fetchAttestation(SOURCE_DOMAIN, burnTxHash, POLL);
+    await vi.waitFor(() => expect(stub.requests - requestsBefore).toBeGreaterThanOrEqual(2));
+    stub.attest(SOURCE_DOMAIN, burnTxHash, ATTESTED);
+
+    await expect(attestation).resolves.toEqual(ATTESTED);
+  });
+
+  it('gives up with an attestation timeout', async () => {
+    const burnTxHash = nextBurn();
+    stub.addPending(SOURCE_DOMAIN, burnTxHash);
+
+    await expect(cctp.fetchAttestation(SOURCE_DOMAIN, burnTxHash, { intervalMs: 10, timeoutMs: 50 })).rejects.toMatchObject({
+      name: 'AttestationTimeoutError',
+      kind: 'attestation-timeout',
+    });
+  });
+
+  it('stops polling as soon as it is aborted', async () => {
+    const burnTxHash = nextBurn();
+    stub.addPending(SOURCE_DOMAIN, burnTxHash);
+    const requestsBefore = stub.requests;
+    const controller = new AbortController();
+
+    const attestation = cctp.fetchAttestation(SOURCE_DOMAIN, burnTxHash, { signal: controller.signal, intervalMs: 60_000 });
+    await vi.waitFor(() => expect(stub.requests).toBe(requestsBefore + 1));
+    controller.abort(new Error('Recovery closed'));
+
+    await expect(attestation).rejects.toThrow('Recovery closed');
+    expect(stub.requests).toBe(requestsBefore + 1);
+  });
+
+  it('surfaces attestation service errors instead of retrying them', async () => {
+    stub.failWith(503);
+    const requestsBefore = stub.requests;
+
+    await expect(cctp.fetchAttestation(SOURCE_DOMAIN, nextBurn(), POLL)).rejects.toThrow('Attestation service returned 503');
+    expect(stub.requests).toBe(requestsBefore + 1);
+  });
+});
@@ -0,0 +1,113 @@
+import { decodeEventLog, isAddressEqual, type Hex } from 'viem';
+import { getChainByCctpDomain, getChainName } from '../config/chains';
+import { AttestationTimeoutError } from './bridgeErrors';
+import { type Attestation, decodeMessageHeader, fetchAttestedMessages, getCctpContracts, messageTransmitterAbi } from './cctpProtocol';
+import { withRpcFailover } from './rpc';
+
+// Circle's attestation service (Iris). Override with a local stub to test recovery offline.
+const ATTESTATION_API_URL = import.meta.env.VITE_CCTP_ATTESTATION_API_URL || 'https://iris-api-sandbox.circle.com';
+const ATTESTATION_POLL_INTERVAL_MS = 5000;
+// Standard transfers wait for hard finality, which can take ~20 minutes on Ethereum
+const ATTESTATION_TIMEOUT_MS = 30 * 60 * 1000;
+
+export interface BurnMessage {
+  message: Hex;
+  sourceChainId: number;
+  sourceDomain: number;
+  destinationDomain: number;
+  destinationChainId: number;
+}
+
+export type AttestationStatus =
+  | { status: 'not-found' }
+  | { status: 'pending' }
+  | ({ status: 'complete' } & Attestation);
+
+// Read the CCTP message emitted by a burn transaction on the source chain
+export async function readBurnMessage(sourceChainId: number, burnTxHash: Hex): Promise<BurnMessage> {
+  const transmitter = getCctpContracts(sourceChainId).messageTransmitter;
+  const receipt = await withRpcFailover(sourceChainId, (client) =>
+    client.getTransactionReceipt({ hash: burnTxHash })
+  );
+
+  const log = receipt.logs.find((entry) => isAddressEqual(entry.address, transmitter));
+  if (!log) {
+    throw new Error(`No CCTP transfer found in transaction ${burnTxHash} on ${getChainName(sourceChainId)}.`);
+  }
+
+  const { args } = decodeEventLog({ abi: messageTransmitterAbi, eventName: 'MessageSent', data: log.data, topics: log.topics });
+  const { sourceDomain, destinationDomain } = decodeMessageHeader(args.message);
+  const destinationChain = getChainByCctpDomain(destinationDomain);
+  if (!destinationChain) {
+    throw new Error(`The transfer is headed to CCTP domain ${destinationDomain}, which this bridge does not support.`);
+  }
+
+  return {
+    message: args.message,
+    sourceChainId,
+    sourceDomain,
+    destinationDomain,
+    destinationChainId: destinationChain.id,
+  };
+}
+
+// Ask the attestation service once where a burn stands
+export async function getAttestationStatus(sourceDomain: number, burnTxHash: Hex, signal?: AbortSignal): Promise<AttestationStatus> {
+  const messages = await fetchAttestedMessages(ATTESTATION_API_URL, sourceDomain, burnTxHash, signal);
+  if (!messages) return { status: 'not-found' };
+  return messages.length > 0 ? { status: 'complete', ...messages[0] } : { status: 'pending' };
+}
+
+export interface AttestationPollOptions {
+  // Stops polling, e.g. when the component waiting on it unmounts
+  signal?: AbortSignal;
+  intervalMs?: number;
+  timeoutMs?: number;
+}
+
+// Poll the attestation service until the burn is attested. The attested message
+// carries the nonce assigned by Circle, so it is the one to submit on the destination.
+export async function fetchAttestation(
+  sourceDomain: number,
+  burnTxHash: Hex,
+  { signal, intervalMs = ATTESTATION_POLL_INTERVAL_MS, timeoutMs = ATTESTATION_TIMEOUT_MS }: AttestationPollOptions = {}
+): Promise<Attestation> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const result = await getAttestationStatus(sourceDomain, burnTxHash, signal);
+    if (result.status === 'complete') {
+      const { message, attestation, eventNonce } = result;
+      return { message, attestation, eventNonce };
+    }
+
+    await wait(intervalMs, signal);
+  }
+
+  throw new AttestationTimeoutError();
+}
+
+// Sleep between polls, cut short when the caller goes away
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// A used nonce means receiveMessage already ran for this transfer
+export async function isMessageReceived(destinationChainId: number, eventNonce: Hex): Promise<boolean> {
+  const transmitter = getCctpContracts(destinationChainId).messageTransmitter;
+  const used = await withRpcFailover(destinationChainId, (client) =>
+    client.readContract({ address: transmitter, abi: messageTransmitterAbi, functionName: 'usedNonces', args: [eventNonce] })
+  );
+  return used > 0n;
+}
@@ -0,0 +1,109 @@
+import { getAddress, hexToBigInt, hexToNumber, parseAbi, sliceHex, type Address, type Hex } from 'viem';
+import { getChainName } from '../config/chains';
+import { getBridgeKitChains, resolveBridgeKitChain } from './bridgeKitChains';
+
+// CCTP v2 contracts, events and message layout. Kept free of browser and Vite
+// APIs so the indexer can share it with the app.
+
+export const messageTransmitterAbi = parseAbi([
+  'event MessageSent(bytes message)',
+  'event MessageReceived(address indexed caller, uint32 sourceDomain, bytes32 indexed nonce, bytes32 sender, uint32 indexed finalityThresholdExecuted, bytes messageBody)',
+  'function receiveMessage(bytes message, bytes attestation) returns (bool)',
+  'function usedNonces(bytes32 nonce) view returns (uint256)',
+]);
+
+export const tokenMessengerAbi = parseAbi([
+  'event DepositForBurn(address indexed burnToken, uint256 amount, address indexed depositor, bytes32 mintRecipient, uint32 destinationDomain, bytes32 destinationTokenMessenger, bytes32 destinationCaller, uint256 maxFee, uint32 indexed minFinalityThreshold, bytes hookData)',
+  'event MintAndWithdraw(address indexed mintRecipient, uint256 amount, address indexed mintToken, uint256 feeCollected)',
+]);
+
+export interface CctpContracts {
+  tokenMessenger: Address;
+  messageTransmitter: Address;
+}
+
+export interface Attestation {
+  message: Hex;
+  attestation: Hex;
+  eventNonce: Hex;
+}
+
+// Routing fields from the message header
+export interface MessageHeader {
+  sourceDomain: number;
+  destinationDomain: number;
+  // Zero until Circle attests the message; the attested message carries the real nonce
+  nonce: Hex;
+}
+
+// Transfer details carried by a CCTP v2 message and its burn message body
+export interface BurnDetails {
+  nonce: Hex;
+  burnToken: Address;
+  mintRecipient: Address;
+  messageSender: Address;
+  amount: bigint;
+  maxFee: bigint;
+}
+
+// CCTP v2 contract addresses for a chain, taken from Bridge Kit's chain definitions
+export function getCctpContracts(chainId: number): CctpContracts {
+  const contracts = resolveBridgeKitChain(chainId, getBridgeKitChains()).cctp?.contracts.v2;
+  if (!contracts) {
+    throw new Error(`${getChainName(chainId)} does not support CCTP v2`);
+  }
+  if (contracts.type === 'merged') {
+    return { tokenMessenger: contracts.contract as Address, messageTransmitter: contracts.contract as Address };
+  }
+  return { tokenMessenger: contracts.tokenMessenger as Address, messageTransmitter: contracts.messageTransmitter as Address };
+}
+
+// Addresses are stored left-padded to 32 bytes
+export const bytes32ToAddress = (word: Hex): Address => getAddress(sliceHex(word, 12));
+
+// Message layout (v2): version (4), source domain (4), destination domain (4),
+// nonce (32), sender (32), recipient (32), destination caller (32),
+// min finality (4), executed finality (4), then the message body
+export function decodeMessageHeader(message: Hex): MessageHeader {
+  return {
+    sourceDomain: hexToNumber(sliceHex(message, 4, 8)),
+    destinationDomain: hexToNumber(sliceHex(message, 8, 12)),
+    nonce: sliceHex(message, 12, 44),
+  };
+}
+
+// Burn message body: version (4), burn token (32), mint recipient (32),
+// amount (32), message sender (32), max fee (32), ...
+export function decodeBurnMessage(message: Hex): BurnDetails {
+  const body = sliceHex(message, 148);
+  return {
+    nonce: decodeMessageHeader(message).nonce,
+    burnToken: bytes32ToAddress(sliceHex(body, 4, 36)),
+    mintRecipient: bytes32ToAddress(sliceHex(body, 36, 68)),
+    amount: hexToBigInt(sliceHex(body, 68, 100)),
+    messageSender: bytes32ToAddress(sliceHex(body, 100, 132)),
+    maxFee: hexToBigInt(sliceHex(body, 132, 164)),
+  };
+}
+
+// Attested messages for a burn transaction, or null when the attestation
+// service has not seen it yet. One transaction can carry several burns.
+export async function fetchAttestedMessages(
+  apiUrl: string,
+  sourceDomain: number,
+  burnTxHash: Hex,
+  signal?: AbortSignal
+): Promise<Attestation[] | null> {
+  const response = await fetch(`${apiUrl}/v2/messages/${sourceDomain}?transactionHash=${burnTxHash}`, { signal });
+  // 404 means the burn has not been indexed yet
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Attestation service returned ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const messages: { status?: string; message: Hex; attestation?: string; eventNonce: Hex }[] = data.messages ?? [];
+  return messages
+    .filter((entry) => entry.status === 'complete' && entry.attestation && entry.attestation !== 'PENDING')
+    .map((entry) => ({ message: entry.message, attestation: entry.attestation as Hex, eventNonce: entry.eventNonce }));
+}
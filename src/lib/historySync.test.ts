@@ -0,0 +1,86 @@
+import { type Address } from 'viem';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStorage } from '../test/memoryStorage';
+import type { TransferRecord } from './transferHistory';
+
+const WALLET: Address = '0xaAaAaAaaAaAaAaaAaAAAAAAAAaaaAaAaAaaAaaAa';
+
+type UpsertResult = { error: { message: string } | null };
+const upsert = vi.hoisted(() => vi.fn<(row: { id: string; status: string }) => Promise<UpsertResult>>());
+vi.mock('./supabase', () => ({ supabase: { from: () => ({ upsert }) } }));
+
+// An upload the test answers when it chooses
+function deferUpload() {
+  let answer!: (result: UpsertResult) => void;
+  upsert.mockImplementationOnce(() => new Promise((resolve) => (answer = resolve)));
+  return (error: string | null = null) => answer({ error: error === null ? null : { message: error } });
+}
+
+const transfer = (id: string, status: TransferRecord['status'], updatedAt: number): TransferRecord => ({
+  id,
+  address: WALLET,
+  token: 'USDC',
+  amount: '10',
+  sourceChainId: 11155111,
+  destinationChainId: 5042002,
+  status,
+  steps: [],
+  createdAt: 1,
+  updatedAt,
+});
+
+const uploaded = () => upsert.mock.calls.map(([row]) => `${row.id}:${row.status}`);
+
+let pushTransfer: typeof import('./historySync').pushTransfer;
+
+beforeEach(async () => {
+  const storage = createMemoryStorage();
+  storage.setItem('siwe-session', JSON.stringify({ address: WALLET, chainId: 1, issuedAt: Date.now(), expiresAt: Date.now() + 60_000 }));
+  vi.stubGlobal('localStorage', storage);
+  vi.stubEnv('VITE_SIWE_ENABLED', 'true');
+  upsert.mockReset();
+  upsert.mockResolvedValue({ error: null });
+
+  vi.resetModules();
+  ({ pushTransfer } = await import('./historySync'));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('pushTransfer', () => {
+  it("uploads a transfer's saves one at a time, in the order they were made", async () => {
+    const answerMint = deferUpload();
+    const mint = pushTransfer(transfer('a', 'pending', 1));
+    const completed = pushTransfer(transfer('a', 'completed', 2));
+
+    await vi.waitFor(() => expect(uploaded()).toEqual(['a:pending']));
+    answerMint();
+    await Promise.all([mint, completed]);
+    expect(uploaded()).toEqual(['a:pending', 'a:completed']);
+  });
+
+  it('still uploads the newer copy when an older upload fails', async () => {
+    const answerMint = deferUpload();
+    const mint = pushTransfer(transfer('a', 'pending', 1));
+    const completed = pushTransfer(transfer('a', 'completed', 2));
+
+    await vi.waitFor(() => expect(uploaded()).toEqual(['a:pending']));
+    answerMint('offline');
+    await expect(mint).rejects.toThrow('Could not sync transfer: offline');
+    await completed;
+    expect(uploaded()).toEqual(['a:pending', 'a:completed']);
+  });
+
+  it('does not hold back other transfers', async () => {
+    const answerA = deferUpload();
+    const a = pushTransfer(transfer('a', 'pending', 1));
+    await pushTransfer(transfer('b', 'completed', 2));
+
+    expect(uploaded()).toEqual(['a:pending', 'b:completed']);
+    answerA();
+    await a;
+  });
+});
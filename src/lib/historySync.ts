@@ -0,0 +1,103 @@
+import { isSessionFor, isSessionSyncAvailable } from './session';
+import { supabase } from './supabase';
+import type { TransferRecord, TransferStatus, TransferStepRecord } from './transferHistory';
+
+// Row in `wallet_transfers` (see supabase/wallet_transfers.sql)
+interface WalletTransferRow {
+  id: string;
+  address: string;
+  token: TransferRecord['token'];
+  amount: string;
+  source_chain_id: number;
+  destination_chain_id: number;
+  speed: TransferRecord['speed'] | null;
+  recipient: string | null;
+  status: TransferStatus;
+  steps: TransferStepRecord[];
+  source_tx_hash: string | null;
+  receive_tx_hash: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const toRow = (record: TransferRecord): WalletTransferRow => ({
+  id: record.id,
+  address: record.address,
+  token: record.token,
+  amount: record.amount,
+  source_chain_id: record.sourceChainId,
+  destination_chain_id: record.destinationChainId,
+  speed: record.speed ?? null,
+  recipient: record.recipient ?? null,
+  status: record.status,
+  steps: record.steps,
+  source_tx_hash: record.sourceTxHash ?? null,
+  receive_tx_hash: record.receiveTxHash ?? null,
+  error: record.error ?? null,
+  created_at: new Date(record.createdAt).toISOString(),
+  updated_at: new Date(record.updatedAt).toISOString(),
+});
+
+const toRecord = (row: WalletTransferRow): TransferRecord => ({
+  id: row.id,
+  address: row.address,
+  token: row.token,
+  amount: row.amount,
+  sourceChainId: row.source_chain_id,
+  destinationChainId: row.destination_chain_id,
+  speed: row.speed ?? undefined,
+  recipient: row.recipient ?? undefined,
+  status: row.status,
+  steps: row.steps,
+  sourceTxHash: row.source_tx_hash ?? undefined,
+  receiveTxHash: row.receive_tx_hash ?? undefined,
+  error: row.error ?? undefined,
+  createdAt: Date.parse(row.created_at),
+  updatedAt: Date.parse(row.updated_at),
+});
+
+// Without Supabase, history stays in this browser only
+export const isHistorySyncAvailable = isSessionSyncAvailable;
+
+// Row level security keeps each signed-in wallet to its own rows
+const isSyncedFor = (address: string) => isHistorySyncAvailable && isSessionFor(address);
+
+async function upsertTransfer(record: TransferRecord): Promise<void> {
+  if (!supabase || !isSyncedFor(record.address)) return;
+
+  const { error } = await supabase.from('wallet_transfers').upsert(toRow(record));
+  if (error) throw new Error(`Could not sync transfer: ${error.message}`);
+}
+
+// Upload still running for each transfer
+const uploads = new Map<string, Promise<void>>();
+
+// Upload a transfer when its wallet is signed in; other wallets stay local.
+// A transfer is saved at every step, so its uploads run one at a time in the
+// order they were made and an older copy never lands after a newer one.
+export function pushTransfer(record: TransferRecord): Promise<void> {
+  const previous = uploads.get(record.id) ?? Promise.resolve();
+  // A failed upload does not hold back the newer copy
+  const upload = previous.catch(() => undefined).then(() => upsertTransfer(record));
+  uploads.set(record.id, upload);
+
+  const release = () => {
+    if (uploads.get(record.id) === upload) uploads.delete(record.id);
+  };
+  upload.then(release, release);
+  return upload;
+}
+
+export async function pullTransfers(address: string): Promise<TransferRecord[]> {
+  if (!supabase || !isSyncedFor(address)) return [];
+
+  const { data, error } = await supabase
+    .from('wallet_transfers')
+    .select('*')
+    // Addresses are hex, so a case-insensitive match has no wildcards to worry about
+    .ilike('address', address)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Could not load synced history: ${error.message}`);
+  return (data as WalletTransferRow[]).map(toRecord);
+}
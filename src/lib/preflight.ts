@@ -0,0 +1,180 @@
+import { erc20Abi, formatUnits, parseUnits, type Address } from 'viem';
+import { type BridgeToken, getChainConfig, getChainName, getChainToken } from '../config/chains';
+import { UnsupportedChainError, getBridgeKitChains, isBridgeKitToken, resolveBridgeKitChain } from './bridgeKitChains';
+import { getCctpContracts } from './cctpProtocol';
+import { withRpcFailover } from './rpc';
+
+export type PreflightSeverity = 'error' | 'warning';
+
+export type PreflightCode =
+  | 'invalid-amount'
+  | 'same-chain'
+  | 'unsupported-route'
+  | 'unsupported-token'
+  | 'insufficient-balance'
+  | 'insufficient-source-gas'
+  | 'insufficient-destination-gas'
+  | 'approval-required'
+  | 'check-failed';
+
+export interface PreflightIssue {
+  code: PreflightCode;
+  severity: PreflightSeverity;
+  message: string;
+}
+
+export interface PreflightParams {
+  token: BridgeToken;
+  amount: string;
+  sourceChainId: number;
+  destinationChainId: number;
+  owner: Address;
+}
+
+export interface PreflightResult {
+  issues: PreflightIssue[];
+  // True when nothing blocks the transfer; warnings may still be present
+  canBridge: boolean;
+}
+
+// Rough gas usage per CCTP transaction, used to judge whether a wallet can pay for it
+const APPROVE_GAS = 60_000n;
+const BURN_GAS = 200_000n;
+const MINT_GAS = 250_000n;
+// Headroom for gas price moving between the check and the transaction
+const GAS_PRICE_BUFFER_PERCENT = 150n;
+
+interface GasCheck {
+  balance: bigint;
+  required: bigint;
+}
+
+// Native balance next to the cost of the given gas units at the current gas price
+async function readGasCheck(chainId: number, owner: Address, gasUnits: bigint): Promise<GasCheck> {
+  const [balance, gasPrice] = await withRpcFailover(chainId, (client) =>
+    Promise.all([client.getBalance({ address: owner }), client.getGasPrice()])
+  );
+  return { balance, required: (gasUnits * gasPrice * GAS_PRICE_BUFFER_PERCENT) / 100n };
+}
+
+function formatNative(chainId: number, value: bigint): string {
+  const currency = getChainConfig(chainId)!.viemChain.nativeCurrency;
+  return `${parseFloat(formatUnits(value, currency.decimals)).toFixed(6)} ${currency.symbol}`;
+}
+
+// Check everything that would make a transfer fail before any wallet prompt:
+// route support, token balance, gas on both chains and the existing allowance.
+export async function runPreflight({ token, amount, sourceChainId, destinationChainId, owner }: PreflightParams): Promise<PreflightResult> {
+  const issues: PreflightIssue[] = [];
+  const finish = (): PreflightResult => ({
+    issues,
+    canBridge: !issues.some((issue) => issue.severity === 'error'),
+  });
+
+  const tokenInfo = getChainToken(sourceChainId, token);
+  const missingOn = [sourceChainId, destinationChainId].find((chainId) => !getChainToken(chainId, token));
+  if (missingOn !== undefined) {
+    issues.push({ code: 'unsupported-route', severity: 'error', message: `${token} is not available on ${getChainName(missingOn)}.` });
+    return finish();
+  }
+
+  let rawAmount: bigint | null = null;
+  try {
+    rawAmount = tokenInfo ? parseUnits(amount, tokenInfo.decimals) : null;
+  } catch {
+    rawAmount = null;
+  }
+  if (rawAmount === null || rawAmount <= 0n) {
+    issues.push({ code: 'invalid-amount', severity: 'error', message: `Please enter a valid ${token} amount` });
+    return finish();
+  }
+
+  if (sourceChainId === destinationChainId) {
+    issues.push({ code: 'same-chain', severity: 'error', message: 'Source and destination must be different chains.' });
+    return finish();
+  }
+
+  if (!isBridgeKitToken(token)) {
+    issues.push({ code: 'unsupported-token', severity: 'error', message: `Bridge Kit cannot bridge ${token} yet. Only USDC transfers are supported.` });
+    return finish();
+  }
+
+  try {
+    const supportedChains = getBridgeKitChains();
+    resolveBridgeKitChain(sourceChainId, supportedChains);
+    resolveBridgeKitChain(destinationChainId, supportedChains);
+  } catch (err) {
+    if (!(err instanceof UnsupportedChainError)) throw err;
+    issues.push({ code: 'unsupported-route', severity: 'error', message: err.message });
+    return finish();
+  }
+
+  const sourceName = getChainName(sourceChainId);
+  const destinationName = getChainName(destinationChainId);
+  const { tokenMessenger } = getCctpContracts(sourceChainId);
+  const tokenAddress = tokenInfo!.contractAddress as Address;
+
+  const [balance, allowance] = await Promise.allSettled([
+    withRpcFailover(sourceChainId, (client) =>
+      client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'balanceOf', args: [owner] })
+    ),
+    withRpcFailover(sourceChainId, (client) =>
+      client.readContract({ address: tokenAddress, abi: erc20Abi, functionName: 'allowance', args: [owner, tokenMessenger] })
+    ),
+  ]);
+
+  if (balance.status === 'rejected') {
+    issues.push({ code: 'check-failed', severity: 'warning', message: `Could not check your ${token} balance on ${sourceName}.` });
+  } else if (balance.value < rawAmount) {
+    issues.push({
+      code: 'insufficient-balance',
+      severity: 'error',
+      message: `Insufficient ${token} on ${sourceName}: you have ${formatUnits(balance.value, tokenInfo!.decimals)}, need ${amount}.`,
+    });
+  }
+
+  const needsApproval = allowance.status === 'fulfilled' && allowance.value < rawAmount;
+  if (needsApproval) {
+    issues.push({
+      code: 'approval-required',
+      severity: 'warning',
+      message: `You will first be asked to approve ${amount} ${token} for the bridge contract.`,
+    });
+  }
+
+  const [sourceGas, destinationGas] = await Promise.allSettled([
+    // Assume an approval is needed when the allowance could not be read
+    readGasCheck(sourceChainId, owner, allowance.status === 'fulfilled' && !needsApproval ? BURN_GAS : APPROVE_GAS + BURN_GAS),
+    readGasCheck(destinationChainId, owner, MINT_GAS),
+  ]);
+
+  if (sourceGas.status === 'rejected') {
+    issues.push({ code: 'check-failed', severity: 'warning', message: `Could not check your gas balance on ${sourceName}.` });
+  } else {
+    // Where gas is paid in the bridged token (Arc), the transfer and the gas share one balance
+    const sourceCurrency = getChainConfig(sourceChainId)!.viemChain.nativeCurrency;
+    const spentFromGasBalance = sourceCurrency.symbol === token ? parseUnits(amount, sourceCurrency.decimals) : 0n;
+    const { balance: gasBalance, required } = sourceGas.value;
+    const available = gasBalance > spentFromGasBalance ? gasBalance - spentFromGasBalance : 0n;
+    if (available < required) {
+      issues.push({
+        code: 'insufficient-source-gas',
+        severity: 'error',
+        message: `Not enough gas on ${sourceName}: about ${formatNative(sourceChainId, required)} is needed, you have ${formatNative(sourceChainId, available)} available.`,
+      });
+    }
+  }
+
+  if (destinationGas.status === 'rejected') {
+    issues.push({ code: 'check-failed', severity: 'warning', message: `Could not check your gas balance on ${destinationName}.` });
+  } else if (destinationGas.value.balance < destinationGas.value.required) {
+    // Without destination gas the burn still goes through, but the mint has to wait until the wallet is funded
+    issues.push({
+      code: 'insufficient-destination-gas',
+      severity: 'error',
+      message: `Not enough gas on ${destinationName} to receive the transfer: about ${formatNative(destinationChainId, destinationGas.value.required)} is needed, you have ${formatNative(destinationChainId, destinationGas.value.balance)}.`,
+    });
+  }
+
+  return finish();
+}
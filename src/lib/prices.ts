@@ -0,0 +1,32 @@
+// Mainnet USD spot prices, used to put testnet gas costs in familiar terms
+const PRICE_API_URL = 'https://api.coinbase.com/v2/prices';
+const PRICE_TTL_MS = 5 * 60 * 1000;
+
+// Stablecoins are priced at their peg instead of being looked up
+const PEGGED_USD: Record<string, number> = { USDC: 1 };
+
+const cache = new Map<string, { price: number | null; fetchedAt: number }>();
+
+export async function getUsdPrice(symbol: string): Promise<number | null> {
+  if (symbol in PEGGED_USD) return PEGGED_USD[symbol];
+
+  const cached = cache.get(symbol);
+  if (cached && Date.now() - cached.fetchedAt < PRICE_TTL_MS) {
+    return cached.price;
+  }
+
+  let price: number | null = null;
+  try {
+    const response = await fetch(`${PRICE_API_URL}/${symbol}-USD/spot`);
+    if (response.ok) {
+      const data = await response.json();
+      const amount = parseFloat(data?.data?.amount);
+      price = Number.isFinite(amount) ? amount : null;
+    }
+  } catch (err) {
+    console.warn(`Failed to fetch ${symbol} price:`, err);
+  }
+
+  cache.set(symbol, { price, fetchedAt: Date.now() });
+  return price;
+}
@@ -0,0 +1,93 @@
+import { Blockchain, type EstimateResult } from '@circle-fin/bridge-kit';
+import { describe, expect, it, vi } from 'vitest';
+import { ARC_CHAIN_ID, SEPOLIA_CHAIN_ID } from '../config/chains';
+import { buildQuote, formatDuration, formatSpeedFee } from './quote';
+
+vi.mock('./prices', () => ({
+  getUsdPrice: vi.fn(async (symbol: string) => ({ ETH: 2500, USDC: 1 })[symbol] ?? null),
+}));
+
+// Shaped like Bridge Kit 1.1.2's CCTP v2 estimate: fees are formatted decimal strings
+const sepoliaToArc = (providerFee: string): EstimateResult => ({
+  gasFees: [
+    {
+      name: 'Approve',
+      token: 'ETH',
+      blockchain: Blockchain.Ethereum_Sepolia,
+      fees: { gas: 55_000n, gasPrice: 1_500_000_000n, fee: '0.0000825' },
+    },
+    {
+      name: 'Burn',
+      token: 'ETH',
+      blockchain: Blockchain.Ethereum_Sepolia,
+      fees: { gas: 150_000n, gasPrice: 1_500_000_000n, fee: '0.000225' },
+    },
+    {
+      name: 'Mint',
+      token: 'USDC',
+      blockchain: Blockchain.Arc_Testnet,
+      fees: { gas: 200_000n, gasPrice: 160_000_000_000n, fee: '0.032' },
+    },
+  ],
+  fees: [{ type: 'provider', token: 'USDC', amount: providerFee }],
+});
+
+describe('buildQuote', () => {
+  it('reads the formatted gas fees of each step on its own chain', async () => {
+    const quote = await buildQuote(sepoliaToArc('0.00013'), SEPOLIA_CHAIN_ID, ARC_CHAIN_ID, 'FAST');
+
+    expect(quote.gas).toEqual([
+      { step: 'Approve', chainId: SEPOLIA_CHAIN_ID, gasUnits: 55_000n, native: '0.0000825', symbol: 'ETH', usd: 0.0000825 * 2500 },
+      { step: 'Burn', chainId: SEPOLIA_CHAIN_ID, gasUnits: 150_000n, native: '0.000225', symbol: 'ETH', usd: 0.000225 * 2500 },
+      { step: 'Mint', chainId: ARC_CHAIN_ID, gasUnits: 200_000n, native: '0.032', symbol: 'USDC', usd: 0.032 },
+    ]);
+    expect(quote.protocolFee).toBe('0.00013');
+    expect(quote.totalUsd).toBeCloseTo(0.0000825 * 2500 + 0.000225 * 2500 + 0.032 + 0.00013, 10);
+    expect(quote.attestationSeconds).toBe(20);
+  });
+
+  it('adds the kit fee to the provider fee', async () => {
+    const estimate = sepoliaToArc('0.1');
+    estimate.fees.push({ type: 'kit', token: 'USDC', amount: '0.2' });
+
+    expect((await buildQuote(estimate, SEPOLIA_CHAIN_ID, ARC_CHAIN_ID, 'FAST')).protocolFee).toBe('0.3');
+  });
+
+  it('leaves the gas and total unpriced when a step could not be estimated', async () => {
+    const estimate = sepoliaToArc('0');
+    estimate.gasFees[2] = { ...estimate.gasFees[2], fees: null, error: new Error('execution reverted') };
+
+    const quote = await buildQuote(estimate, SEPOLIA_CHAIN_ID, ARC_CHAIN_ID, 'SLOW');
+    expect(quote.gas[2]).toMatchObject({ native: null, gasUnits: null, usd: null });
+    expect(quote.totalUsd).toBeNull();
+  });
+});
+
+describe('formatSpeedFee', () => {
+  it('shows a numeric fee for both speeds once they are quoted', async () => {
+    // Bridge Kit quotes the Fast Transfer max fee and a zero provider fee for Standard
+    const fast = await buildQuote(sepoliaToArc('0.00013'), SEPOLIA_CHAIN_ID, ARC_CHAIN_ID, 'FAST');
+    const standard = await buildQuote(sepoliaToArc('0'), SEPOLIA_CHAIN_ID, ARC_CHAIN_ID, 'SLOW');
+
+    for (const quote of [fast, standard]) {
+      expect(Number.isFinite(parseFloat(quote.protocolFee))).toBe(true);
+      expect(quote.totalUsd).toEqual(expect.any(Number));
+    }
+    expect(fast.totalUsd!).toBeGreaterThan(standard.totalUsd!);
+    expect(formatSpeedFee('FAST', fast)).toBe('0.000130 USDC fee');
+    expect(formatSpeedFee('SLOW', standard)).toBe('no fee');
+  });
+
+  it('falls back to a generic label until the speed is quoted', () => {
+    expect(formatSpeedFee('FAST', undefined)).toBe('fee varies');
+    expect(formatSpeedFee('SLOW', undefined)).toBe('no fee');
+  });
+});
+
+describe('formatDuration', () => {
+  it('rounds to seconds, minutes or hours', () => {
+    expect(formatDuration(8)).toBe('~8s');
+    expect(formatDuration(15 * 60)).toBe('~15 min');
+    expect(formatDuration(8 * 60 * 60)).toBe('~8 h');
+  });
+});
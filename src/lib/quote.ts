@@ -0,0 +1,86 @@
+import type { EstimateResult } from '@circle-fin/bridge-kit';
+import { formatUnits, parseUnits } from 'viem';
+import { type TransferSpeed, getAttestationSeconds, getChainConfig } from '../config/chains';
+import { getUsdPrice } from './prices';
+
+// Bridge Kit charges its protocol and kit fees in USDC
+const USDC_DECIMALS = 6;
+
+export interface GasQuote {
+  // Bridge Kit step name: Approve, Burn or Mint
+  step: string;
+  chainId: number;
+  gasUnits: bigint | null;
+  // Fee in the chain's native currency, formatted
+  native: string | null;
+  symbol: string;
+  usd: number | null;
+}
+
+export interface BridgeQuote {
+  gas: GasQuote[];
+  speed: TransferSpeed;
+  // CCTP protocol fee plus any kit fee, in USDC; non-zero for Fast Transfers
+  protocolFee: string;
+  totalUsd: number | null;
+  // Expected wait for the attestation after the burn
+  attestationSeconds: number;
+}
+
+// Turn a Bridge Kit estimate into per-step gas costs in native units and USD.
+// Mint runs on the destination chain; approve and burn run on the source.
+// Bridge Kit reports gas and protocol fees as decimal strings, already formatted
+// in the native currency and USDC.
+export async function buildQuote(
+  estimate: EstimateResult,
+  sourceChainId: number,
+  destinationChainId: number,
+  speed: TransferSpeed
+): Promise<BridgeQuote> {
+  const gas = await Promise.all(estimate.gasFees.map(async (entry): Promise<GasQuote> => {
+    const chainId = entry.name === 'Mint' ? destinationChainId : sourceChainId;
+    const currency = getChainConfig(chainId)!.viemChain.nativeCurrency;
+    const native = entry.fees?.fee ?? null;
+    const price = native === null ? null : await getUsdPrice(currency.symbol);
+
+    return {
+      step: entry.name,
+      chainId,
+      gasUnits: entry.fees?.gas ?? null,
+      native,
+      symbol: currency.symbol,
+      usd: native !== null && price !== null ? parseFloat(native) * price : null,
+    };
+  }));
+
+  const protocolFee = formatUnits(
+    estimate.fees.reduce((sum, fee) => sum + parseUnits(fee.amount ?? '0', USDC_DECIMALS), 0n),
+    USDC_DECIMALS
+  );
+  const gasUsd = gas.every((entry) => entry.usd !== null)
+    ? gas.reduce((sum, entry) => sum + entry.usd!, 0)
+    : null;
+
+  return {
+    gas,
+    speed,
+    protocolFee,
+    totalUsd: gasUsd === null ? null : gasUsd + parseFloat(protocolFee),
+    attestationSeconds: getAttestationSeconds(sourceChainId, speed)!,
+  };
+}
+
+// Fee shown on a speed option. Standard Transfers are free; the Fast Transfer
+// fee is only known once quoted.
+export function formatSpeedFee(speed: TransferSpeed, quote: BridgeQuote | undefined): string {
+  if (!quote) return speed === 'SLOW' ? 'no fee' : 'fee varies';
+  const fee = parseFloat(quote.protocolFee);
+  return fee > 0 ? `${fee.toFixed(6)} USDC fee` : 'no fee';
+}
+
+// Rough human-readable wait, e.g. "~8s", "~15 min", "~8 h"
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `~${seconds}s`;
+  if (seconds < 60 * 60) return `~${Math.round(seconds / 60)} min`;
+  return `~${Math.round(seconds / (60 * 60))} h`;
+}
@@ -0,0 +1,58 @@
+import { getAddress, isAddress, type Address } from 'viem';
+import { normalize } from 'viem/ens';
+import { SEPOLIA_CHAIN_ID, getChainName } from '../config/chains';
+import { withRpcFailover } from './rpc';
+
+export interface RecipientCheck {
+  address: Address | null;
+  // Set when the input was an ENS name
+  ensName?: string;
+  error?: string;
+  // Non-blocking note, e.g. the recipient is a contract
+  warning?: string;
+}
+
+// EIP-7702 delegated accounts carry a delegation designator as code but are still EOAs
+const DELEGATION_PREFIX = '0xef0100';
+
+function looksLikeEnsName(input: string): boolean {
+  return input.includes('.') && !input.startsWith('0x');
+}
+
+// Resolve a recipient typed by the user: a checksummed or all-lowercase
+// address, or an ENS name. ENS names resolve on Sepolia, the ENS testnet these chains share.
+export async function checkRecipient(input: string, destinationChainId: number): Promise<RecipientCheck> {
+  const value = input.trim();
+  let address: Address;
+  let ensName: string | undefined;
+
+  if (looksLikeEnsName(value)) {
+    try {
+      ensName = normalize(value);
+    } catch {
+      return { address: null, error: `"${value}" is not a valid ENS name.` };
+    }
+    const resolved = await withRpcFailover(SEPOLIA_CHAIN_ID, (client) => client.getEnsAddress({ name: ensName! }));
+    if (!resolved) {
+      return { address: null, ensName, error: `${ensName} does not resolve to an address on Sepolia ENS.` };
+    }
+    address = resolved;
+  } else if (isAddress(value, { strict: true })) {
+    address = getAddress(value);
+  } else if (isAddress(value, { strict: false })) {
+    return { address: null, error: 'Address checksum does not match. Check for typos, or paste it in all lowercase.' };
+  } else {
+    return { address: null, error: 'Enter a valid 0x address or ENS name.' };
+  }
+
+  const code = await withRpcFailover(destinationChainId, (client) => client.getCode({ address }));
+  const isContract = !!code && code !== '0x' && !code.startsWith(DELEGATION_PREFIX);
+
+  return {
+    address,
+    ensName,
+    warning: isContract
+      ? `This address is a contract on ${getChainName(destinationChainId)}. Make sure it can receive and use USDC, or the funds may be stuck.`
+      : undefined,
+  };
+}
@@ -0,0 +1,28 @@
+import { isHash, type Hex } from 'viem';
+import { getChainConfig } from '../config/chains';
+
+export interface TxRoute {
+  chainId: number;
+  hash: Hex;
+}
+
+export const ANALYTICS_PATH = '/analytics';
+
+export const isAnalyticsPath = (pathname: string) => pathname.replace(/\/$/, '') === ANALYTICS_PATH;
+
+// Shareable status page for a transfer: /tx/:chainId/:hash, keyed by the burn on the source chain
+export function getTxStatusPath(chainId: number, hash: string): string {
+  return `/tx/${chainId}/${hash}`;
+}
+
+// Undefined when the path is not a status page; invalid chains or hashes still
+// match so the page can say what is wrong with the link
+export function parseTxRoute(pathname: string): { route?: TxRoute; error?: string } | undefined {
+  const match = pathname.match(/^\/tx\/([^/]+)\/([^/]+)\/?$/);
+  if (!match) return undefined;
+
+  const chainId = Number(match[1]);
+  if (!getChainConfig(chainId)) return { error: `Chain ${match[1]} is not supported by this bridge.` };
+  if (!isHash(match[2])) return { error: 'The link does not contain a valid transaction hash.' };
+  return { route: { chainId, hash: match[2] } };
+}
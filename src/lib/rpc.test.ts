@@ -0,0 +1,126 @@
+import {
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  RpcRequestError,
+  TimeoutError,
+  createPublicClient,
+  type PublicClient,
+} from 'viem';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SEPOLIA_CHAIN_ID, getChainConfig } from '../config/chains';
+
+const [primary, secondary, tertiary] = getChainConfig(SEPOLIA_CHAIN_ID)!.rpcUrls;
+
+const urlOf = (client: PublicClient) => (client.transport as unknown as { url: string }).url;
+
+const httpError = (url: string, status: number) => new HttpRequestError({ url, status });
+
+const revert = () =>
+  new ContractFunctionExecutionError(new ContractFunctionRevertedError({ abi: [], functionName: 'balanceOf', message: 'paused' }), {
+    abi: [],
+    functionName: 'balanceOf',
+  });
+
+// Endpoint health is module state, so every test starts from a fresh module
+let rpc: typeof import('./rpc');
+
+beforeEach(async () => {
+  vi.resetModules();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  rpc = await import('./rpc');
+});
+
+describe('isTransportError', () => {
+  it('accepts HTTP failures and timeouts anywhere in the cause chain', () => {
+    expect(rpc.isTransportError(httpError(primary, 429))).toBe(true);
+    expect(rpc.isTransportError(httpError(primary, 503))).toBe(true);
+    expect(rpc.isTransportError(new TimeoutError({ body: {}, url: primary }))).toBe(true);
+    expect(
+      rpc.isTransportError(
+        new ContractFunctionExecutionError(httpError(primary, 502), { abi: [], functionName: 'balanceOf' })
+      )
+    ).toBe(true);
+  });
+
+  it('rejects reverts, JSON-RPC errors and plain errors', () => {
+    expect(rpc.isTransportError(revert())).toBe(false);
+    expect(rpc.isTransportError(new RpcRequestError({ body: {}, error: { code: -32000, message: 'nonce too low' }, url: primary }))).toBe(false);
+    expect(rpc.isTransportError(new Error('boom'))).toBe(false);
+  });
+});
+
+describe('withRpcFailover', () => {
+  it('moves on to the next endpoint after a transport error and records it', async () => {
+    const read = vi.fn(async (client: PublicClient) => {
+      if (urlOf(client) === primary) throw httpError(primary, 503);
+      return urlOf(client);
+    });
+
+    await expect(rpc.withRpcFailover(SEPOLIA_CHAIN_ID, read)).resolves.toBe(secondary);
+    expect(read).toHaveBeenCalledTimes(2);
+
+    const [primaryHealth, secondaryHealth] = rpc.getRpcHealth(SEPOLIA_CHAIN_ID);
+    expect(primaryHealth).toMatchObject({ status: 'failing', consecutiveFailures: 1 });
+    expect(secondaryHealth).toMatchObject({ status: 'healthy', consecutiveFailures: 0 });
+    // The failing endpoint is tried last next time
+    expect(rpc.getRankedRpcUrls(SEPOLIA_CHAIN_ID)).toEqual([secondary, tertiary, primary]);
+  });
+
+  it('rethrows a revert unchanged without trying other endpoints', async () => {
+    const error = revert();
+    const read = vi.fn(async () => {
+      throw error;
+    });
+
+    await expect(rpc.withRpcFailover(SEPOLIA_CHAIN_ID, read)).rejects.toBe(error);
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(rpc.getRpcHealth(SEPOLIA_CHAIN_ID).every((entry) => entry.status === 'unknown')).toBe(true);
+  });
+
+  it('reports an RPC failure once every endpoint has failed at the transport level', async () => {
+    const read = vi.fn(async (client: PublicClient) => {
+      throw httpError(urlOf(client), 502);
+    });
+
+    await expect(rpc.withRpcFailover(SEPOLIA_CHAIN_ID, read)).rejects.toMatchObject({
+      name: 'RpcFailureError',
+      chainId: SEPOLIA_CHAIN_ID,
+    });
+    expect(read).toHaveBeenCalledTimes(3);
+    expect(rpc.getRpcHealth(SEPOLIA_CHAIN_ID).every((entry) => entry.status === 'failing')).toBe(true);
+  });
+});
+
+describe('failoverTransport', () => {
+  // JSON-RPC endpoints served through a stubbed fetch: the primary is down and
+  // the secondary reverts every eth_call
+  function stubEndpoints() {
+    const fetch = vi.fn(async (url: string, init: RequestInit) => {
+      const { id } = JSON.parse(init.body as string);
+      if (url === primary) return new Response('Service Unavailable', { status: 503 });
+      return Response.json({ jsonrpc: '2.0', id, error: { code: 3, message: 'execution reverted: paused', data: '0x' } });
+    });
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('passes reverts through to wagmi without retrying or marking the endpoint unhealthy', async () => {
+    const fetch = stubEndpoints();
+    const client = createPublicClient({ transport: rpc.failoverTransport(SEPOLIA_CHAIN_ID) });
+
+    const call = client.call({ to: '0x0000000000000000000000000000000000000001', data: '0x' });
+    await expect(call).rejects.toThrow('execution reverted: paused');
+    await expect(call).rejects.not.toMatchObject({ name: 'RpcFailureError' });
+
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([primary, secondary]);
+    const [primaryHealth, secondaryHealth, tertiaryHealth] = rpc.getRpcHealth(SEPOLIA_CHAIN_ID);
+    expect(primaryHealth.status).toBe('failing');
+    expect(secondaryHealth.status).toBe('unknown');
+    expect(tertiaryHealth.status).toBe('unknown');
+  });
+});
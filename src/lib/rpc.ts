@@ -0,0 +1,159 @@
+import {
+  BaseError,
+  HttpRequestError,
+  TimeoutError,
+  WebSocketRequestError,
+  createPublicClient,
+  custom,
+  http,
+  type PublicClient,
+  type Transport,
+} from 'viem';
+import { getChainConfig, getChainName } from '../config/chains';
+import { RpcFailureError } from './bridgeErrors';
+import { getRpcUrls } from './rpcSettings';
+
+export interface RpcEndpointHealth {
+  url: string;
+  status: 'unknown' | 'healthy' | 'failing';
+  latencyMs: number | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+  updatedAt: number | null;
+}
+
+// Per-request timeout before failing over to the next endpoint
+const RPC_TIMEOUT_MS = 8000;
+
+const clients = new Map<string, PublicClient>();
+const health = new Map<string, RpcEndpointHealth>();
+
+function getHealth(url: string): RpcEndpointHealth {
+  return health.get(url) ?? {
+    url,
+    status: 'unknown',
+    latencyMs: null,
+    consecutiveFailures: 0,
+    lastError: null,
+    updatedAt: null,
+  };
+}
+
+function recordSuccess(url: string, latencyMs: number) {
+  health.set(url, {
+    ...getHealth(url),
+    status: 'healthy',
+    latencyMs,
+    consecutiveFailures: 0,
+    lastError: null,
+    updatedAt: Date.now(),
+  });
+}
+
+function recordFailure(url: string, err: unknown) {
+  const previous = getHealth(url);
+  health.set(url, {
+    ...previous,
+    status: 'failing',
+    consecutiveFailures: previous.consecutiveFailures + 1,
+    lastError: err instanceof Error ? err.message : String(err),
+    updatedAt: Date.now(),
+  });
+}
+
+// Configured order is the preferred order; endpoints that are currently failing
+// drop behind the ones that are not, fewest failures first.
+export function getRankedRpcUrls(chainId: number): string[] {
+  return getRpcUrls(chainId)
+    .map((url, index) => ({ url, index, failures: getHealth(url).consecutiveFailures }))
+    .sort((a, b) => a.failures - b.failures || a.index - b.index)
+    .map(({ url }) => url);
+}
+
+export function getRpcHealth(chainId: number): RpcEndpointHealth[] {
+  return getRpcUrls(chainId).map(getHealth);
+}
+
+export interface RpcProbeResult {
+  ok: boolean;
+  latencyMs: number | null;
+  error?: string;
+}
+
+// Check that an endpoint answers and serves the expected chain before it is saved
+export async function probeRpcEndpoint(rpcUrl: string, chainId: number): Promise<RpcProbeResult> {
+  const startedAt = performance.now();
+  try {
+    const reportedChainId = await getPublicClient(chainId, rpcUrl).getChainId();
+    const latencyMs = Math.round(performance.now() - startedAt);
+    if (reportedChainId !== chainId) {
+      return { ok: false, latencyMs, error: `Endpoint serves chain ID ${reportedChainId}, expected ${chainId}.` };
+    }
+    return { ok: true, latencyMs };
+  } catch (err) {
+    const { shortMessage, message } = err as { shortMessage?: string; message?: string };
+    return { ok: false, latencyMs: null, error: shortMessage || message || 'Endpoint did not respond.' };
+  }
+}
+
+export function getPublicClient(chainId: number, rpcUrl: string): PublicClient {
+  const key = `${chainId}:${rpcUrl}`;
+  let client = clients.get(key);
+  if (!client) {
+    const chain = getChainConfig(chainId);
+    client = createPublicClient({
+      chain: chain?.viemChain,
+      // Failover replaces transport-level retries
+      transport: http(rpcUrl, { retryCount: 0, timeout: RPC_TIMEOUT_MS }),
+    }) as PublicClient;
+    clients.set(key, client);
+  }
+  return client;
+}
+
+// Failures of the endpoint itself (unreachable, timed out, rate limited, 5xx).
+// Reverts and JSON-RPC errors would come back the same from any endpoint.
+export function isTransportError(err: unknown): boolean {
+  return (
+    err instanceof BaseError &&
+    err.walk((e) => e instanceof HttpRequestError || e instanceof TimeoutError || e instanceof WebSocketRequestError) !== null
+  );
+}
+
+// Run a read against the chain's endpoints in ranked order, moving on to the
+// next endpoint when one fails at the transport level. Any other error is the
+// answer to the read and is rethrown as is.
+export async function withRpcFailover<T>(chainId: number, read: (client: PublicClient) => Promise<T>): Promise<T> {
+  const urls = getRankedRpcUrls(chainId);
+  if (urls.length === 0) {
+    throw new Error(`No RPC endpoints configured for ${getChainName(chainId)}`);
+  }
+
+  let lastError: unknown;
+  for (const url of urls) {
+    const startedAt = performance.now();
+    try {
+      const result = await read(getPublicClient(chainId, url));
+      recordSuccess(url, Math.round(performance.now() - startedAt));
+      return result;
+    } catch (err) {
+      if (!isTransportError(err)) throw err;
+      recordFailure(url, err);
+      lastError = err;
+      console.warn(`RPC ${url} failed for ${getChainName(chainId)}, trying next endpoint:`, err);
+    }
+  }
+
+  const message = lastError instanceof Error ? lastError.message : String(lastError);
+  throw new RpcFailureError(chainId, `all endpoints failed (${message})`, lastError);
+}
+
+// Transport for wagmi that sends every request through the failover, so custom
+// RPC settings apply to wagmi's reads without a reload. viem's own retries are
+// off: they would run the whole failover again for each attempt.
+export function failoverTransport(chainId: number): Transport {
+  return custom(
+    { request: ({ method, params }) => withRpcFailover(chainId, (client) => client.request({ method, params } as never)) },
+    { retryCount: 0 }
+  );
+}
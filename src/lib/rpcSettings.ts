@@ -0,0 +1,67 @@
+import { getChainConfig } from '../config/chains';
+
+// User-provided RPC endpoints for one chain
+export interface ChainRpcSettings {
+  urls: string[];
+  // Use only the custom endpoints instead of trying them before the defaults
+  replaceDefaults: boolean;
+}
+
+export type RpcSettings = Record<number, ChainRpcSettings>;
+
+const STORAGE_KEY = 'rpc-settings';
+const ALCHEMY_API_KEY: string | undefined = import.meta.env.VITE_ALCHEMY_API_KEY;
+
+let settings: RpcSettings | null = null;
+const listeners = new Set<() => void>();
+
+export function loadRpcSettings(): RpcSettings {
+  if (!settings) {
+    try {
+      settings = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as RpcSettings;
+    } catch {
+      settings = {};
+    }
+  }
+  return settings;
+}
+
+// Store a chain's custom endpoints; null or an empty list goes back to the defaults
+export function saveChainRpcSettings(chainId: number, chainSettings: ChainRpcSettings | null) {
+  const next = { ...loadRpcSettings() };
+  if (chainSettings && chainSettings.urls.length > 0) {
+    next[chainId] = chainSettings;
+  } else {
+    delete next[chainId];
+  }
+  settings = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeRpcSettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getAlchemyRpcUrl(chainId: number): string | undefined {
+  const network = getChainConfig(chainId)?.alchemyNetwork;
+  return network && ALCHEMY_API_KEY ? `https://${network}.g.alchemy.com/v2/${ALCHEMY_API_KEY}` : undefined;
+}
+
+// Endpoints for a chain in preference order: the user's own, then Alchemy when
+// a key is configured, then the registry defaults
+export function getRpcUrls(chainId: number): string[] {
+  const custom = loadRpcSettings()[chainId];
+  if (custom?.replaceDefaults) return custom.urls;
+
+  const alchemyUrl = getAlchemyRpcUrl(chainId);
+  const urls = [
+    ...(custom?.urls ?? []),
+    ...(alchemyUrl ? [alchemyUrl] : []),
+    ...(getChainConfig(chainId)?.rpcUrls ?? []),
+  ];
+  return [...new Set(urls)];
+}
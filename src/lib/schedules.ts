@@ -0,0 +1,88 @@
+import { type Schedule, type ScheduleRun } from './scheduling';
+
+const SCHEDULES_KEY = 'bridge-schedules';
+const RUNS_KEY = 'bridge-schedule-runs';
+// Oldest log entries are dropped past this
+const MAX_RUNS = 100;
+const EXPORT_VERSION = 1;
+
+let schedules: Schedule[] | null = null;
+let runs: ScheduleRun[] | null = null;
+const listeners = new Set<() => void>();
+
+function read<T>(key: string): T[] {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? '[]') as T[];
+  } catch {
+    return [];
+  }
+}
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+function saveSchedules(next: Schedule[]) {
+  schedules = next;
+  localStorage.setItem(SCHEDULES_KEY, JSON.stringify(next));
+  notify();
+}
+
+// Oldest first
+export function loadSchedules(): Schedule[] {
+  schedules ??= read<Schedule>(SCHEDULES_KEY);
+  return schedules;
+}
+
+// Newest first
+export function loadScheduleRuns(): ScheduleRun[] {
+  runs ??= read<ScheduleRun>(RUNS_KEY);
+  return runs;
+}
+
+export function subscribeSchedules(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// New schedules only owe runs from the moment they are saved
+export function addSchedule(schedule: Omit<Schedule, 'id' | 'enabled' | 'createdAt' | 'lastHandledAt'>): Schedule {
+  const now = Date.now();
+  const saved: Schedule = { ...schedule, id: crypto.randomUUID(), enabled: true, createdAt: now, lastHandledAt: now };
+  saveSchedules([...loadSchedules(), saved]);
+  return saved;
+}
+
+export function updateSchedule(id: string, patch: Partial<Omit<Schedule, 'id'>>) {
+  saveSchedules(loadSchedules().map((schedule) => (schedule.id === id ? { ...schedule, ...patch } : schedule)));
+}
+
+// Turning a schedule back on does not catch up on the runs it skipped while off
+export function setScheduleEnabled(id: string, enabled: boolean) {
+  updateSchedule(id, enabled ? { enabled, lastHandledAt: Date.now() } : { enabled });
+}
+
+export function removeSchedule(id: string) {
+  saveSchedules(loadSchedules().filter((schedule) => schedule.id !== id));
+}
+
+// Log a run and mark its due time handled, so it is not offered again
+export function logScheduleRun(run: Omit<ScheduleRun, 'id' | 'loggedAt'>) {
+  const entry: ScheduleRun = { ...run, id: crypto.randomUUID(), loggedAt: Date.now() };
+  runs = [entry, ...loadScheduleRuns()].slice(0, MAX_RUNS);
+  localStorage.setItem(RUNS_KEY, JSON.stringify(runs));
+
+  const schedule = loadSchedules().find((s) => s.id === run.scheduleId);
+  if (schedule && schedule.lastHandledAt < run.dueAt) {
+    updateSchedule(run.scheduleId, { lastHandledAt: run.dueAt });
+  } else {
+    notify();
+  }
+}
+
+// For the headless runner (see scheduler/runner.ts)
+export function exportSchedules(): string {
+  return JSON.stringify({ version: EXPORT_VERSION, schedules: loadSchedules() }, null, 2);
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { ARC_CHAIN_ID, SEPOLIA_CHAIN_ID } from '../config/chains';
+import { DUE_GRACE_MS, findDueRuns, getNextRunTime, getRunTimes, parseSchedules, type Schedule, validateScheduleRule } from './scheduling';
+
+// Rules run in local time, so times are built the same way. June 2026 has no
+// daylight saving change; June 1 is a Monday.
+const june = (day: number, hour = 0, minute = 0) => new Date(2026, 5, day, hour, minute).getTime();
+const MINUTE_MS = 60 * 1000;
+
+const SCHEDULE: Schedule = {
+  id: 'rent',
+  label: 'Rent',
+  token: 'USDC',
+  amount: '100',
+  sourceChainId: SEPOLIA_CHAIN_ID,
+  destinationChainId: ARC_CHAIN_ID,
+  speed: 'FAST',
+  rule: '@monthly',
+  enabled: true,
+  createdAt: june(1),
+  lastHandledAt: june(1),
+};
+
+describe('getRunTimes', () => {
+  it('expands the macros', () => {
+    expect(getNextRunTime('@hourly', june(1, 9, 30))).toBe(june(1, 10));
+    expect(getRunTimes('@daily', june(1), june(3))).toEqual([june(2), june(3)]);
+    expect(getNextRunTime('@weekly', june(1))).toBe(june(7));
+    expect(getNextRunTime('@MONTHLY', june(1))).toBe(new Date(2026, 6, 1).getTime());
+  });
+
+  it('reads ranges, steps and lists', () => {
+    expect(getRunTimes('*/15 9 * * *', june(1, 8), june(1, 10))).toEqual([june(1, 9), june(1, 9, 15), june(1, 9, 30), june(1, 9, 45)]);
+    expect(getRunTimes('0 9-17/4 * * *', june(1), june(2))).toEqual([june(1, 9), june(1, 13), june(1, 17)]);
+    // A start with a step runs to the end of the field
+    expect(getRunTimes('5/20 10 * * *', june(1), june(2))).toEqual([june(1, 10, 5), june(1, 10, 25), june(1, 10, 45)]);
+    expect(getRunTimes('30,0 20,8 * * *', june(1), june(2))).toEqual([june(1, 8), june(1, 8, 30), june(1, 20), june(1, 20, 30)]);
+  });
+
+  it('runs on weekdays, with 7 as Sunday', () => {
+    // Friday 10:00, so the next weekday run is Monday
+    expect(getNextRunTime('0 9 * * 1-5', june(5, 10))).toBe(june(8, 9));
+    expect(getNextRunTime('0 9 * * 7', june(1))).toBe(june(7, 9));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    const days = (rule: string) => getRunTimes(rule, june(1), june(30, 23, 59)).map((time) => new Date(time).getDate());
+
+    // The 13th is a Saturday
+    expect(days('0 9 13 * 5')).toEqual([5, 12, 13, 19, 26]);
+    expect(days('0 9 * * 5')).toEqual([5, 12, 19, 26]);
+    expect(days('0 9 13 * *')).toEqual([13]);
+  });
+
+  it('only starts after the given time', () => {
+    expect(getRunTimes('0 9 * * *', june(1, 9), june(2, 9))).toEqual([june(2, 9)]);
+  });
+});
+
+describe('validateScheduleRule', () => {
+  it('accepts valid rules and macros', () => {
+    expect(validateScheduleRule('0 9 * * 1-5')).toBeNull();
+    expect(validateScheduleRule(' @daily ')).toBeNull();
+  });
+
+  it.each([
+    ['0 9 * *', 'Use five fields: minute hour day-of-month month day-of-week, e.g. "0 9 * * 1-5".'],
+    ['@yearly', 'Use five fields: minute hour day-of-month month day-of-week, e.g. "0 9 * * 1-5".'],
+    ['60 * * * *', 'The minute must be between 0 and 59.'],
+    ['0 24 * * *', 'The hour must be between 0 and 23.'],
+    ['0 0 0 * *', 'The day of month must be between 1 and 31.'],
+    ['0 0 * 13 *', 'The month must be between 1 and 12.'],
+    ['0 0 * * 8', 'The day of week must be between 0 and 7.'],
+    ['10-5 * * * *', 'The minute must be between 0 and 59.'],
+    ['*/0 * * * *', 'The minute must be between 0 and 59.'],
+    ['a * * * *', '"a" is not a valid minute.'],
+    ['0 9 * * 1,', '"" is not a valid day of week.'],
+  ])('rejects "%s"', (rule, message) => {
+    expect(validateScheduleRule(rule)).toBe(message);
+    expect(() => getRunTimes(rule, june(1), june(2))).toThrow(message);
+  });
+});
+
+describe('findDueRuns', () => {
+  const daily = { rule: '0 9 * * *', lastHandledAt: june(1, 9) };
+
+  it('runs a due time within the grace period', () => {
+    expect(findDueRuns(daily, june(2, 9, 59))).toEqual({ missed: [], due: june(2, 9) });
+    expect(findDueRuns(daily, june(2, 9) + DUE_GRACE_MS)).toEqual({ missed: [], due: june(2, 9) });
+  });
+
+  it('logs a due time past the grace period as missed', () => {
+    expect(findDueRuns(daily, june(2, 9) + DUE_GRACE_MS + MINUTE_MS)).toEqual({ missed: [june(2, 9)], due: null });
+  });
+
+  it('owes nothing before the next due time', () => {
+    expect(findDueRuns(daily, june(2, 8))).toEqual({ missed: [], due: null });
+  });
+
+  it('misses the earlier times and runs the latest', () => {
+    expect(findDueRuns(daily, june(4, 9, 30))).toEqual({ missed: [june(2, 9), june(3, 9)], due: june(4, 9) });
+  });
+
+  it('only catches up on the last week', () => {
+    const { missed, due } = findDueRuns(daily, june(20, 9, 30));
+
+    expect(due).toBe(june(20, 9));
+    expect(missed).toEqual([14, 15, 16, 17, 18, 19].map((day) => june(day, 9)));
+  });
+});
+
+describe('parseSchedules', () => {
+  it('reads an export or a bare list', () => {
+    expect(parseSchedules(JSON.stringify({ schedules: [SCHEDULE] }))).toEqual({ schedules: [SCHEDULE], errors: [] });
+    expect(parseSchedules(JSON.stringify([SCHEDULE]))).toEqual({ schedules: [SCHEDULE], errors: [] });
+  });
+
+  it('drops malformed schedules and keeps the rest', () => {
+    const withoutId = { ...SCHEDULE, id: undefined };
+    const withoutRule = { ...SCHEDULE, rule: undefined };
+    const json = JSON.stringify([
+      { ...SCHEDULE, label: 'Bad rule', rule: '0 25 * * *' },
+      withoutRule,
+      withoutId,
+      SCHEDULE,
+      null,
+    ]);
+
+    expect(parseSchedules(json)).toEqual({
+      schedules: [SCHEDULE],
+      errors: [
+        'Schedule 1 ("Bad rule"): The hour must be between 0 and 23.',
+        'Schedule 2 ("Rent"): It has no rule.',
+        'Schedule 3 ("Rent") is missing its transfer details.',
+        'Schedule 5: It has no rule.',
+      ],
+    });
+  });
+
+  it('rejects anything that is not a list of schedules', () => {
+    expect(() => parseSchedules('{"rule":"@daily"}')).toThrow('Expected a list of schedules.');
+    expect(() => parseSchedules('null')).toThrow('Expected a list of schedules.');
+    expect(() => parseSchedules('not json')).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,205 @@
+import { type Address } from 'viem';
+import { type BridgeToken, type TransferSpeed } from '../config/chains';
+
+// Schedule rules and due-run bookkeeping shared by the app and the headless
+// runner (scheduler/runner.ts), so this module stays free of browser APIs.
+
+// A transfer that repeats on a cron-like rule
+export interface Schedule {
+  id: string;
+  label: string;
+  token: BridgeToken;
+  amount: string;
+  sourceChainId: number;
+  destinationChainId: number;
+  speed: TransferSpeed;
+  // Mint recipient when it is not the sending wallet
+  recipient?: Address;
+  // Five cron fields (minute hour day-of-month month day-of-week) in local time, or @hourly/@daily/@weekly/@monthly
+  rule: string;
+  enabled: boolean;
+  createdAt: number;
+  // Latest due time that was run, skipped or logged as missed
+  lastHandledAt: number;
+}
+
+export type ScheduleRunStatus = 'executed' | 'failed' | 'skipped' | 'missed';
+
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  status: ScheduleRunStatus;
+  // Due time of the run; for missed runs, the latest one missed
+  dueAt: number;
+  loggedAt: number;
+  // Missed runs are logged together
+  missedCount?: number;
+  runner: 'app' | 'headless';
+  transferId?: string;
+  sourceTxHash?: string;
+  receiveTxHash?: string;
+  error?: string;
+}
+
+export interface DueRuns {
+  // Due times nobody ran in time, oldest first
+  missed: number[];
+  // Latest due time that can still run
+  due: number | null;
+}
+
+// A run more than an hour late is logged as missed instead of sent
+export const DUE_GRACE_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Catching up after a long break only looks back a week
+const MAX_CATCH_UP_MS = 7 * DAY_MS;
+// Every date a rule can match repeats within a leap-year cycle
+const MAX_SEARCH_DAYS = 366 * 4 + 1;
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+interface ParsedRule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted
+  isDayOfMonthAny: boolean;
+  isDayOfWeekAny: boolean;
+}
+
+function parseField(text: string, { name, min, max }: (typeof FIELDS)[number]): number[] {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const match = /^(?:(\*)|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new Error(`"${part}" is not a valid ${name}.`);
+
+    const [, star, from, to, stepText] = match;
+    const start = star ? min : Number(from);
+    // "5/15" runs from 5 to the end of the range, like "5-59/15"
+    const end = star ? max : to !== undefined ? Number(to) : stepText ? max : start;
+    const step = stepText ? Number(stepText) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`The ${name} must be between ${min} and ${max}.`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+function parseRule(rule: string): ParsedRule {
+  const text = rule.trim();
+  const fields = (MACROS[text.toLowerCase()] ?? text).split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new Error('Use five fields: minute hour day-of-month month day-of-week, e.g. "0 9 * * 1-5".');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+  return {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    daysOfWeek: new Set(daysOfWeek.map((day) => day % 7)),
+    isDayOfMonthAny: fields[2] === '*',
+    isDayOfWeekAny: fields[4] === '*',
+  };
+}
+
+// Why a rule cannot be used, or null when it is valid
+export function validateScheduleRule(rule: string): string | null {
+  try {
+    parseRule(rule);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Invalid schedule rule.';
+  }
+}
+
+function matchesDay(rule: ParsedRule, day: Date): boolean {
+  if (!rule.months.has(day.getMonth() + 1)) return false;
+  const dayOfMonth = rule.daysOfMonth.has(day.getDate());
+  const dayOfWeek = rule.daysOfWeek.has(day.getDay());
+  if (!rule.isDayOfMonthAny && !rule.isDayOfWeekAny) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+// Due times after `after`, earliest first
+function* runTimes(rule: ParsedRule, after: number): Generator<number> {
+  const start = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, day.setDate(day.getDate() + 1)) {
+    if (!matchesDay(rule, day)) continue;
+    for (const hour of rule.hours) {
+      for (const minute of rule.minutes) {
+        const time = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute).getTime();
+        if (time >= start.getTime()) yield time;
+      }
+    }
+  }
+}
+
+// Due times in (after, until], earliest first
+export function getRunTimes(rule: string, after: number, until: number): number[] {
+  const times: number[] = [];
+  for (const time of runTimes(parseRule(rule), after)) {
+    if (time > until) break;
+    times.push(time);
+  }
+  return times;
+}
+
+export function getNextRunTime(rule: string, after: number): number | null {
+  const next = runTimes(parseRule(rule), after).next();
+  return next.done ? null : next.value;
+}
+
+// What a schedule owes since it was last handled: the latest due time within
+// the grace period can still run, anything older was missed
+export function findDueRuns(schedule: Pick<Schedule, 'rule' | 'lastHandledAt'>, now: number): DueRuns {
+  const times = getRunTimes(schedule.rule, Math.max(schedule.lastHandledAt, now - MAX_CATCH_UP_MS), now);
+  const latest = times[times.length - 1];
+  if (latest !== undefined && now - latest <= DUE_GRACE_MS) {
+    return { missed: times.slice(0, -1), due: latest };
+  }
+  return { missed: times, due: null };
+}
+
+// Read schedules exported from the app. Invalid schedules are reported and
+// skipped so the others still run.
+export function parseSchedules(json: string): { schedules: Schedule[]; errors: string[] } {
+  const data = JSON.parse(json) as { schedules?: unknown } | unknown[];
+  const items = Array.isArray(data) ? data : data?.schedules;
+  if (!Array.isArray(items)) throw new Error('Expected a list of schedules.');
+
+  const result = { schedules: [] as Schedule[], errors: [] as string[] };
+  items.forEach((item: Partial<Schedule>, index) => {
+    const name = `Schedule ${index + 1}${item?.label ? ` ("${item.label}")` : ''}`;
+    const ruleError = typeof item?.rule === 'string' ? validateScheduleRule(item.rule) : 'It has no rule.';
+    if (ruleError) {
+      result.errors.push(`${name}: ${ruleError}`);
+    } else if (!item.id || !item.amount || !item.token || !item.sourceChainId || !item.destinationChainId) {
+      result.errors.push(`${name} is missing its transfer details.`);
+    } else {
+      result.schedules.push(item as Schedule);
+    }
+  });
+  return result;
+}
@@ -0,0 +1,197 @@
+import { createAuthenticationAdapter } from '@rainbow-me/rainbowkit';
+import { type Address, type Hex, isAddressEqual, verifyMessage } from 'viem';
+import { createSiweMessage, generateSiweNonce, parseSiweMessage, validateSiweMessage, verifySiweMessage } from 'viem/siwe';
+import { getChainConfig } from '../config/chains';
+import { withRpcFailover } from './rpc';
+import { supabase } from './supabase';
+
+// A wallet that proved ownership with a Sign-In with Ethereum (EIP-4361) message
+export interface Session {
+  address: Address;
+  chainId: number;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+// Issues nonces and checks signed messages. With Supabase, the `siwe` Edge Function
+// does both on the server; without it a stand-in in this browser does the same
+// checks for development.
+export interface SessionBackend {
+  name: 'supabase' | 'local';
+  getNonce(): Promise<string>;
+  // Throws when the message or signature is not accepted
+  verify(message: string, signature: Hex): Promise<void>;
+  signOut(): Promise<void>;
+}
+
+// SIWE_ENABLED: set VITE_SIWE_ENABLED to "true" to ask wallets to sign in after connecting
+export const isSessionEnabled = import.meta.env.VITE_SIWE_ENABLED === 'true';
+
+const STORAGE_KEY = 'siwe-session';
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const NONCE_TTL_MS = 10 * 60 * 1000;
+const SIGN_IN_STATEMENT = 'Sign in to Arc Testnet Bridge.';
+
+let session: Session | null | undefined;
+const listeners = new Set<() => void>();
+
+function createLocalBackend(): SessionBackend {
+  // Nonces live in memory, so a reload between issuing and signing starts over
+  const nonces = new Map<string, number>();
+
+  return {
+    name: 'local',
+    async getNonce() {
+      const nonce = generateSiweNonce();
+      nonces.set(nonce, Date.now() + NONCE_TTL_MS);
+      return nonce;
+    },
+    async verify(message, signature) {
+      const fields = parseSiweMessage(message);
+      const nonceExpiresAt = fields.nonce ? nonces.get(fields.nonce) : undefined;
+      if (!fields.nonce || !nonceExpiresAt || nonceExpiresAt < Date.now()) {
+        throw new Error('Sign-in request expired. Try again.');
+      }
+      // Each nonce signs in once
+      nonces.delete(fields.nonce);
+
+      if (!validateSiweMessage({ message: fields, domain: window.location.host, nonce: fields.nonce })) {
+        throw new Error('Sign-in message is not valid for this site.');
+      }
+
+      // Smart contract wallets need a chain to check against; other chains only take EOA signatures
+      const isValid = fields.chainId && getChainConfig(fields.chainId)
+        ? await withRpcFailover(fields.chainId, (client) => verifySiweMessage(client, { message, signature }))
+        : !!fields.address && await verifyMessage({ address: fields.address, message, signature });
+      if (!isValid) throw new Error('Signature does not match the wallet.');
+    },
+    async signOut() {},
+  };
+}
+
+// Supabase's Web3 sign-in ignores the nonce, so the `siwe` Edge Function issues
+// and spends nonces and signs in on the wallet's behalf (supabase/functions/siwe)
+function createSupabaseBackend(client: NonNullable<typeof supabase>): SessionBackend {
+  const invoke = async <T>(body: Record<string, string>, action: string): Promise<T> => {
+    const { data, error } = await client.functions.invoke<T>('siwe', { body });
+    if (error || !data) {
+      // Rejections carry the function's JSON reply, with the reason in `error`
+      const reason = error?.context instanceof Response ? await error.context.json().catch(() => null) : null;
+      throw new Error(`${action} failed: ${reason?.error ?? error?.message ?? 'no response'}`);
+    }
+    return data;
+  };
+
+  return {
+    name: 'supabase',
+    async getNonce() {
+      const { nonce } = await invoke<{ nonce: string }>({ action: 'nonce' }, 'Sign-in request');
+      return nonce;
+    },
+    async verify(message, signature) {
+      const { session: tokens } = await invoke<{ session: { access_token: string; refresh_token: string } }>(
+        { action: 'verify', message, signature },
+        'Sign-in'
+      );
+      const { error } = await client.auth.setSession(tokens);
+      if (error) throw new Error(`Sign-in failed: ${error.message}`);
+    },
+    async signOut() {
+      await client.auth.signOut();
+    },
+  };
+}
+
+export const sessionBackend: SessionBackend = supabase ? createSupabaseBackend(supabase) : createLocalBackend();
+
+// Wallet data syncs through the Supabase session, so the stand-in backend keeps it in this browser
+export const isSessionSyncAvailable = isSessionEnabled && sessionBackend.name === 'supabase';
+
+function setSession(next: Session | null) {
+  session = next;
+  if (next) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+// The signed-in wallet, or null once the session has expired
+export function loadSession(): Session | null {
+  if (session === undefined) {
+    try {
+      session = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Session | null;
+    } catch {
+      session = null;
+    }
+  }
+  if (session && session.expiresAt <= Date.now()) {
+    setSession(null);
+  }
+  return session;
+}
+
+export function subscribeSession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function isSessionFor(address: string | undefined): boolean {
+  const current = loadSession();
+  return !!current && !!address && isAddressEqual(current.address, address as Address);
+}
+
+export function createSessionMessage({ nonce, address, chainId }: { nonce: string; address: Address; chainId: number }): string {
+  const issuedAt = new Date();
+  return createSiweMessage({
+    domain: window.location.host,
+    address,
+    statement: SIGN_IN_STATEMENT,
+    uri: window.location.origin,
+    version: '1',
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime: new Date(issuedAt.getTime() + SESSION_TTL_MS),
+  });
+}
+
+export async function signIn(message: string, signature: Hex): Promise<Session> {
+  await sessionBackend.verify(message, signature);
+
+  const fields = parseSiweMessage(message);
+  if (!fields.address || !fields.chainId) throw new Error('Sign-in message is missing the wallet.');
+  const issuedAt = fields.issuedAt?.getTime() ?? Date.now();
+  const next: Session = {
+    address: fields.address,
+    chainId: fields.chainId,
+    issuedAt,
+    expiresAt: fields.expirationTime?.getTime() ?? issuedAt + SESSION_TTL_MS,
+  };
+  setSession(next);
+  return next;
+}
+
+export async function signOut(): Promise<void> {
+  setSession(null);
+  await sessionBackend.signOut();
+}
+
+// Lets RainbowKit ask for the signature right after a wallet connects
+export const authenticationAdapter = createAuthenticationAdapter({
+  getNonce: () => sessionBackend.getNonce(),
+  createMessage: createSessionMessage,
+  verify: async ({ message, signature }) => {
+    try {
+      await signIn(message, signature as Hex);
+      return true;
+    } catch (err) {
+      console.warn('Sign-in failed:', err);
+      return false;
+    }
+  },
+  signOut,
+});
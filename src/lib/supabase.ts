@@ -0,0 +1,7 @@
+import { createClient } from '@supabase/supabase-js';
+
+const SUPABASE_URL: string | undefined = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY: string | undefined = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+// Client for the indexer's tables and synced wallet history; null when the app is built without Supabase
+export const supabase = SUPABASE_URL && SUPABASE_ANON_KEY ? createClient(SUPABASE_URL, SUPABASE_ANON_KEY) : null;
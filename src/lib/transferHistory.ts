@@ -0,0 +1,172 @@
+import type { BridgeResult, ChainDefinition } from '@circle-fin/bridge-kit';
+import { parseUnits } from 'viem';
+import { type BridgeToken, type TransferSpeed } from '../config/chains';
+import { isBridgeKitToken } from './bridgeKitChains';
+import { pushTransfer } from './historySync';
+
+export type TransferStatus = 'pending' | 'completed' | 'failed';
+
+type BridgeKitStep = BridgeResult['steps'][number];
+
+export interface TransferStepRecord {
+  name: string;
+  state: BridgeKitStep['state'];
+  txHash?: string;
+  explorerUrl?: string;
+  errorMessage?: string;
+  // Attestation payload, kept so an interrupted transfer can skip straight to the mint
+  data?: unknown;
+  timestamp: number;
+}
+
+export interface TransferRecord {
+  id: string;
+  address: string;
+  token: BridgeToken;
+  amount: string;
+  sourceChainId: number;
+  destinationChainId: number;
+  // Missing on records saved before the speed could be chosen, which were all Fast Transfers
+  speed?: TransferSpeed;
+  // Mint recipient, when it is not the sending wallet
+  recipient?: string;
+  status: TransferStatus;
+  steps: TransferStepRecord[];
+  sourceTxHash?: string; // Burn transaction on the source chain
+  receiveTxHash?: string; // Mint transaction on the destination chain
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const DB_NAME = 'arc-bridge';
+const DB_VERSION = 1;
+const STORE = 'transfers';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<() => void>();
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then((db) => new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+}
+
+export async function saveTransfer(record: TransferRecord): Promise<void> {
+  await run('readwrite', (store) => store.put(record));
+  listeners.forEach((listener) => listener());
+  // The local copy is the source of truth; a failed upload is retried on the next save or sync
+  pushTransfer(record).catch((err) => console.warn('Failed to sync transfer:', err));
+}
+
+// Store transfers synced from another device, keeping whichever copy changed last
+export async function mergeTransfers(records: TransferRecord[]): Promise<void> {
+  let changed = false;
+  for (const record of records) {
+    const local = await getTransfer(record.id);
+    if (!local || local.updatedAt < record.updatedAt) {
+      await run('readwrite', (store) => store.put(record));
+      changed = true;
+    }
+  }
+  if (changed) listeners.forEach((listener) => listener());
+}
+
+export function getTransfer(id: string): Promise<TransferRecord | undefined> {
+  return run('readonly', (store) => store.get(id) as IDBRequest<TransferRecord | undefined>);
+}
+
+// Newest first
+export async function listTransfers(): Promise<TransferRecord[]> {
+  const records = await run('readonly', (store) => store.getAll() as IDBRequest<TransferRecord[]>);
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function subscribeTransfers(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Convert a Bridge Kit step into its stored form
+export function toStepRecord(step: BridgeKitStep): TransferStepRecord {
+  return {
+    name: step.name,
+    state: step.state,
+    txHash: step.txHash,
+    explorerUrl: step.explorerUrl,
+    errorMessage: step.errorMessage,
+    data: step.name === 'fetchAttestation' ? step.data : undefined,
+    timestamp: Date.now(),
+  };
+}
+
+// Append a step, replacing an earlier entry for the same step
+export function mergeStep(steps: TransferStepRecord[], step: TransferStepRecord): TransferStepRecord[] {
+  return [...steps.filter((s) => s.name !== step.name), step];
+}
+
+// Record a step on a transfer, keeping its transaction hashes in sync
+export function withStep(record: TransferRecord, step: TransferStepRecord): TransferRecord {
+  return {
+    ...record,
+    steps: mergeStep(record.steps, step),
+    sourceTxHash: step.name === 'burn' && step.txHash ? step.txHash : record.sourceTxHash,
+    receiveTxHash: step.name === 'mint' && step.txHash ? step.txHash : record.receiveTxHash,
+    updatedAt: step.timestamp,
+  };
+}
+
+// Tokens were burned on the source chain but never minted on the destination
+export function isResumable(record: TransferRecord): boolean {
+  return record.status !== 'completed' && !!record.sourceTxHash && !record.receiveTxHash;
+}
+
+// Rebuild the Bridge Kit result that kit.retry() continues from. Only finished
+// steps are kept, so Bridge Kit picks up at the first step that never succeeded.
+export function toBridgeResult(
+  record: TransferRecord,
+  sourceChain: ChainDefinition,
+  destinationChain: ChainDefinition
+): BridgeResult {
+  if (!isBridgeKitToken(record.token)) {
+    throw new Error(`Bridge Kit cannot resume a ${record.token} transfer.`);
+  }
+
+  return {
+    // Records keep the amount as entered; Bridge Kit's results carry it in USDC's 6-decimal units,
+    // which the mint checks against the attested message
+    amount: parseUnits(record.amount, 6).toString(),
+    token: record.token,
+    state: 'error',
+    provider: 'CCTPV2BridgingProvider',
+    // The mint checks the attested finality threshold against the speed
+    config: { transferSpeed: record.speed ?? 'FAST' },
+    source: { address: record.address, chain: sourceChain },
+    destination: { address: record.recipient ?? record.address, chain: destinationChain },
+    steps: record.steps
+      .filter((step) => step.state === 'success' || step.state === 'noop')
+      .map(({ name, state, txHash, explorerUrl, data }) => ({ name, state, txHash, explorerUrl, data })),
+  };
+}
@@ -0,0 +1,36 @@
+import { type Hex } from 'viem';
+import { type BridgeToken, type TokenInfo, getTokenByAddress } from '../config/chains';
+import { type AttestationStatus, type BurnMessage, getAttestationStatus, isMessageReceived, readBurnMessage } from './cctp';
+import { type BurnDetails, decodeBurnMessage } from './cctpProtocol';
+
+export interface TransferLookup {
+  burn: BurnMessage;
+  details: BurnDetails;
+  // Registry token matching the burned token, if this bridge knows it
+  token?: TokenInfo & { symbol: BridgeToken };
+  attestation: AttestationStatus['status'];
+  // Circle's nonce, known once the burn is attested
+  nonce?: Hex;
+  // Whether the destination MessageTransmitter has used the nonce; null until attested
+  minted: boolean | null;
+}
+
+// Everything a status page needs about a CCTP transfer, starting from its burn
+// transaction: the decoded message, Circle's attestation and the mint on the destination
+export async function lookupTransfer(sourceChainId: number, burnTxHash: Hex): Promise<TransferLookup> {
+  const burn = await readBurnMessage(sourceChainId, burnTxHash);
+  const attestation = await getAttestationStatus(burn.sourceDomain, burnTxHash);
+
+  // The attested message is the same transfer with the nonce filled in
+  const details = decodeBurnMessage(attestation.status === 'complete' ? attestation.message : burn.message);
+  const nonce = attestation.status === 'complete' ? attestation.eventNonce : undefined;
+
+  return {
+    burn,
+    details,
+    token: getTokenByAddress(sourceChainId, details.burnToken),
+    attestation: attestation.status,
+    nonce,
+    minted: nonce ? await isMessageReceived(burn.destinationChainId, nonce) : null,
+  };
+}
@@ -0,0 +1,104 @@
+import type { Address, EIP1193Provider } from 'viem';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type ProviderStrategy, resolveProvider } from './walletProvider';
+
+const CONNECTED: Address = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+const OTHER: Address = '0x2222222222222222222222222222222222222222';
+
+// EIP-1193 provider that only answers eth_accounts
+const fakeProvider = (accounts: Address[]) =>
+  ({
+    request: vi.fn(async ({ method }: { method: string }) => {
+      if (method === 'eth_accounts') return accounts;
+      throw new Error(`Unexpected ${method}`);
+    }),
+  }) as unknown as EIP1193Provider;
+
+// Connectors are cast because only the members the strategies read matter here
+type FakeConnector = Parameters<typeof resolveProvider>[0];
+const connector = (members: Record<string, unknown>) => members as FakeConnector;
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('resolveProvider', () => {
+  it("returns the connector's injected EIP-1193 provider", async () => {
+    const provider = fakeProvider([CONNECTED]);
+    const getProvider = vi.fn(async () => provider);
+
+    await expect(resolveProvider(connector({ getProvider }), CONNECTED)).resolves.toBe(provider);
+    expect(getProvider).toHaveBeenCalledOnce();
+  });
+
+  it('matches the connected address case-insensitively', async () => {
+    const provider = fakeProvider([CONNECTED.toUpperCase().replace('0X', '0x') as Address]);
+    await expect(resolveProvider(connector({ getProvider: async () => provider }), CONNECTED)).resolves.toBe(provider);
+  });
+
+  it('moves past a connector that has no getProvider', async () => {
+    const provider = fakeProvider([CONNECTED]);
+    await expect(resolveProvider(connector({ provider }), CONNECTED)).resolves.toBe(provider);
+  });
+
+  it("uses the connector's wallet client transport", async () => {
+    const provider = fakeProvider([CONNECTED]);
+    const getWalletClient = async () => ({ transport: provider });
+
+    await expect(resolveProvider(connector({ getProvider: async () => undefined, getWalletClient }), CONNECTED)).resolves.toBe(
+      provider
+    );
+  });
+
+  it('skips an injected provider that belongs to another wallet', async () => {
+    const otherWallet = fakeProvider([OTHER]);
+    const provider = fakeProvider([CONNECTED]);
+    vi.stubGlobal('window', { ethereum: otherWallet, web3: { currentProvider: provider } });
+
+    await expect(resolveProvider(undefined, CONNECTED)).resolves.toBe(provider);
+    expect(otherWallet.request).toHaveBeenCalledWith({ method: 'eth_accounts' });
+  });
+
+  it("falls back to wagmi's wallet client", async () => {
+    const provider = fakeProvider([CONNECTED]);
+    const failing = connector({ getProvider: vi.fn().mockRejectedValue(new Error('Connector not connected')) });
+    const walletClient = { transport: { value: { provider } } };
+
+    await expect(resolveProvider(failing, CONNECTED, { walletClient })).resolves.toBe(provider);
+  });
+
+  it('skips providers whose eth_accounts call fails', async () => {
+    const broken = { request: vi.fn().mockRejectedValue(new Error('Disconnected')) } as unknown as EIP1193Provider;
+    const provider = fakeProvider([CONNECTED]);
+
+    await expect(
+      resolveProvider(connector({ getProvider: async () => broken, provider }), CONNECTED)
+    ).resolves.toBe(provider);
+  });
+
+  it('tries injected strategies in order', async () => {
+    const first = fakeProvider([CONNECTED]);
+    const strategies: ProviderStrategy[] = [
+      { name: 'none', resolve: async () => undefined },
+      { name: 'first', resolve: async () => first },
+      { name: 'second', resolve: vi.fn(async () => fakeProvider([CONNECTED])) },
+    ];
+
+    await expect(resolveProvider(undefined, CONNECTED, { strategies })).resolves.toBe(first);
+    expect(strategies[2].resolve).not.toHaveBeenCalled();
+  });
+
+  it('throws when no strategy resolves a provider', async () => {
+    await expect(resolveProvider(connector({}), CONNECTED)).rejects.toThrow('Wallet not found. Please connect your wallet first.');
+  });
+
+  it('names the connected address when only other wallets answered', async () => {
+    await expect(resolveProvider(connector({ getProvider: async () => fakeProvider([OTHER]) }), CONNECTED)).rejects.toThrow(
+      `Could not reach the wallet connected as ${CONNECTED}.`
+    );
+  });
+});
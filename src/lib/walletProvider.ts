@@ -0,0 +1,97 @@
+import { type Connector } from '@wagmi/core';
+import { type Address, type EIP1193Provider } from 'viem';
+
+// Legacy injected provider still set by some in-app mobile browsers
+// (window.ethereum is already declared by the wallet SDKs)
+declare global {
+  interface Window {
+    web3?: { currentProvider?: EIP1193Provider };
+  }
+}
+
+// Optional members some wagmi and RainbowKit connectors expose besides getProvider()
+type ConnectorLike = Pick<Connector, 'getProvider'> & {
+  provider?: unknown;
+  getWalletClient?: () => Promise<{ transport?: unknown } | undefined>;
+};
+
+export interface ProviderSource {
+  connector?: ConnectorLike;
+  // wagmi's wallet client for the connected account, the last resort
+  walletClient?: unknown;
+}
+
+export interface ProviderStrategy {
+  name: string;
+  resolve: (source: ProviderSource) => Promise<unknown>;
+}
+
+function isEip1193Provider(value: unknown): value is EIP1193Provider {
+  return !!value && typeof (value as { request?: unknown }).request === 'function';
+}
+
+// Tried in order; the first provider whose accounts include the connected
+// address wins. Injected globals come after the connector because they can
+// belong to a different wallet than the one the user connected.
+export const PROVIDER_STRATEGIES: readonly ProviderStrategy[] = [
+  { name: 'connector.getProvider', resolve: async ({ connector }) => connector?.getProvider() },
+  { name: 'connector.provider', resolve: async ({ connector }) => connector?.provider },
+  {
+    name: 'connector.getWalletClient',
+    resolve: async ({ connector }) => (await connector?.getWalletClient?.())?.transport,
+  },
+  { name: 'window.ethereum', resolve: async () => (typeof window === 'undefined' ? undefined : window.ethereum) },
+  {
+    name: 'window.web3',
+    resolve: async () => (typeof window === 'undefined' ? undefined : window.web3?.currentProvider),
+  },
+  {
+    name: 'walletClient.transport',
+    resolve: async ({ walletClient }) => {
+      const { transport } = (walletClient ?? {}) as { transport?: { value?: { provider?: unknown }; provider?: unknown } };
+      return transport?.value?.provider ?? transport?.provider;
+    },
+  },
+];
+
+// Find the EIP-1193 provider for the connected wallet, checking eth_accounts so
+// a provider injected by another wallet is never used to sign for this one
+export async function resolveProvider(
+  connector: ConnectorLike | undefined,
+  address: Address,
+  { walletClient, strategies = PROVIDER_STRATEGIES }: { walletClient?: unknown; strategies?: readonly ProviderStrategy[] } = {}
+): Promise<EIP1193Provider> {
+  const source: ProviderSource = { connector, walletClient };
+  let foundOtherWallet = false;
+
+  for (const strategy of strategies) {
+    let provider: unknown;
+    try {
+      provider = await strategy.resolve(source);
+    } catch (err) {
+      console.warn(`${strategy.name} failed:`, err);
+      continue;
+    }
+    if (!isEip1193Provider(provider)) continue;
+
+    let accounts: Address[];
+    try {
+      accounts = await provider.request({ method: 'eth_accounts' });
+    } catch (err) {
+      console.warn(`eth_accounts failed for ${strategy.name}:`, err);
+      continue;
+    }
+
+    if (accounts.some((account) => account.toLowerCase() === address.toLowerCase())) {
+      return provider;
+    }
+    foundOtherWallet = true;
+    console.warn(`${strategy.name} is connected to ${accounts[0] ?? 'no account'}, not ${address}; skipping it.`);
+  }
+
+  throw new Error(
+    foundOtherWallet
+      ? `Could not reach the wallet connected as ${address}. Another wallet extension may be taking over; disable it or reconnect.`
+      : 'Wallet not found. Please connect your wallet first.'
+  );
+}
@@ -0,0 +1,85 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Attestation } from '../lib/cctpProtocol';
+
+// Local stand-in for Circle's attestation service (Iris). It answers
+// GET /v2/messages/:sourceDomain?transactionHash=... the way Iris does: 404 for
+// burns it has not seen, a pending message until the burn is attested, then the
+// attested message. GET /v2/burn/USDC/fees/:source/:destination quotes
+// FAST_BURN_FEE_BPS for Fast Transfers and nothing for Standard ones.
+export interface AttestationStub {
+  url: string;
+  // Requests answered so far
+  readonly requests: number;
+  // Report the burn as seen but not yet attested
+  addPending(sourceDomain: number, burnTxHash: string): void;
+  // `decodedMessage` is Iris's JSON breakdown of the message, which Bridge Kit checks against the transfer
+  attest(sourceDomain: number, burnTxHash: string, attestation: Attestation, decodedMessage?: unknown): void;
+  // Answer every request with this HTTP status until cleared with null
+  failWith(status: number | null): void;
+  close(): Promise<void>;
+}
+
+// Fast Transfer fee, in basis points of the amount
+export const FAST_BURN_FEE_BPS = 1;
+
+type StubMessage = { status: 'pending_confirmations' } | ({ status: 'complete'; decodedMessage: unknown } & Attestation);
+
+const key = (sourceDomain: number | string, burnTxHash: string) => `${sourceDomain}:${burnTxHash.toLowerCase()}`;
+
+export async function startAttestationStub(): Promise<AttestationStub> {
+  const messages = new Map<string, StubMessage>();
+  let failureStatus: number | null = null;
+  let requests = 0;
+
+  const server: Server = createServer((req, res) => {
+    requests += 1;
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const [, version, resource, sourceDomain, ...rest] = url.pathname.split('/');
+    const burnTxHash = url.searchParams.get('transactionHash');
+
+    const reply = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (failureStatus !== null) return reply(failureStatus, { message: 'Stubbed failure' });
+    if (version === 'v2' && resource === 'burn' && sourceDomain === 'USDC' && rest[0] === 'fees') {
+      return reply(200, [
+        { finalityThreshold: 1000, minimumFee: FAST_BURN_FEE_BPS },
+        { finalityThreshold: 2000, minimumFee: 0 },
+      ]);
+    }
+    if (version !== 'v2' || resource !== 'messages' || !burnTxHash) return reply(400, { message: 'Bad request' });
+
+    const entry = messages.get(key(sourceDomain, burnTxHash));
+    if (!entry) return reply(404, { code: 404, message: 'Message hash not found' });
+    if (entry.status === 'pending_confirmations') {
+      return reply(200, {
+        messages: [{ status: entry.status, message: '0x', attestation: 'PENDING', eventNonce: '0x', cctpVersion: 2, decodedMessage: null }],
+      });
+    }
+    return reply(200, { messages: [{ ...entry, cctpVersion: 2 }] });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    get requests() {
+      return requests;
+    },
+    addPending(sourceDomain, burnTxHash) {
+      messages.set(key(sourceDomain, burnTxHash), { status: 'pending_confirmations' });
+    },
+    attest(sourceDomain, burnTxHash, attestation, decodedMessage = null) {
+      messages.set(key(sourceDomain, burnTxHash), { status: 'complete', ...attestation, decodedMessage });
+    },
+    failWith(status) {
+      failureStatus = status;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
@@ -0,0 +1,31 @@
+-- Address book entries synced from the app (src/lib/addressBookSync.ts).
+-- Apply once in the Supabase SQL editor; wallets sign in the same way as for
+-- wallet_transfers.sql.
+
+-- One row per saved recipient, mirroring AddressBookEntry in src/lib/addressBook.ts.
+-- Removed entries keep their row with `deleted_at` set so every device drops them.
+create table if not exists address_book (
+  id text not null,
+  -- Supabase user created for the wallet on its first SIWE sign-in
+  owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  label text not null,
+  address text not null,
+  chain_ids bigint[] not null default '{}',
+  updated_at timestamptz not null,
+  deleted_at timestamptz,
+  primary key (owner_id, id)
+);
+
+-- Each wallet sees and writes only its own entries; the anon key alone sees nothing
+alter table address_book enable row level security;
+
+create policy "Wallets read their own address book" on address_book
+  for select to authenticated using (owner_id = auth.uid() and is_siwe_session());
+
+create policy "Wallets add to their own address book" on address_book
+  for insert to authenticated with check (owner_id = auth.uid() and is_siwe_session());
+
+create policy "Wallets update their own address book" on address_book
+  for update to authenticated
+  using (owner_id = auth.uid() and is_siwe_session())
+  with check (owner_id = auth.uid() and is_siwe_session());
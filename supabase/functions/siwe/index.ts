@@ -0,0 +1,82 @@
+// Sign-In with Ethereum for the app's Supabase backend (src/lib/session.ts).
+// Deploy with `supabase functions deploy siwe` after applying supabase/siwe.sql.
+//
+//   { action: 'nonce' }                       -> { nonce }
+//   { action: 'verify', message, signature }  -> { session }
+//
+// A nonce is accepted once and only until it expires. The signed message is then
+// passed to Supabase's Web3 sign-in, which checks the signature, and the new
+// session is recorded so row level security lets it through.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { generateSiweNonce, parseSiweMessage } from 'npm:viem@2/siwe';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const admin = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, { auth: { persistSession: false } });
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const reply = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+
+// The `session_id` claim of a Supabase access token
+function sessionIdOf(accessToken: string): string {
+  const payload = accessToken.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+  return JSON.parse(atob(payload)).session_id;
+}
+
+async function issueNonce() {
+  const nonce = generateSiweNonce();
+  const { error } = await admin.from('siwe_nonces').insert({ nonce });
+  if (error) throw new Error(`Could not store nonce: ${error.message}`);
+
+  // Expired nonces are only useful until here
+  await admin.from('siwe_nonces').delete().lt('expires_at', new Date().toISOString());
+  return reply({ nonce });
+}
+
+async function verify(message: string, signature: string) {
+  const { nonce } = parseSiweMessage(message);
+  if (!nonce) return reply({ error: 'Sign-in message has no nonce.' }, 400);
+
+  // Deleting the nonce is what makes it single use, even when two requests race
+  const { data: used, error: nonceError } = await admin
+    .from('siwe_nonces')
+    .delete()
+    .eq('nonce', nonce)
+    .gt('expires_at', new Date().toISOString())
+    .select('nonce');
+  if (nonceError) throw new Error(`Could not check nonce: ${nonceError.message}`);
+  if (!used?.length) return reply({ error: 'Sign-in request expired. Try again.' }, 401);
+
+  // A client per request, so sessions never leak between wallets
+  const auth = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_ANON_KEY')!, { auth: { persistSession: false } }).auth;
+  const { data, error } = await auth.signInWithWeb3({ chain: 'ethereum', message, signature: signature as `0x${string}` });
+  if (error || !data.session) return reply({ error: error?.message ?? 'Sign-in failed.' }, 401);
+
+  const { error: sessionError } = await admin
+    .from('siwe_sessions')
+    .insert({ session_id: sessionIdOf(data.session.access_token), user_id: data.session.user.id });
+  if (sessionError) throw new Error(`Could not record session: ${sessionError.message}`);
+
+  const { access_token, refresh_token } = data.session;
+  return reply({ session: { access_token, refresh_token } });
+}
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') return new Response(null, { headers: CORS_HEADERS });
+
+  try {
+    const body = await request.json();
+    if (body.action === 'nonce') return await issueNonce();
+    if (body.action === 'verify' && typeof body.message === 'string' && typeof body.signature === 'string') {
+      return await verify(body.message, body.signature);
+    }
+    return reply({ error: 'Unknown action.' }, 400);
+  } catch (err) {
+    console.error(err);
+    return reply({ error: err instanceof Error ? err.message : 'Sign-in failed.' }, 500);
+  }
+});
@@ -0,0 +1,36 @@
+-- Server-side nonces for Sign-In with Ethereum (src/lib/session.ts).
+-- Apply once in the Supabase SQL editor before wallet_transfers.sql and
+-- address_book.sql, then deploy the Edge Function with `supabase functions deploy siwe`.
+--
+-- Supabase's Web3 sign-in checks the signature and the message's issue time but
+-- not its nonce. The `siwe` Edge Function (supabase/functions/siwe) issues each
+-- nonce, accepts it once, and only then passes the message on to Supabase. The
+-- sessions it creates are recorded here, and the wallet tables only open to them,
+-- so a message replayed straight to Supabase signs in to nothing.
+
+-- Nonces handed out and not yet used
+create table if not exists siwe_nonces (
+  nonce text primary key,
+  expires_at timestamptz not null default now() + interval '10 minutes'
+);
+
+-- Supabase sessions created through the Edge Function, by the JWT `session_id` claim
+create table if not exists siwe_sessions (
+  session_id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+-- Only the Edge Function's service role reads or writes these
+alter table siwe_nonces enable row level security;
+alter table siwe_sessions enable row level security;
+
+-- True when the caller's session came through the Edge Function
+create or replace function is_siwe_session() returns boolean
+  language sql stable security definer set search_path = public
+as $$
+  select exists (
+    select 1 from siwe_sessions
+    where session_id = (auth.jwt() ->> 'session_id')::uuid and user_id = auth.uid()
+  );
+$$;
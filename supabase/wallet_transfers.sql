@@ -0,0 +1,61 @@
+-- Per-wallet transfer history synced from the app (src/lib/historySync.ts).
+-- Apply once in the Supabase SQL editor after siwe.sql, and enable the Web3
+-- (Ethereum) sign-in provider under Authentication so wallets can sign in with
+-- SIWE (EIP-4361).
+
+-- One row per transfer the app saved, mirroring TransferRecord in
+-- src/lib/transferHistory.ts. `steps` keeps every status transition with its
+-- timestamp and transaction hash.
+create table if not exists wallet_transfers (
+  id text primary key,
+  -- Supabase user created for the wallet on its first SIWE sign-in
+  owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  address text not null,
+  token text not null,
+  amount text not null,
+  source_chain_id bigint not null,
+  destination_chain_id bigint not null,
+  speed text,
+  recipient text,
+  status text not null check (status in ('pending', 'completed', 'failed')),
+  steps jsonb not null default '[]',
+  source_tx_hash text,
+  receive_tx_hash text,
+  error text,
+  created_at timestamptz not null,
+  updated_at timestamptz not null
+);
+
+create index if not exists wallet_transfers_owner_idx on wallet_transfers (owner_id, created_at desc);
+
+-- Each wallet sees and writes only its own rows, from a session signed in through
+-- the siwe Edge Function; the anon key alone sees nothing
+alter table wallet_transfers enable row level security;
+
+create policy "Wallets read their own transfers" on wallet_transfers
+  for select to authenticated using (owner_id = auth.uid() and is_siwe_session());
+
+create policy "Wallets add their own transfers" on wallet_transfers
+  for insert to authenticated with check (owner_id = auth.uid() and is_siwe_session());
+
+create policy "Wallets update their own transfers" on wallet_transfers
+  for update to authenticated
+  using (owner_id = auth.uid() and is_siwe_session())
+  with check (owner_id = auth.uid() and is_siwe_session());
+
+-- Keep the newest copy of each transfer: an upload older than the stored row,
+-- from a slow request or a device that was offline, leaves the row as it is
+create or replace function keep_newer_wallet_transfer() returns trigger
+  language plpgsql
+as $$
+begin
+  if new.updated_at < old.updated_at then
+    return null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists keep_newer_wallet_transfer on wallet_transfers;
+create trigger keep_newer_wallet_transfer before update on wallet_transfers
+  for each row execute function keep_newer_wallet_transfer();